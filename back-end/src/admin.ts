@@ -0,0 +1,139 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+import express from 'express'
+
+import { asyncWrapper } from './middleware.js'
+import { reportsGet } from './reports.js'
+import { validateAdminAuth } from './auth.js'
+import { getPresenceLogging } from './db.js'
+import { logger } from './logger.js'
+import {
+    buildIndexes,
+    changePresenceLogging,
+    ChoreOptions,
+    findTranscripts,
+    getAuditEntries,
+    reassignTranscripts,
+    removeUnusedClients,
+    removeUnusedProfiles,
+    runMigrations,
+} from './v2/chores.js'
+
+const oneDayMillis = 24 * 60 * 60 * 1000
+
+export const adminRouter = express.Router()
+
+adminRouter
+    .get('/reports/:kind', asyncWrapper(reportsGet))
+    .get('/presenceLogging', asyncWrapper(presenceLoggingGet))
+    .put('/presenceLogging', asyncWrapper(presenceLoggingPut))
+    .post('/unusedClients', asyncWrapper(unusedClientsPost))
+    .post('/unusedProfiles', asyncWrapper(unusedProfilesPost))
+    .get('/transcripts', asyncWrapper(transcriptsGet))
+    .post('/assignTranscripts', asyncWrapper(assignTranscriptsPost))
+    .post('/buildIndexes', asyncWrapper(buildIndexesPost))
+    .post('/migrateSchema', asyncWrapper(migrateSchemaPost))
+    .get('/audit', asyncWrapper(auditGet))
+
+async function presenceLoggingGet(req: express.Request, res: express.Response) {
+    if (!(await validateAdminAuth(req, res))) return
+    res.status(200).send({ enabled: await getPresenceLogging() })
+}
+
+async function presenceLoggingPut(req: express.Request, res: express.Response) {
+    if (!(await validateAdminAuth(req, res))) return
+    const enabled = req.body?.enabled
+    if (typeof enabled !== 'boolean') {
+        logger.error('Invalid presence logging setting', { enabled })
+        res.status(400).send({ status: 'error', reason: 'Invalid presence logging setting' })
+        return
+    }
+    const result = await changePresenceLogging(enabled, choreOptions(req))
+    res.status(200).send(result)
+}
+
+async function unusedClientsPost(req: express.Request, res: express.Response) {
+    if (!(await validateAdminAuth(req, res))) return
+    const days = dayCount(req.body?.unusedDays, 30)
+    if (days === undefined) {
+        res.status(400).send({ status: 'error', reason: 'Invalid day count' })
+        return
+    }
+    const result = await removeUnusedClients(Date.now() - days * oneDayMillis, choreOptions(req))
+    res.status(200).send(result)
+}
+
+async function unusedProfilesPost(req: express.Request, res: express.Response) {
+    if (!(await validateAdminAuth(req, res))) return
+    const result = await removeUnusedProfiles(choreOptions(req))
+    res.status(200).send(result)
+}
+
+async function transcriptsGet(req: express.Request, res: express.Response) {
+    if (!(await validateAdminAuth(req, res))) return
+    const days = dayCount(req.query?.collectedDaysAgo, 0)
+    if (days === undefined) {
+        res.status(400).send({ status: 'error', reason: 'Invalid day count' })
+        return
+    }
+    const found = await findTranscripts(Date.now() - days * oneDayMillis, choreOptions(req))
+    const result = found.map(({ conversationId, transcripts }) => ({
+        conversationId,
+        transcripts: transcripts.map((tr) => ({
+            id: tr.id,
+            startTime: tr.startTime,
+            duration: tr.duration,
+            transcription: tr.transcription,
+        })),
+    }))
+    res.status(200).send(result)
+}
+
+async function assignTranscriptsPost(req: express.Request, res: express.Response) {
+    if (!(await validateAdminAuth(req, res))) return
+    const days = dayCount(req.body?.inPastDays, 30)
+    if (days === undefined) {
+        res.status(400).send({ status: 'error', reason: 'Invalid day count' })
+        return
+    }
+    const result = await reassignTranscripts(days, choreOptions(req))
+    res.status(200).send(result)
+}
+
+async function buildIndexesPost(req: express.Request, res: express.Response) {
+    if (!(await validateAdminAuth(req, res))) return
+    const result = await buildIndexes(choreOptions(req))
+    res.status(200).send(result)
+}
+
+async function migrateSchemaPost(req: express.Request, res: express.Response) {
+    if (!(await validateAdminAuth(req, res))) return
+    const result = await runMigrations(choreOptions(req))
+    if (!result) {
+        res.status(409).send({ status: 'error', reason: 'Schema migration already in progress' })
+        return
+    }
+    res.status(200).send(result)
+}
+
+async function auditGet(req: express.Request, res: express.Response) {
+    if (!(await validateAdminAuth(req, res))) return
+    const limit = parseInt(`${req.query?.limit || 100}`)
+    res.status(200).send(await getAuditEntries(isNaN(limit) ? 100 : limit))
+}
+
+// the admin token is shared, so callers identify themselves for the audit log
+function choreOptions(req: express.Request): ChoreOptions {
+    const dryRun = req.body?.dryRun === true || req.query?.dryRun === 'true'
+    return { actor: req.header('X-Admin-User') || 'admin-api', dryRun }
+}
+
+function dayCount(value: unknown, defaultDays: number) {
+    if (value === undefined) {
+        return defaultDays
+    }
+    const days = typeof value === 'number' ? value : parseInt(`${value}`)
+    return Number.isInteger(days) && days >= 0 ? days : undefined
+}
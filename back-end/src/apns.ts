@@ -5,48 +5,52 @@
 import { fetch } from 'fetch-h2'
 import { createApnsJwt, refreshSecret } from './auth.js'
 import { getSettings } from './settings.js'
-import { dbKeyPrefix, getDbClient } from './db.js'
+import { getStorage } from './storage.js'
+import { logger } from './logger.js'
+import { apnsPushes } from './metrics.js'
+import { addToIndex, findNewestInIndex } from './indexes.js'
 
-interface ApnsRequestData {
+export interface ApnsRequestData {
     id: string
     clientKey: string
     status: number
+    sentTime?: number
     devId?: string
     reason?: string
     timestamp?: number
 }
 
-export async function getApnsRequestData(requestKey: string) {
-    const db = await getDbClient()
-    const existing: { [index: string]: string | number } = await db.hGetAll(
-        dbKeyPrefix + requestKey,
-    )
-    if (!existing?.id) {
-        return undefined
-    }
-    if (typeof existing?.status === 'string') {
-        existing.status = parseInt(existing.status)
-    }
-    return existing as unknown as ApnsRequestData
+// requests are identified by the push ID they were sent with
+export async function getApnsRequestData(pushId: string) {
+    return await getStorage().clients.getApnsRequest(pushId)
 }
 
-export async function setApnsRequestData(requestKey: string, data: ApnsRequestData) {
-    const update = {}
-    for (const key in data) {
-        update[key] = data[key].toString()
+export async function setApnsRequestData(data: ApnsRequestData) {
+    await getStorage().clients.saveApnsRequest(data)
+    await addToIndex('req-sentTime', data.id, data.sentTime || 0)
+}
+
+// the most recent pushes first, for the admin dashboard (records from before
+// we kept the time of each push come last)
+export async function getRecentApnsRequests(limit: number = 50) {
+    const requests: ApnsRequestData[] = []
+    for (const id of await findNewestInIndex('req-sentTime', limit)) {
+        const request = await getApnsRequestData(id)
+        if (request) {
+            requests.push(request)
+        }
     }
-    const rc = await getDbClient()
-    await rc.hSet(dbKeyPrefix + requestKey, update)
+    return requests
 }
 
 export async function sendSecretToClient(clientId: string, force: boolean = false) {
     const config = getSettings()
     const { didRefresh, clientData } = await refreshSecret(clientId, force)
     if (!didRefresh) {
-        console.log(`Client ${clientId} already has its secret`)
+        logger.info('Client already has its secret', { clientId })
         return true
     }
-    console.log(`Pushing secret to client ${clientId}`)
+    logger.info('Pushing secret to client', { clientId })
     const server = config.apnsUrl
     const path = `/3/device/${clientData.token}`
     const secret64 = Buffer.from(clientData.secret!, 'hex').toString('base64')
@@ -56,11 +60,11 @@ export async function sendSecretToClient(clientId: string, force: boolean = fals
         },
         secret: secret64,
     }
-    const requestKey = `req:${clientData.pushId!}`
     const requestData: ApnsRequestData = {
         id: clientData.pushId!,
         clientKey: clientId,
         status: -1,
+        sentTime: Date.now(),
     }
     try {
         const response = await fetch(server + path, {
@@ -86,18 +90,25 @@ export async function sendSecretToClient(clientId: string, force: boolean = fals
         if (response.status >= 400) {
             const body = await response.json()
             requestData.reason = body.reason
-            console.log(
-                `APNS post failed with status ${response.status} and reason: ${body.reason}`,
-            )
+            logger.warn('APNS post failed', {
+                clientId,
+                status: response.status,
+                reason: body.reason,
+            })
             if (body?.timestamp) {
                 requestData.timestamp = body.timestamp
             }
         } else {
-            console.log(`APNS post completed with status ${response.status}`)
+            logger.info('APNS post completed', { clientId, status: response.status })
         }
     } catch (err) {
-        console.log(`APNS post failed due to error: ${err}`)
+        logger.error('APNS post failed', { clientId, error: err })
     }
-    await setApnsRequestData(requestKey, requestData)
+    // a status of -1 means the post never got a response
+    apnsPushes.inc({
+        status: requestData.status < 0 ? 'error' : requestData.status,
+        reason: requestData.reason || '',
+    })
+    await setApnsRequestData(requestData)
     return requestData.status >= 200 && requestData.status < 300
 }
@@ -3,10 +3,11 @@
 // See the LICENSE file for details.
 
 import * as jose from 'jose'
-import { randomBytes, randomUUID } from 'crypto'
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto'
 
 import { ClientData, getClientData, setClientData } from './client.js'
 import { getSettings } from './settings.js'
+import { logger } from './logger.js'
 import express from 'express'
 
 export async function createApnsJwt() {
@@ -29,7 +30,7 @@ export async function validateApnsJwt(jwt: string) {
         return true
     } catch (err) {
         if (err instanceof jose.errors.JWSSignatureVerificationFailed) {
-            console.log(`Invalid APNS JWT: ${err}`)
+            logger.warn('Invalid APNS JWT', { error: err })
             return false
         }
         throw err
@@ -39,33 +40,95 @@ export async function validateApnsJwt(jwt: string) {
 export async function validateClientAuth(req: express.Request, res: express.Response, clientId: string) {
     const auth = req.header('Authorization')
     if (!auth || !auth.toLowerCase().startsWith('bearer ')) {
-        console.log(`Missing or invalid authorization header: ${auth}`)
+        logger.warn('Missing or invalid authorization header', { clientId, hasHeader: !!auth })
         res.status(403).send({ status: 'error', reason: 'Invalid authorization header' })
         return false
     }
     if (!await validateClientJwt(auth.substring(7), clientId)) {
-        console.log(`Client JWT failed to validate`)
+        logger.warn('Client JWT failed to validate', { clientId })
         res.status(403).send({ status: 'error', reason: 'Invalid authorization' })
         return false
     }
     return true
 }
 
+export async function findAuthenticatedClient(req: express.Request) {
+    // like validateClientAuth, but for requests that may also be made without credentials
+    const clientId = req.header('X-Client-Id')
+    const auth = req.header('Authorization')
+    if (!clientId || !auth || !auth.toLowerCase().startsWith('bearer ')) {
+        return undefined
+    }
+    const clientData = await getClientData(clientId)
+    if (!clientData?.secret || !clientData?.lastSecret) {
+        logger.warn('Authorization presented for unknown client', { clientId })
+        return undefined
+    }
+    if (!(await validateClientJwt(auth.substring(7), clientId))) {
+        logger.warn('Client JWT failed to validate', { clientId })
+        return undefined
+    }
+    return clientData
+}
+
 export async function validateProfileAuth(req: express.Request, res: express.Response, password: string) {
     const auth = req.header('Authorization')
     if (!auth || !auth.toLowerCase().startsWith('bearer ')) {
-        console.log(`Missing or invalid authorization header: ${auth}`)
+        logger.warn('Missing or invalid authorization header', { hasHeader: !!auth })
         res.status(403).send({ status: 'error', reason: 'Invalid authorization header' })
         return false
     }
     if (auth.substring(7) != password) {
-        console.error(`User profile ${req.method} has incorrect password`)
+        logger.error('User profile request has incorrect password', { method: req.method })
         res.status(403).send({ status: `error`, reason: `Invalid authorization` })
         return false
     }
     return true
 }
 
+export async function validateAdminAuth(req: express.Request, res: express.Response) {
+    const auth = req.header('Authorization')
+    if (!auth || !auth.toLowerCase().startsWith('bearer ')) {
+        logger.warn('Missing or invalid admin authorization header', { hasHeader: !!auth })
+        res.status(403).send({ status: 'error', reason: 'Invalid authorization header' })
+        return false
+    }
+    if (!isAdminToken(auth.substring(7))) {
+        logger.error('Admin request has incorrect token', { method: req.method, path: req.path })
+        res.status(403).send({ status: 'error', reason: 'Invalid authorization' })
+        return false
+    }
+    return true
+}
+
+// browsers can't send a bearer token, so admin pages take the admin token
+// as the password of a basic login (the user name is ignored)
+export async function validateAdminPageAuth(req: express.Request, res: express.Response) {
+    const auth = req.header('Authorization')
+    if (auth && auth.toLowerCase().startsWith('basic ')) {
+        const login = Buffer.from(auth.substring(6), 'base64').toString()
+        const password = login.substring(login.indexOf(':') + 1)
+        if (isAdminToken(password)) {
+            return true
+        }
+        logger.error('Admin page request has incorrect password', { path: req.path })
+    }
+    res.setHeader('WWW-Authenticate', 'Basic realm="Whisper admin", charset="UTF-8"')
+    res.status(401).send('Admin login required')
+    return false
+}
+
+function isAdminToken(token: string) {
+    const { adminToken } = getSettings()
+    const presented = Buffer.from(token)
+    const expected = Buffer.from(adminToken)
+    return (
+        !!adminToken &&
+        presented.length === expected.length &&
+        timingSafeEqual(presented, expected)
+    )
+}
+
 export async function createClientJwt(clientKey: string) {
     const alg = 'HS256'
     const clientData = await getClientData(clientKey)
@@ -94,10 +157,16 @@ export async function validateClientJwt(jwt: string, clientId: string) {
         } catch (err) {
             if (err instanceof jose.errors.JWSSignatureVerificationFailed) {
                 if (secret === clientData.secret) {
-                    console.log(`Validation of JWT with current secret failed: ${err}`)
+                    logger.info('Validation of JWT with current secret failed', {
+                        clientId,
+                        error: err,
+                    })
                     continue
                 } else {
-                    console.log(`Validation of JWT with last secret failed: ${err}`)
+                    logger.warn('Validation of JWT with last secret failed', {
+                        clientId,
+                        error: err,
+                    })
                     return false
                 }
             }
@@ -130,9 +199,9 @@ export async function refreshSecret(clientId: string, force: boolean = false) {
             // a secret has been issued for this client, but it's never been received.
             // since these are often sent twice, it's important not to change it in case
             // there was simply a delay in responding to the notification.
-            console.log(`Reusing the sent-but-never-received secret for client ${clientId}`)
+            logger.info('Reusing the sent-but-never-received secret', { clientId })
         } else {
-            console.log(`Issuing a new secret for client ${clientId}`)
+            logger.info('Issuing a new secret', { clientId })
             clientData.secret = await makeNonce()
             clientData.secretDate = 0
         }
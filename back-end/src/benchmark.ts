@@ -0,0 +1,97 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Compare reading every hash that matches a pattern using KEYS and one HGETALL
+per key (the way maintenance used to) with using scanHashes.  Run this against
+a local Redis only: it seeds the (test) database with the given number of
+hashes, 100k by default, and deletes them again when it's done.
+
+While each method runs, a second connection pings the server continuously,
+and the longest ping is reported, because the point of scanning is not so
+much to be faster as to never hold up the other clients of the database.
+ */
+
+import { dbKeyPrefix, getDbClient, scanHashes, scanKeys } from './storage/redis.js'
+import { loadSettings } from './settings.js'
+
+const seedBatchSize = 1000
+
+async function seedHashes(prefix: string, count: number) {
+    const rc = await getDbClient()
+    for (let start = 0; start < count; start += seedBatchSize) {
+        const multi = rc.multi()
+        for (let i = start; i < Math.min(start + seedBatchSize, count); i++) {
+            multi.hSet(prefix + i, { id: `${i}`, lastLaunch: `${Date.now()}`, appInfo: 'bench' })
+        }
+        await multi.execAsPipeline()
+    }
+}
+
+async function readWithKeys(prefix: string) {
+    const rc = await getDbClient()
+    const keys = await rc.keys(prefix + '*')
+    let count = 0
+    for (const key of keys) {
+        const data = await rc.hGetAll(key)
+        count += data.id ? 1 : 0
+    }
+    return count
+}
+
+async function readWithScan(prefix: string) {
+    let count = 0
+    for await (const batch of scanHashes(prefix + '*')) {
+        count += batch.filter(({ data }) => data.id).length
+    }
+    return count
+}
+
+async function timeWithPings(label: string, read: () => Promise<number>) {
+    const pc = await getDbClient('benchmark-pings')
+    let maxPingMs = 0
+    let done = false
+    const pinger = (async () => {
+        while (!done) {
+            const start = performance.now()
+            await pc.ping()
+            maxPingMs = Math.max(maxPingMs, performance.now() - start)
+        }
+    })()
+    const start = performance.now()
+    const count = await read()
+    const elapsedMs = performance.now() - start
+    done = true
+    await pinger
+    console.log(
+        `${label}: read ${count} hashes in ${elapsedMs.toFixed(0)}ms, ` +
+            `longest ping ${maxPingMs.toFixed(1)}ms`,
+    )
+}
+
+async function benchmark(count: number) {
+    loadSettings('test')
+    const rc = await getDbClient()
+    const prefix = dbKeyPrefix + 'bench:'
+    console.log(`Seeding ${count} hashes...`)
+    await seedHashes(prefix, count)
+    try {
+        await timeWithPings('KEYS + HGETALL', () => readWithKeys(prefix))
+        await timeWithPings('scanHashes', () => readWithScan(prefix))
+    } finally {
+        for await (const keys of scanKeys(prefix + '*')) {
+            await rc.del(keys)
+        }
+    }
+}
+
+benchmark(parseInt(process.argv[2] || '100000'))
+    .then(() => {
+        console.log('Benchmark complete')
+        process.exit(0)
+    })
+    .catch((reason) => {
+        console.error(`Benchmark failed: ${reason}`)
+        process.exit(1)
+    })
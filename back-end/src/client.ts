@@ -2,7 +2,9 @@
 // Licensed under the GNU Affero General Public License v3.
 // See the LICENSE file for details.
 
-import { dbKeyPrefix, getDbClient, getPresenceLogging } from './db.js'
+import { getPresenceLogging } from './db.js'
+import { getStorage } from './storage.js'
+import { addToIndex } from './indexes.js'
 
 export interface ClientData {
     id: string
@@ -20,25 +22,16 @@ export interface ClientData {
 }
 
 export async function getClientData(id: string) {
-    const rc = await getDbClient()
-    const clientKey = dbKeyPrefix + `cli:${id}`
-    const existing: { [index: string]: string | number } = await rc.hGetAll(clientKey)
-    if (!existing?.id) {
-        return undefined
-    }
-    if (typeof existing?.secretDate === 'string') {
-        existing.secretDate = parseInt(existing.secretDate)
-    }
-    if (typeof existing?.lastLaunch === 'string') {
-        existing.lastLaunch = parseInt(existing.lastLaunch)
-    }
-    return existing as unknown as ClientData
+    return await getStorage().clients.get(id)
 }
 
 export async function setClientData(clientData: ClientData) {
-    const rc = await getDbClient()
-    const clientKey = dbKeyPrefix + `cli:${clientData.id}`
-    await rc.hSet(clientKey, { ...clientData })
+    await getStorage().clients.save(clientData)
+    if (clientData.lastLaunch) {
+        await addToIndex('cli-lastLaunch', clientData.id, clientData.lastLaunch)
+    } else {
+        await addToIndex('cli-lastLaunch', clientData.id, 0, true)
+    }
 }
 
 export interface HasClientChanged {
@@ -75,8 +68,5 @@ export async function hasClientChanged(id: string, received: ClientData) {
 }
 
 export async function isApnsPostRepeat(received: ClientData) {
-    const rc = await getDbClient()
-    const key = dbKeyPrefix + `apns:${received.id}|${received.token}`
-    const existing = await rc.set(key, Date.now(), { NX: true, PX: 250, GET: true })
-    return existing !== null
+    return await getStorage().clients.isRepeatPost(received.id, `${received.token}`, 250)
 }
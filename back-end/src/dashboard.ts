@@ -0,0 +1,131 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Admin dashboard design note:
+
+Support staff need to see what the fleet is doing right now, so the
+dashboard is a single server-rendered page that is built from the database
+each time it's loaded, and that reloads itself every half minute.  It shows:
+
+- the servers that are transcribing, whether or not they are taking new
+  transcripts, when they last renewed their lease, and the transcripts they
+  own;
+- the suspended transcripts that are waiting for a server to resume them;
+- the most recent APNs pushes, with their status; and
+- whether presence logging is on.
+
+Whichever server renders the page, it shows the same (shared) state.  The
+page is self-contained: its styles are inline, and it loads nothing else,
+so it works even when the static assets or external fonts are unavailable.
+ */
+
+import express from 'express'
+import { escape } from 'html-escaper'
+
+import { validateAdminPageAuth } from './auth.js'
+import { getPresenceLogging } from './db.js'
+import { ApnsRequestData, getRecentApnsRequests } from './apns.js'
+import {
+    getTranscript,
+    getTranscriptionStatus,
+    SERVER_ID,
+    TranscriptionServer,
+} from './v2/transcribe.js'
+
+const dashboardRefreshSec = 30
+const dashboardApnsLimit = 50
+
+interface SuspendedTranscript {
+    id: string
+    conversationId?: string
+    startTime?: number
+}
+
+export async function adminDashboard(req: express.Request, res: express.Response) {
+    if (!(await validateAdminPageAuth(req, res))) return
+    const { servers, suspendedIds } = await getTranscriptionStatus()
+    const suspended: SuspendedTranscript[] = []
+    for (const id of suspendedIds) {
+        const tr = await getTranscript(id)
+        suspended.push({ id, conversationId: tr?.conversationId, startTime: tr?.startTime })
+    }
+    const pushes = await getRecentApnsRequests(dashboardApnsLimit)
+    const presenceLogging = await getPresenceLogging()
+    res.setHeader('Content-Type', 'text/html; charset=utf-8')
+    res.setHeader('Cache-Control', 'no-store')
+    res.status(200).send(dashboardPage(servers, suspended, pushes, presenceLogging))
+}
+
+function dashboardPage(
+    servers: TranscriptionServer[],
+    suspended: SuspendedTranscript[],
+    pushes: ApnsRequestData[],
+    presenceLogging: boolean,
+) {
+    const serverHeadings = ['Server', 'Available', 'Lease renewed', 'Transcripts', 'Owned IDs']
+    const serverRows = servers.map((server) => [
+        server.serverId === SERVER_ID ? `${server.serverId} (this server)` : server.serverId,
+        server.isAvailable ? 'yes' : 'no',
+        timeString(server.leaseTime),
+        `${server.transcriptIds.length}`,
+        server.transcriptIds.join(' '),
+    ])
+    const suspendedRows = suspended.map((tr) => [
+        tr.id,
+        tr.conversationId || 'unknown',
+        timeString(tr.startTime),
+    ])
+    const pushRows = pushes.map((push) => [
+        timeString(push.sentTime),
+        push.clientKey,
+        push.status < 0 ? 'no response' : `${push.status}`,
+        push.reason || '',
+        push.id,
+    ])
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="refresh" content="${dashboardRefreshSec}">
+    <title>Whisper server dashboard</title>
+    <style>
+        body { font-family: sans-serif; margin: 1em 2em; }
+        table { border-collapse: collapse; margin-bottom: 2em; }
+        th, td { border: 1px solid #ccc; padding: 0.25em 0.5em; text-align: left; }
+        th { background: #eee; }
+        td { font-family: monospace; }
+        .empty { color: #888; font-style: italic; }
+    </style>
+</head>
+<body>
+    <h1>Whisper server dashboard</h1>
+    <p>As of ${timeString(Date.now())}.
+       Presence logging is <b>${presenceLogging ? 'on' : 'off'}</b>.</p>
+    <h2>Transcription servers</h2>
+    ${tableHtml(serverHeadings, serverRows)}
+    <h2>Suspended transcripts</h2>
+    ${tableHtml(['Transcript', 'Conversation', 'Started'], suspendedRows)}
+    <h2>Recent APNs pushes</h2>
+    ${tableHtml(['Sent', 'Client', 'Status', 'Reason', 'Push ID'], pushRows)}
+</body>
+</html>
+`
+}
+
+function tableHtml(headings: string[], rows: string[][]) {
+    if (rows.length === 0) {
+        return `<p class="empty">None</p>`
+    }
+    const head = headings.map((heading) => `<th>${escape(heading)}</th>`).join('')
+    const body = rows
+        .map((row) => `<tr>${row.map((cell) => `<td>${escape(cell)}</td>`).join('')}</tr>`)
+        .join('\n')
+    return `<table>\n<tr>${head}</tr>\n${body}\n</table>`
+}
+
+function timeString(time?: number) {
+    return time ? new Date(time).toISOString() : 'unknown'
+}
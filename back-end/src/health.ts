@@ -0,0 +1,55 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+import express from 'express'
+
+import { getStorage } from './storage.js'
+import { isSuspendingTranscriptions } from './v2/transcribe.js'
+import { logger } from './logger.js'
+
+const redisPingTimeoutMs = 2000
+
+let shutdownInProgress = false
+
+// called first thing on shutdown, so load balancers stop sending us traffic
+export function beginShutdown() {
+    shutdownInProgress = true
+}
+
+export async function healthz(_req: express.Request, res: express.Response) {
+    res.status(200).send({ status: 'success' })
+}
+
+export async function readyz(_req: express.Request, res: express.Response) {
+    const reason = await notReadyReason()
+    if (reason) {
+        logger.warn('Server is not ready', { reason })
+        res.status(503).send({ status: 'error', reason })
+        return
+    }
+    res.status(200).send({ status: 'success' })
+}
+
+async function notReadyReason() {
+    if (shutdownInProgress) {
+        return 'Server is shutting down'
+    }
+    if (isSuspendingTranscriptions()) {
+        return 'Server is suspending transcriptions'
+    }
+    const storage = getStorage()
+    if (!storage.queues.isWaiting()) {
+        return 'Transcription database client is not connected'
+    }
+    try {
+        let timer: NodeJS.Timeout | undefined
+        const timeout = new Promise<never>((_resolve, reject) => {
+            timer = setTimeout(() => reject(Error('timed out')), redisPingTimeoutMs)
+        })
+        await Promise.race([storage.ping(), timeout]).finally(() => clearTimeout(timer))
+    } catch (err) {
+        return `Database ping failed: ${err}`
+    }
+    return undefined
+}
@@ -0,0 +1,57 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Secondary index design note:
+
+Clients, profiles, transcripts and APNs requests each have an index of their
+IDs by time: clients by their last launch, profiles by their last use,
+transcripts by their start time, and APNs requests by the time they were sent.
+(In Redis, each index is a sorted set whose scores are the times.)  Finding the
+objects in a time range, or the newest objects, is then a single range query
+rather than a scan of every object.
+
+The indexes are updated by the same functions that save the objects.  Clients
+that have never reported a launch are indexed with a time of 0, so they show
+up as unused, but a client's real launch time is never replaced by 0.  APNs
+requests from before we kept their send time are likewise indexed at 0.
+
+Transcripts expire on their own, so the index can outlive them.  Callers must
+check that the objects found in an index still exist, and can drop the ones
+that don't with removeFromIndex.  The backfill chore builds the indexes from
+existing data, and can be re-run at any time.
+ */
+
+import { getStorage } from './storage.js'
+
+export type IndexName = 'cli-lastLaunch' | 'pro-lastUsed' | 'tra-startTime' | 'req-sentTime'
+
+// with onlyIfMissing, an existing entry keeps its time
+export async function addToIndex(
+    name: IndexName,
+    id: string,
+    time: number,
+    onlyIfMissing: boolean = false,
+) {
+    await getStorage().indexes.add(name, [{ id, time }], onlyIfMissing)
+}
+
+// add many entries at once, as when building an index from existing data
+export async function addManyToIndex(name: IndexName, entries: { id: string; time: number }[]) {
+    await getStorage().indexes.add(name, entries)
+}
+
+export async function removeFromIndex(name: IndexName, ids: string[]) {
+    await getStorage().indexes.remove(name, ids)
+}
+
+// the IDs with times in the given range (inclusive), oldest first
+export async function findInIndex(name: IndexName, from: number, to: number) {
+    return await getStorage().indexes.find(name, from, to)
+}
+
+// the IDs with the latest times, newest first
+export async function findNewestInIndex(name: IndexName, count: number) {
+    return await getStorage().indexes.findNewest(name, count)
+}
@@ -0,0 +1,103 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Logging design note:
+
+Every log entry is written as a single line of JSON, so our log pipeline can
+query it.  The message of an entry is a fixed string describing what happened,
+and everything that varies (ids, counts, reasons) goes in named fields, so the
+entries for the same event can be found no matter which client or conversation
+they are about.
+
+Each incoming request is given a correlation id, taken from the router's
+X-Request-Id header if there is one, and every entry logged while handling
+that request (including in async code it awaits) carries that id.
+
+User names and conversation names are personal data, so they are only ever
+logged in the `userName` and `conversationName` fields, which are redacted
+when the `LOG_REDACT_NAMES` setting is on.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { randomUUID } from 'crypto'
+import express from 'express'
+
+import { getSettings } from './settings.js'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface LogFields {
+    clientId?: string
+    profileId?: string
+    conversationId?: string
+    transcriptId?: string
+    userName?: string
+    conversationName?: string
+    error?: unknown
+    [field: string]: unknown
+}
+
+interface RequestContext {
+    requestId: string
+}
+
+const levelRanks: { [level in LogLevel]: number } = { debug: 10, info: 20, warn: 30, error: 40 }
+const redactedFields = ['userName', 'conversationName']
+const requestContext = new AsyncLocalStorage<RequestContext>()
+
+export const logger = {
+    debug: (message: string, fields: LogFields = {}) => log('debug', message, fields),
+    info: (message: string, fields: LogFields = {}) => log('info', message, fields),
+    warn: (message: string, fields: LogFields = {}) => log('warn', message, fields),
+    error: (message: string, fields: LogFields = {}) => log('error', message, fields),
+}
+
+export function requestIdMiddleware(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction,
+) {
+    const requestId = req.header('X-Request-Id') || randomUUID()
+    res.setHeader('X-Request-Id', requestId)
+    requestContext.run({ requestId }, next)
+}
+
+export function currentRequestId() {
+    return requestContext.getStore()?.requestId
+}
+
+function log(level: LogLevel, message: string, fields: LogFields) {
+    const { logLevel, logRedactNames } = getSettings()
+    if (levelRanks[level] < (levelRanks[logLevel as LogLevel] || levelRanks.info)) {
+        return
+    }
+    const entry: { [field: string]: unknown } = {
+        time: new Date().toISOString(),
+        level,
+        message,
+    }
+    const requestId = currentRequestId()
+    if (requestId) {
+        entry.requestId = requestId
+    }
+    for (const [field, value] of Object.entries(fields)) {
+        if (value === undefined) {
+            continue
+        }
+        if (logRedactNames && redactedFields.includes(field)) {
+            entry[field] = '[redacted]'
+        } else if (value instanceof Error) {
+            entry[field] = `${value}`
+        } else {
+            entry[field] = value
+        }
+    }
+    const line = JSON.stringify(entry)
+    if (level === 'warn' || level === 'error') {
+        console.error(line)
+    } else {
+        console.log(line)
+    }
+}
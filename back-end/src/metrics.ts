@@ -0,0 +1,88 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Metrics design note:
+
+The server exposes its metrics in the Prometheus text format at /metrics.
+Every metric is kept in this module's registry, along with the default
+process metrics, so each server reports only its own activity; it's up to
+the Prometheus server to sum them across the fleet.
+
+Labels are always drawn from small fixed sets (route patterns, activities,
+status codes), never from ids, so the number of time series stays bounded.
+ */
+
+import express from 'express'
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client'
+
+export const registry = new Registry()
+collectDefaultMetrics({ register: registry })
+
+export const tokenRequests = new Counter({
+    name: 'whisper_token_requests_total',
+    help: 'Realtime token requests issued, by API version and activity',
+    labelNames: ['api', 'activity'],
+    registers: [registry],
+})
+
+export const apnsPushes = new Counter({
+    name: 'whisper_apns_pushes_total',
+    help: 'APNs pushes of client secrets, by response status and reason',
+    labelNames: ['status', 'reason'],
+    registers: [registry],
+})
+
+export const activeTranscripts = new Gauge({
+    name: 'whisper_active_local_transcripts',
+    help: 'Transcripts being transcribed by this server',
+    registers: [registry],
+})
+
+export const transcriptHandoffs = new Counter({
+    name: 'whisper_transcript_handoffs_total',
+    help: 'Transcripts handed between servers, by event (suspended, resumed, adopted)',
+    labelNames: ['event'],
+    registers: [registry],
+})
+
+export const transcriptionErrors = new Counter({
+    name: 'whisper_transcription_errors_total',
+    help: 'Errors found while reconstructing transcripts from their packets',
+    registers: [registry],
+})
+
+export const profileSyncConflicts = new Counter({
+    name: 'whisper_profile_sync_conflicts_total',
+    help: 'Shared profile updates rejected as conflicts, by profile kind and method',
+    labelNames: ['profile', 'method'],
+    registers: [registry],
+})
+
+export const rejectedReports = new Counter({
+    name: 'whisper_rejected_reports_total',
+    help:
+        'Client log reports rejected, by endpoint and reason ' +
+        '(missing-client, unauthenticated, rate-limited)',
+    labelNames: ['endpoint', 'reason'],
+    registers: [registry],
+})
+
+export const routeLatency = new Histogram({
+    name: 'whisper_route_duration_seconds',
+    help: 'Time taken by route handlers, by route, method and response status',
+    labelNames: ['route', 'method', 'status'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [registry],
+})
+
+export async function metricsRoute(_req: express.Request, res: express.Response) {
+    res.setHeader('Content-Type', registry.contentType)
+    res.status(200).send(await registry.metrics())
+}
+
+// the route pattern, rather than the path, so that ids don't become labels
+export function routeLabel(req: express.Request) {
+    return req.route?.path ? req.baseUrl + req.route.path : 'unmatched'
+}
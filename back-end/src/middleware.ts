@@ -7,25 +7,44 @@ import express from 'express'
 import cookieParser from 'cookie-parser'
 import cookieSession from 'cookie-session'
 import { getSessionKeys } from './db.js'
-import { loadSettings } from './settings.js'
-
-loadSettings()
+import { logger } from './logger.js'
+import { routeLabel, routeLatency } from './metrics.js'
 
 export const cookieMiddleware = cookieParser()
-export const sessionMiddleware = cookieSession({ keys: await getSessionKeys() })
+
+let loadedSessionMiddleware: express.RequestHandler | undefined
+
+// the session keys are in storage, so they can only be read once settings are loaded
+export async function sessionMiddleware(
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction,
+) {
+    if (!loadedSessionMiddleware) {
+        try {
+            loadedSessionMiddleware = cookieSession({ keys: await getSessionKeys() })
+        } catch (error) {
+            next(error)
+            return
+        }
+    }
+    loadedSessionMiddleware(req, res, next)
+}
 
 export type Handler = (req: express.Request, res: express.Response, next: express.NextFunction) => Promise<void>
 
 export function asyncWrapper(handler: Handler) {
     return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+        const endTimer = routeLatency.startTimer()
         try {
             await handler(req, res, next)
         } catch (error) {
-            console.log(`Route handler ${handler} produced an error: ${error}`)
+            logger.error('Route handler produced an error', { handler: handler.name, error })
             if (!res.headersSent) {
                 // make sure we send some response to the client, if it's not already gone
                 res.status(500).send({ status: 'error', reason: `Server error: ${error}` })
             }
         }
+        endTimer({ route: routeLabel(req), method: req.method, status: res.statusCode })
     }
 }
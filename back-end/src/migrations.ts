@@ -0,0 +1,125 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Schema migration design note:
+
+The formats of our stored objects drift over time, and rather than patch
+old formats everywhere they are read, we migrate the stored data.  (Readers
+keep their defaults anyway, because servers running older code can still
+write old formats during a deploy.)  The database records a schema version, which is the number of the last
+migration that has completed.  Migrations are numbered in the order they
+must be run, and every migration must be idempotent, because a server can
+die part way through one, in which case it will be run again from the start.
+
+Migrations run either from the maintenance CLI or when a server starts.
+Only one process at a time can migrate: the first one to take the migration
+lock does the work, and any others that start while it is held skip the
+migration (at startup) or fail (from the CLI).  The lock expires in case its
+holder dies, and it is renewed after each batch of objects is migrated, so
+a long migration keeps it.  A migration that finds its lock has been lost
+stops, rather than race the process that now holds it, and doesn't record
+its version.
+
+Only the Redis storage has data from older formats, so only it has anything
+to migrate (see storage/redis.ts); the memory storage is always up to date.
+The storage keeps the schema version and the lock, and runs each migration,
+while the order and locking of migrations are handled here.
+
+A dry run takes no lock and changes nothing, not even the schema version;
+each migration reports how many objects it would have changed.  Since
+nothing has been migrated, a dry run of later migrations may count objects
+that earlier migrations would have fixed.
+ */
+
+import { randomUUID } from 'crypto'
+
+import { getStorage, ScanOptions } from './storage.js'
+import { logger } from './logger.js'
+
+interface Migration {
+    version: number
+    description: string
+}
+
+export interface MigrationResult {
+    version: number
+    description: string
+    changed: number
+}
+
+export interface MigrationSummary {
+    from: number
+    to: number
+    results: MigrationResult[]
+}
+
+const migrationLockSec = 10 * 60
+
+const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'give transcripts without a time zone the default one',
+    },
+    {
+        version: 2,
+        description: 'set the settings version of profiles that lack one to 1',
+    },
+    {
+        version: 3,
+        description: 'link v2 clients to their profiles and profile names',
+    },
+]
+
+export const latestSchemaVersion = migrations[migrations.length - 1].version
+
+export async function getSchemaVersion() {
+    return await getStorage().schema.getVersion()
+}
+
+// returns undefined if another process holds the migration lock
+export async function migrateSchema(
+    dryRun: boolean = false,
+    options: ScanOptions = {},
+): Promise<MigrationSummary | undefined> {
+    const schema = getStorage().schema
+    const from = await schema.getVersion()
+    if (from >= latestSchemaVersion) {
+        return { from, to: from, results: [] }
+    }
+    const lockId = randomUUID()
+    if (!dryRun && !(await schema.lock(lockId, migrationLockSec))) {
+        logger.warn('Another process is migrating the schema', { from })
+        return undefined
+    }
+    const renewLock = async () => {
+        if (!dryRun && !(await schema.renewLock(lockId, migrationLockSec))) {
+            throw Error('Lost the schema migration lock')
+        }
+    }
+    const results: MigrationResult[] = []
+    try {
+        // the version may have changed while we were waiting for the lock
+        const current = dryRun ? from : await schema.getVersion()
+        for (const { version, description } of migrations) {
+            if (version <= current) {
+                continue
+            }
+            logger.info('Running schema migration', { version, description, dryRun })
+            const changed = await schema.migrate(version, dryRun, options, renewLock)
+            results.push({ version, description, changed })
+            if (!dryRun) {
+                await renewLock()
+                await schema.setVersion(version)
+            }
+            logger.info('Schema migration completed', { version, changed, dryRun })
+        }
+    } finally {
+        if (!dryRun) {
+            await schema.unlock(lockId)
+        }
+    }
+    const to = dryRun ? from : await schema.getVersion()
+    return { from, to, results }
+}
@@ -2,8 +2,9 @@
 // Licensed under the GNU Affero General Public License v3.
 // See the LICENSE file for details.
 
-import { dbKeyPrefix, getDbClient } from './db.js'
 import { getClientData } from './client.js'
+import { getStorage } from './storage.js'
+import { addToIndex } from './indexes.js'
 
 export interface ProfileData {
     id: string
@@ -22,65 +23,63 @@ export interface ProfileData {
 }
 
 export async function getProfileData(id: string) {
-    const rc = await getDbClient()
-    const profileKey = dbKeyPrefix + `pro:${id}`
-    const dbData: { [index: string]: string } = await rc.hGetAll(profileKey)
-    if (!dbData?.id) {
-        return undefined
-    }
-    return {
-        ...dbData,
-        id: id,
-        lastUsed: parseInt(dbData?.lastUsed ? dbData.lastUsed : "0"),
-        settingsVersion: parseInt(dbData?.settingsVersion ? dbData.settingsVersion : "1"),
-    } as ProfileData
+    return await getStorage().profiles.get(id)
 }
 
 export async function saveProfileData(profileData: ProfileData) {
-    const rc = await getDbClient()
     profileData.lastUsed = Date.now()
-    const profileKey = dbKeyPrefix + `pro:${profileData.id}`
-    await rc.hSet(profileKey, { ...profileData })
+    await getStorage().profiles.save(profileData)
+    await addToIndex('pro-lastUsed', profileData.id, profileData.lastUsed)
 }
 
 export async function getProfileClients(id: string) {
-    const rc = await getDbClient()
-    const clientsKey = dbKeyPrefix + `pro-clients:${id}`
-    return await rc.sMembers(clientsKey)
+    return await getStorage().profiles.getClients(id)
 }
 
 export async function addProfileClient(id: string, clientId: string) {
-    const rc = await getDbClient()
-    const clientsKey = dbKeyPrefix + `pro-clients:${id}`
-    await rc.sAdd(clientsKey, clientId)
+    await getStorage().profiles.addClient(id, clientId)
 }
 
 export async function removeProfileClient(id: string, clientId: string) {
-    const rc = await getDbClient()
-    const clientsKey = dbKeyPrefix + `pro-clients:${id}`
-    await rc.sRem(clientsKey, clientId)
+    await getStorage().profiles.removeClient(id, clientId)
 }
 
 export interface ConversationInfo {
     id: string
     name: string
     ownerId: string // last known user profile ID of owner
+    transcriptTtl?: number // seconds to keep transcripts, 0 for forever, default if missing
+    transcriptIdleTimeout?: number // idle seconds before a session is ended, default if missing
+    transcriptAccess?: TranscriptAccess // who can read transcripts, public if missing
+}
+
+// public: anyone with the link, present: listeners who joined the session, owner: owner only
+export type TranscriptAccess = 'public' | 'present' | 'owner'
+
+export function isTranscriptAccess(access: unknown): access is TranscriptAccess {
+    return access === 'public' || access === 'present' || access === 'owner'
 }
 
 export async function getConversationInfo(id: string) {
-    const rc = await getDbClient()
-    const conversationKey = dbKeyPrefix + `con:${id}`
-    const existing = await rc.hGetAll(conversationKey)
-    if (!existing?.id) {
-        return undefined
-    }
-    return existing as unknown as ConversationInfo
+    return await getStorage().conversations.get(id)
 }
 
 export async function setConversationInfo(info: ConversationInfo) {
-    const rc = await getDbClient()
-    const conversationKey = dbKeyPrefix + `con:${info.id}`
-    await rc.hSet(conversationKey, { ...info })
+    const storage = getStorage()
+    const priorOwnerId = (await storage.conversations.get(info.id))?.ownerId
+    if (priorOwnerId && priorOwnerId !== info.ownerId) {
+        await storage.profiles.removeConversation(priorOwnerId, info.id)
+    }
+    await storage.conversations.save(info)
+    await addProfileConversation(info.ownerId, info.id)
+}
+
+export async function getProfileConversations(id: string) {
+    return await getStorage().profiles.getConversations(id)
+}
+
+export async function addProfileConversation(id: string, conversationId: string) {
+    await getStorage().profiles.addConversation(id, conversationId)
 }
 
 export async function updateLaunchData(clientId: string, profileId: string, username: string) {
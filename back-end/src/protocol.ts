@@ -2,6 +2,8 @@
 // Licensed under the GNU Affero General Public License v3.
 // See the LICENSE file for details.
 
+import { logger } from './logger.js'
+
 interface PresenceInfo {
     offset: string,
     conversationId: string,
@@ -105,12 +107,12 @@ interface ContentChunk {
 export function parseContentChunk(chunk: string) {
     const parts = chunk.match(/^(-?[0-9]+)\|(.*)$/)
     if (parts === null || parts.length != 3) {
-        console.warn(`Can't parse content chunk: ${chunk}`)
+        logger.warn("Can't parse content chunk", { chunk })
         return undefined
     }
     const offsetNum = parseInt(parts[1])
     if (isNaN(offsetNum)) {
-        console.warn(`Can't parse chunk offset: ${chunk}`)
+        logger.warn("Can't parse chunk offset", { chunk })
         return undefined
     }
     const parsed: ContentChunk = {
@@ -0,0 +1,166 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Client report design note:
+
+Clients report anomalies and channel events so we can debug problems that
+users tell us about later.  Each kind of report is kept in its own log (a
+Redis stream, when stored in Redis), whose entry ids give the time the report
+was received.  Every time a report is added, entries older than the retention
+period are trimmed from the log, so the logs stay capped without any separate
+cleanup.
+
+Reports are queried newest first, a batch at a time, and filtered by client,
+conversation and event type as they are read.  All reports have a clientId
+and an event type (the `kind` of an anomaly, the `event` of a channel event),
+but only some have a conversationId.
+ */
+
+import express from 'express'
+
+import { getStorage } from './storage.js'
+import { getSettings } from './settings.js'
+import { validateAdminAuth } from './auth.js'
+import { logger } from './logger.js'
+
+export type ReportKind = 'anomalies' | 'channel-events'
+
+export interface Report {
+    id: string
+    time: number
+    clientId: string
+    event: string
+    conversationId?: string
+    [field: string]: string | number | undefined
+}
+
+export interface ReportFilter {
+    clientId?: string
+    conversationId?: string
+    event?: string
+    since?: number
+    until?: number
+    limit?: number
+}
+
+const defaultReportLimit = 100
+const maxReportLimit = 1000
+const reportBatchSize = 200
+
+export function isReportKind(kind: string): kind is ReportKind {
+    return kind === 'anomalies' || kind === 'channel-events'
+}
+
+export async function saveReport(kind: ReportKind, fields: { [field: string]: unknown }) {
+    const message: { [field: string]: string } = {}
+    for (const [field, value] of Object.entries(fields)) {
+        if (value !== undefined && value !== null) {
+            message[field] = typeof value === 'string' ? value : JSON.stringify(value)
+        }
+    }
+    const retentionMs = getSettings().reportRetentionDays * 24 * 60 * 60 * 1000
+    await getStorage().logs.append(reportLog(kind), message, { minTime: Date.now() - retentionMs })
+}
+
+export async function queryReports(kind: ReportKind, filter: ReportFilter) {
+    const logs = getStorage().logs
+    const limit = Math.min(filter.limit || defaultReportLimit, maxReportLimit)
+    const range = { since: filter.since, until: filter.until, count: reportBatchSize }
+    let before: string | undefined = undefined
+    const reports: Report[] = []
+    while (reports.length < limit) {
+        const batch = await logs.read(reportLog(kind), { ...range, before })
+        for (const { id, time, fields } of batch) {
+            const report: Report = {
+                ...fields,
+                id,
+                time,
+                clientId: fields.clientId,
+                event: fields.event,
+            }
+            if (reportMatches(report, filter)) {
+                reports.push(report)
+                if (reports.length >= limit) {
+                    break
+                }
+            }
+        }
+        if (batch.length < reportBatchSize) {
+            break
+        }
+        // continue just before the oldest entry we've seen
+        before = batch[batch.length - 1].id
+    }
+    return reports
+}
+
+// the same filter parameters are used by the admin API and the maintenance chores
+export function parseReportFilter(params: URLSearchParams) {
+    const filter: ReportFilter = {}
+    const clientId = params.get('client')
+    const conversationId = params.get('conversation')
+    const event = params.get('event')
+    if (clientId) {
+        filter.clientId = clientId
+    }
+    if (conversationId) {
+        filter.conversationId = conversationId
+    }
+    if (event) {
+        filter.event = event
+    }
+    for (const bound of ['since', 'until'] as const) {
+        const value = params.get(bound)
+        if (value) {
+            const time = /^[0-9]+$/.test(value) ? parseInt(value) : Date.parse(value)
+            if (isNaN(time)) {
+                return undefined
+            }
+            filter[bound] = time
+        }
+    }
+    const limit = params.get('limit')
+    if (limit) {
+        filter.limit = parseInt(limit)
+        if (isNaN(filter.limit) || filter.limit <= 0) {
+            return undefined
+        }
+    }
+    return filter
+}
+
+export async function reportsGet(req: express.Request, res: express.Response) {
+    if (!(await validateAdminAuth(req, res))) {
+        return
+    }
+    const kind = req.params.kind
+    if (!isReportKind(kind)) {
+        logger.error('Request for unknown kind of report', { kind })
+        res.status(404).send({ status: 'error', reason: 'Not Found' })
+        return
+    }
+    const query = new URL(req.originalUrl, 'http://localhost').searchParams
+    const filter = parseReportFilter(query)
+    if (!filter) {
+        logger.error('Invalid report filter', { kind, query: query.toString() })
+        res.status(400).send({ status: 'error', reason: 'Invalid report filter' })
+        return
+    }
+    const reports = await queryReports(kind, filter)
+    logger.info('Returning reports', { kind, count: reports.length })
+    res.status(200).send(reports)
+}
+
+function reportMatches(report: Report, filter: ReportFilter) {
+    return (
+        (!filter.clientId || report.clientId === filter.clientId) &&
+        (!filter.conversationId || report.conversationId === filter.conversationId) &&
+        (!filter.event || report.event === filter.event)
+    )
+}
+
+function reportLog(kind: ReportKind) {
+    return `reports:${kind}`
+}
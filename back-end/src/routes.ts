@@ -6,22 +6,28 @@ import express from 'express'
 
 import { sendSecretToClient } from './apns.js'
 import { ClientData, hasClientChanged, isApnsPostRepeat, setClientData } from './client.js'
-import { getPresenceLogging } from './db.js'
+import { getPresenceLogging, isRateLimited } from './db.js'
 import { updateLaunchData } from './profile.js'
 import { parsePresenceChunk } from './protocol.js'
 import { ChannelEvent } from './channelEvent.js'
+import { logger } from './logger.js'
+import { saveReport } from './reports.js'
+import { validateClientAuth } from './auth.js'
+import { rejectedReports } from './metrics.js'
+
+const reportRateLimit = 120
+const reportRateWindowSec = 60
 
 export async function apnsToken(req: express.Request, res: express.Response) {
     const body: { [p: string]: string } = req.body
     if (!body?.token || !body?.clientId || !body?.lastSecret) {
-        console.log(`Missing key in posted apnsToken body: ${JSON.stringify(body)}`)
+        logger.warn('Missing key in posted apnsToken body', { keys: Object.keys(body || {}) })
         res.status(400).send({ status: 'error', reason: 'Invalid post data' })
         return
     }
     const { token, clientId, lastSecret } = body
     const tokenHex = Buffer.from(token, 'base64').toString('hex')
     const secretHex = Buffer.from(lastSecret, 'base64').toString('hex')
-    const appInfo = body?.appInfo ? ` (${body.appInfo})` : ''
     const received: ClientData = {
         id: clientId,
         token: tokenHex,
@@ -35,21 +41,32 @@ export async function apnsToken(req: express.Request, res: express.Response) {
     // we need to ignore duplicate, almost-simultaneous posts from the same client
     // see issue #2 for details of the problem
     if (await isApnsPostRepeat(received)) {
-        console.warn(`Ignoring duplicate APNs post from ${clientId}${appInfo}`)
+        logger.warn('Ignoring duplicate APNs post', { clientId, appInfo: received.appInfo })
         res.status(204).send()
         return
     }
     if (received.userName && received.profileId) {
-        console.log(`Received profile ${received.profileId} (${received.userName}) at launch from client ${clientId}`)
+        logger.info('Received profile at launch', {
+            clientId,
+            profileId: received.profileId,
+            userName: received.userName,
+        })
         await updateLaunchData(received.id, received.profileId, received.userName)
     }
     const { clientChanged, changeReason } = await hasClientChanged(clientId, received)
     await setClientData(received)
     if (clientChanged) {
-        console.log(`Received ${changeReason} client ${clientId}${appInfo}`)
+        logger.info('Received changed client', {
+            clientId,
+            changeReason,
+            appInfo: received.appInfo,
+        })
         res.status(201).send()
     } else {
-        console.log(`Received APNS token from unchanged client ${clientId}${appInfo}`)
+        logger.info('Received APNS token from unchanged client', {
+            clientId,
+            appInfo: received.appInfo,
+        })
         res.status(204).send()
     }
     await sendSecretToClient(clientId, clientChanged)
@@ -58,12 +75,12 @@ export async function apnsToken(req: express.Request, res: express.Response) {
 export async function apnsReceivedNotification(req: express.Request, res: express.Response) {
     const body: { [p: string]: string } = req.body
     if (!body?.clientId || !body?.lastSecret) {
-        console.log(`Missing key in received notification post: ${JSON.stringify(body)}`)
+        logger.warn('Missing key in received notification post', { keys: Object.keys(body || {}) })
         res.status(400).send({ status: 'error', reason: 'Invalid post data' })
         return
     }
     const { clientId, lastSecret } = body
-    console.log(`Received confirmation of received notification from client ${clientId}`)
+    logger.info('Received confirmation of received notification', { clientId })
     const secretHex = Buffer.from(lastSecret, 'base64').toString('hex')
     // see refreshSecret for details of this logic
     const received: ClientData = { id: clientId, secretDate: Date.now(), lastSecret: secretHex }
@@ -72,6 +89,7 @@ export async function apnsReceivedNotification(req: express.Request, res: expres
 }
 
 export async function logPresenceChunk(req: express.Request, res: express.Response) {
+    if (!(await validateReporter(req, res, 'logPresenceChunk'))) return
     const doLogging = await getPresenceLogging()
     if (!doLogging) {
         res.status(201).send()
@@ -80,21 +98,63 @@ export async function logPresenceChunk(req: express.Request, res: express.Respon
     const { clientId, kind, sentOrReceived, chunk } = req.body
     const clientInfo = parsePresenceChunk(chunk)
     if (clientInfo) {
-        console.log(`Client ${clientId} ${sentOrReceived} ${kind} chunk: ${JSON.stringify(clientInfo)}`)
+        const { username, ...info } = clientInfo
+        // the presence info has its own client, which is the other end of the chunk
+        logger.info('Client presence chunk', {
+            sentOrReceived,
+            kind,
+            ...info,
+            clientId,
+            presenceClientId: info.clientId,
+            userName: username,
+        })
     } else {
-        console.error(`Received unknown log chunk: ${JSON.stringify(req.body)}`)
+        logger.error('Received unknown log chunk', { clientId, kind, sentOrReceived })
     }
     res.status(204).send()
 }
 
 export async function logAnomaly(req: express.Request, res: express.Response) {
-    const { clientId, kind, message } = req.body
-    console.log(`Client ${clientId} reports ${kind} anomaly: ${message}`)
+    if (!(await validateReporter(req, res, 'logAnomaly'))) return
+    const { clientId, kind, message, conversationId } = req.body
+    logger.warn('Client reports anomaly', { clientId, conversationId, kind, anomaly: message })
+    await saveReport('anomalies', { clientId, conversationId, event: kind, message })
     res.status(204).send()
 }
 
 export async function logChannelEvent(req: express.Request, res: express.Response) {
+    if (!(await validateReporter(req, res, 'logChannelEvent'))) return
     const info = req.body as unknown as ChannelEvent
-    console.log(JSON.stringify(info))
+    logger.info('Client channel event', { ...info })
+    await saveReport('channel-events', { ...info })
     res.status(204).send()
-}
\ No newline at end of file
+}
+
+// app clients authenticate reports with their JWT, and web listeners with their session
+async function validateReporter(req: express.Request, res: express.Response, endpoint: string) {
+    const clientId = req.body?.clientId
+    if (typeof clientId !== 'string' || !clientId) {
+        logger.warn('Report has no client', { endpoint })
+        rejectedReports.inc({ endpoint, reason: 'missing-client' })
+        res.status(400).send({ status: 'error', reason: 'Invalid post data' })
+        return false
+    }
+    if (req.header('Authorization')) {
+        if (!(await validateClientAuth(req, res, clientId))) {
+            rejectedReports.inc({ endpoint, reason: 'unauthenticated' })
+            return false
+        }
+    } else if (req.session?.clientId !== clientId) {
+        logger.warn('Report from client without credentials', { clientId, endpoint })
+        rejectedReports.inc({ endpoint, reason: 'unauthenticated' })
+        res.status(403).send({ status: 'error', reason: 'Missing authorization' })
+        return false
+    }
+    if (await isRateLimited(endpoint, clientId, reportRateLimit, reportRateWindowSec)) {
+        logger.warn('Reports from client are rate limited', { clientId, endpoint })
+        rejectedReports.inc({ endpoint, reason: 'rate-limited' })
+        res.status(429).send({ status: 'error', reason: 'Too many reports' })
+        return false
+    }
+    return true
+}
@@ -9,25 +9,65 @@ import { v2router } from './v2/router.js'
 import { subscribeToPublisher } from './v1/routes.js'
 import { listenToConversation } from './v2/routes.js'
 import { asyncWrapper, cookieMiddleware, sessionMiddleware } from './middleware.js'
+import { logger, requestIdMiddleware } from './logger.js'
+import { metricsRoute } from './metrics.js'
+import { beginShutdown, healthz, readyz } from './health.js'
+import { adminRouter } from './admin.js'
+import { adminDashboard } from './dashboard.js'
+import { runMigrations } from './v2/chores.js'
 import {
     SERVER_ID,
+    getConversationHistory,
+    getTranscriptExport,
     getTranscriptPage,
+    heartbeatTranscriptions,
     postTranscript,
     resumeTranscriptions,
+    streamTranscript,
     suspendTranscriptions,
 } from './v2/transcribe.js'
+import { getTransport } from './transport.js'
+import { loadSettings } from './settings.js'
 import { Server } from 'node:http'
 import { randomInt } from 'node:crypto'
 
+loadSettings()
+
 const PORT = process.env.PORT || randomInt(5001, 5999)
+const shutdownDrainMs = 5000
 
 const release = express()
+    .use(requestIdMiddleware)
     .use(express.json())
     .use(express.static('public'))
+    .get('/healthz', asyncWrapper(healthz))
+    .get('/readyz', asyncWrapper(readyz))
+    .get('/metrics', asyncWrapper(metricsRoute))
+    .use('/admin/api', adminRouter)
+    .get('/admin/dashboard', asyncWrapper(adminDashboard))
     .use('/api/v2', v2router)
     .use('/api/v1', v1router)
     .use('/api', v1router)
-    .get('/transcript/:conversationId/:transcriptId', asyncWrapper(getTranscriptPage))
+    .get(
+        '/transcript/:conversationId/:transcriptId.:format',
+        [cookieMiddleware, sessionMiddleware],
+        asyncWrapper(getTranscriptExport),
+    )
+    .get(
+        '/transcript/:conversationId/:transcriptId',
+        [cookieMiddleware, sessionMiddleware],
+        asyncWrapper(getTranscriptPage),
+    )
+    .get(
+        '/transcript/:conversationId/:transcriptId/events',
+        [cookieMiddleware, sessionMiddleware],
+        asyncWrapper(streamTranscript),
+    )
+    .get(
+        '/conversation/:conversationId/history',
+        [cookieMiddleware, sessionMiddleware],
+        asyncWrapper(getConversationHistory),
+    )
     .get(
         '/subscribe/:publisherId',
         [cookieMiddleware, sessionMiddleware],
@@ -47,11 +87,17 @@ const release = express()
 const debug = release.post('/test/transcript', asyncWrapper(postTranscript))
 
 function main() {
-    console.log(`Starting server ${SERVER_ID}...`)
+    logger.info('Starting server', { serverId: SERVER_ID })
     // first thing we do is to start picking up suspended transcriptions
     resumeTranscriptions().then(() =>
-        console.log(`Server ${SERVER_ID} has stopped resuming transcriptions`),
+        logger.info('Server has stopped resuming transcriptions', { serverId: SERVER_ID }),
     )
+    // and adopting the transcriptions of servers that have crashed
+    heartbeatTranscriptions().then(() =>
+        logger.info('Server has stopped adopting transcriptions', { serverId: SERVER_ID }),
+    )
+    // and bringing the stored data up to date
+    migrateOnStartup()
     // then we run the appropriate webserver, cleaning up on signals and crashes
     let server: Server | undefined
     process.once('SIGTERM', () => shutdown('SIGTERM', server))
@@ -59,37 +105,58 @@ function main() {
     try {
         if (process.env.NODE_ENV === 'production') {
             server = release.listen(PORT, () =>
-                console.log(`Server ${SERVER_ID} listening (RELEASE) on port ${PORT}`),
+                logger.info('Server listening', {
+                    serverId: SERVER_ID,
+                    mode: 'RELEASE',
+                    port: PORT,
+                }),
             )
         } else {
             server = debug.listen(PORT, () =>
-                console.log(`Server ${SERVER_ID} listening (DEBUG) on port ${PORT}`),
+                logger.info('Server listening', { serverId: SERVER_ID, mode: 'DEBUG', port: PORT }),
             )
         }
+        getTransport().attachServer?.(server)
     } catch (err) {
         shutdown(`error: ${err}`, server)
     }
 }
 
+// if another server is already migrating, we leave it to them
+async function migrateOnStartup() {
+    try {
+        const result = await runMigrations({ actor: `server:${SERVER_ID}` })
+        if (result) {
+            logger.info('Schema is up to date', { serverId: SERVER_ID, version: result.to })
+        }
+    } catch (err) {
+        logger.error('Schema migration failed', { serverId: SERVER_ID, error: err })
+    }
+}
+
 function shutdown(signal: string, server: Server | undefined) {
     let exitStatus = 0
-    console.warn(`Shutting down Server ${SERVER_ID} due to ${signal}...`)
+    beginShutdown()
+    logger.warn('Shutting down server', { serverId: SERVER_ID, signal })
     const suspend = suspendTranscriptions()
     const notifyAndExit = () => {
-        console.log(`Terminating Server ${SERVER_ID} after shutdown`)
+        logger.info('Terminating server after shutdown', { serverId: SERVER_ID })
         // give the transcriber a half-second to put back any last transcript it picked up
         setTimeout(() => process.exit(exitStatus), 500)
     }
     if (server) {
-        server.close((err) => {
-            if (err) {
-                console.error(`Server ${SERVER_ID}: webserver was already stopped.`)
-                exitStatus = 1
-            } else {
-                console.log(`Server ${SERVER_ID}: webserver stopped cleanly.`)
-            }
-            suspend.then(notifyAndExit)
-        })
+        // keep serving while load balancers notice we're no longer ready
+        setTimeout(() => {
+            server.close((err) => {
+                if (err) {
+                    logger.error('Webserver was already stopped', { serverId: SERVER_ID })
+                    exitStatus = 1
+                } else {
+                    logger.info('Webserver stopped cleanly', { serverId: SERVER_ID })
+                }
+                suspend.then(notifyAndExit)
+            })
+        }, shutdownDrainMs)
     } else {
         suspend.then(notifyAndExit)
     }
@@ -0,0 +1,289 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Storage design note:
+
+Everything the server keeps goes through a storage backend chosen by the
+server's settings, including the channels of our own realtime transport.
+Redis is used in production, where many servers share the data, and an
+in-process memory store is used for local development and tests, where there
+is only one server and nothing needs to survive a restart.
+
+The backend's interface is in terms of our objects (clients, profiles,
+conversations and transcripts) and the few other things we keep, such as the
+transcription queues, session markers, logs, indexes and schema version.  How
+those are laid out is entirely up to the backend, so nothing outside of it
+knows about keys, hashes or lists, and the logic about what to store when
+stays in the modules that own the objects.  Saving an object merges the given fields into any that
+are already stored, as a Redis hash does, and getting an object that doesn't
+exist (or has expired) gives undefined.  Times are in epoch milliseconds, except
+for expiration times, which are in epoch seconds.
+ */
+
+import { getSettings } from './settings.js'
+import { ApnsRequestData } from './apns.js'
+import { ClientData } from './client.js'
+import { ConversationInfo, ProfileData } from './profile.js'
+import { IndexName } from './indexes.js'
+import { TranscriptData } from './v2/transcribe.js'
+import { createMemoryStorage } from './storage/memory.js'
+import { createRedisStorage } from './storage/redis.js'
+
+// a scan can return an object more than once, so callers must handle its batches
+// idempotently; the progress is the number of objects returned so far
+export interface ScanOptions {
+    count?: number
+    onProgress?: (scanned: number) => void
+}
+
+export interface ClientStore {
+    get(id: string): Promise<ClientData | undefined>
+    getMany(ids: string[]): Promise<(ClientData | undefined)[]>
+    save(clientData: ClientData): Promise<void>
+    // returns the number of clients that existed
+    delete(ids: string[]): Promise<number>
+    scan(options?: ScanOptions): AsyncGenerator<ClientData[]>
+    // true if the client posted the same token within the window
+    isRepeatPost(id: string, token: string, windowMs: number): Promise<boolean>
+    getApnsRequest(pushId: string): Promise<ApnsRequestData | undefined>
+    saveApnsRequest(data: ApnsRequestData): Promise<void>
+    scanApnsRequests(options?: ScanOptions): AsyncGenerator<ApnsRequestData[]>
+}
+
+export interface ProfileStore {
+    get(id: string): Promise<ProfileData | undefined>
+    save(profileData: ProfileData): Promise<void>
+    // deletes the profiles and their client sets, returning the number of profiles that existed
+    delete(ids: string[]): Promise<number>
+    scan(options?: ScanOptions): AsyncGenerator<ProfileData[]>
+    getClients(id: string): Promise<string[]>
+    // the client sets of many profiles at once
+    getManyClients(ids: string[]): Promise<string[][]>
+    addClient(id: string, clientId: string): Promise<void>
+    removeClient(id: string, clientId: string): Promise<void>
+    getConversations(id: string): Promise<string[]>
+    addConversation(id: string, conversationId: string): Promise<void>
+    removeConversation(id: string, conversationId: string): Promise<void>
+}
+
+export interface ConversationStore {
+    get(id: string): Promise<ConversationInfo | undefined>
+    save(info: ConversationInfo): Promise<void>
+    scan(options?: ScanOptions): AsyncGenerator<ConversationInfo[]>
+}
+
+// the state of a live transcript, which is kept alongside it but not in it
+export interface TranscriptProgress {
+    lastChunkId?: string
+    lastChunkTime?: number
+    lastActivityTime?: number
+    listenerCount: number
+}
+
+export interface SavedChunk {
+    id: string
+    time: number
+}
+
+export interface TranscriptStore {
+    get(id: string): Promise<TranscriptData | undefined>
+    getMany(ids: string[]): Promise<(TranscriptData | undefined)[]>
+    // the content and participants of the transcript expire along with it; the
+    // transcription, lines and annotations are replaced by the saved ones, even if empty
+    save(tr: TranscriptData, expiresAt: number | undefined): Promise<void>
+    // deletes the transcript, its content and participants, and removes it from its conversation
+    delete(tr: TranscriptData): Promise<void>
+    scan(options?: ScanOptions): AsyncGenerator<TranscriptData[]>
+    newContentKey(): string
+    // content lists are newest first, and the entries for a chunk are added in order to
+    // the front; the chunk is recorded as the last one saved, and as Whisperer activity
+    appendContent(tr: TranscriptData, entries: string[], chunk: SavedChunk): Promise<void>
+    getContent(contentKey: string): Promise<string[]>
+    // the entries added since the content had the given number of entries, newest first
+    getContentAfter(contentKey: string, count: number): Promise<string[]>
+    hasContent(contentKey: string): Promise<boolean>
+    deleteContent(contentKey: string): Promise<void>
+    getProgress(id: string): Promise<TranscriptProgress>
+    recordActivity(id: string, time: number): Promise<void>
+    incrementListenerCount(id: string): Promise<void>
+    // returns whether the participant is new
+    addParticipant(id: string, participantId: string, expiresAt?: number): Promise<boolean>
+    isParticipant(id: string, participantId: string): Promise<boolean>
+    // the completed transcripts of a conversation, newest first
+    getConversationTranscripts(conversationId: string): Promise<string[]>
+    setConversationTranscripts(conversationId: string, ids: string[]): Promise<void>
+    addConversationTranscript(conversationId: string, id: string): Promise<void>
+}
+
+export interface SessionStore {
+    // the secrets used to sign sessions, newest first
+    getSessionKeys(): Promise<string[]>
+    addSessionKey(secret: string): Promise<void>
+    getPresenceLogging(): Promise<boolean>
+    setPresenceLogging(doLogging: boolean): Promise<void>
+    // the count in a fixed window, which is forgotten when the window is over
+    incrementCounter(name: string, windowSec: number): Promise<number>
+    // markers remember the state of a session; setting one returns its prior value
+    getMarker(name: string): Promise<string | undefined>
+    setMarker(name: string, value: string, ttlSec?: number): Promise<string | undefined>
+    deleteMarker(name: string): Promise<void>
+}
+
+export interface QueueStore {
+    // the servers available to resume suspended transcripts
+    addServer(serverId: string): Promise<void>
+    removeServer(serverId: string): Promise<void>
+    getServers(): Promise<string[]>
+    // waits for an available server, which is rotated to the back of the queue
+    waitForServer(timeoutSec: number): Promise<string | undefined>
+    suspendTranscript(id: string): Promise<void>
+    getSuspendedTranscripts(): Promise<string[]>
+    // waits for the oldest suspended transcript; interrupting the wait gives undefined
+    waitForSuspendedTranscript(timeoutSec: number): Promise<string | undefined>
+    interruptWait(): Promise<void>
+    // false until this server has waited for a suspended transcript
+    isWaiting(): boolean
+    // the servers that own the transcripts they are transcribing, keyed by transcript
+    getOwners(): Promise<{ [transcriptId: string]: string }>
+    getOwner(transcriptId: string): Promise<string | undefined>
+    setOwner(transcriptId: string, serverId: string): Promise<void>
+    removeOwner(transcriptId: string): Promise<void>
+    // a lease gives the time it was last renewed, and lapses if not renewed in time
+    renewLease(serverId: string, ttlSec: number): Promise<void>
+    getLease(serverId: string): Promise<number | undefined>
+    removeLease(serverId: string): Promise<void>
+    // only the first server to claim a transcript gets it, until the claim lapses
+    claim(transcriptId: string, serverId: string, ttlSec: number): Promise<boolean>
+}
+
+export interface LogEntry {
+    id: string
+    time: number
+    fields: { [field: string]: string }
+}
+
+// a log is trimmed to entries after minTime, or to about maxLength entries
+export interface LogTrim {
+    minTime?: number
+    maxLength?: number
+}
+
+// times are inclusive; before is the id of an entry already read
+export interface LogRange {
+    since?: number
+    until?: number
+    before?: string
+    count: number
+}
+
+export interface LogStore {
+    append(log: string, fields: { [field: string]: string }, trim: LogTrim): Promise<void>
+    // newest first
+    read(log: string, range: LogRange): Promise<LogEntry[]>
+}
+
+export interface IndexStore {
+    // with onlyIfMissing, existing entries keep their time
+    add(
+        name: IndexName,
+        entries: { id: string; time: number }[],
+        onlyIfMissing?: boolean,
+    ): Promise<void>
+    remove(name: IndexName, ids: string[]): Promise<void>
+    // the IDs with times in the given range (inclusive), oldest first
+    find(name: IndexName, from: number, to: number): Promise<string[]>
+    // the IDs with the latest times, newest first
+    findNewest(name: IndexName, count: number): Promise<string[]>
+}
+
+export interface SearchStore {
+    // the words' entries must live at least as long as the transcript, which expires at
+    // the given time in seconds since the epoch, or never if there is none
+    add(
+        conversationId: string,
+        words: string[],
+        transcriptId: string,
+        expiresAt: number | undefined,
+    ): Promise<void>
+    // the words' entries expire at exactly the given time, or never if there is none
+    expireAt(conversationId: string, words: string[], expiresAt: number | undefined): Promise<void>
+    remove(conversationId: string, words: string[], transcriptId: string): Promise<void>
+    // the transcripts that use all of the words
+    find(conversationId: string, words: string[]): Promise<string[]>
+}
+
+// the channels of the websocket transport, which carry its messages between the
+// servers that its clients are connected to; to storage, the messages are just strings
+export interface ChannelStore {
+    // the message is also kept in the channel's recent history, which is capped and expires
+    publish(channel: string, message: string, history: ChannelHistoryLimits): Promise<void>
+    // oldest first
+    getHistory(channel: string): Promise<string[]>
+    // the listener gets the messages published on the channel by every server;
+    // a server only listens once to each channel
+    listen(channel: string, listener: (message: string) => void): Promise<void>
+    unlisten(channel: string): Promise<void>
+    // a channel's presence expires unless it is set again
+    setPresence(channel: string, clientId: string, status: string, ttlSec: number): Promise<void>
+    removePresence(channel: string, clientId: string): Promise<void>
+    getPresentClients(channel: string): Promise<string[]>
+}
+
+export interface ChannelHistoryLimits {
+    maxCount: number
+    ttlSec: number
+}
+
+// the version of the stored data's schema, and the lock on migrating it (see migrations.ts)
+export interface SchemaStore {
+    getVersion(): Promise<number>
+    setVersion(version: number): Promise<void>
+    // these return whether the lock is held by the given ID; it expires unless renewed
+    lock(lockId: string, ttlSec: number): Promise<boolean>
+    renewLock(lockId: string, ttlSec: number): Promise<boolean>
+    unlock(lockId: string): Promise<void>
+    // returns the number of objects changed (or that would have been);
+    // renewLock must be called after each batch, and throws if the lock was lost
+    migrate(
+        version: number,
+        dryRun: boolean,
+        options: ScanOptions,
+        renewLock: () => Promise<void>,
+    ): Promise<number>
+}
+
+export interface Storage {
+    name: string
+    clients: ClientStore
+    profiles: ProfileStore
+    conversations: ConversationStore
+    transcripts: TranscriptStore
+    sessions: SessionStore
+    queues: QueueStore
+    logs: LogStore
+    indexes: IndexStore
+    search: SearchStore
+    channels: ChannelStore
+    schema: SchemaStore
+    // throws if the backend can't be reached
+    ping(): Promise<void>
+}
+
+let loadedStorage: Storage | undefined
+
+export function getStorage() {
+    if (loadedStorage) {
+        return loadedStorage
+    }
+    const config = getSettings()
+    if (config.storage === 'redis') {
+        loadedStorage = createRedisStorage()
+    } else if (config.storage === 'memory') {
+        loadedStorage = createMemoryStorage()
+    } else {
+        throw Error(`Unknown storage: ${config.storage}`)
+    }
+    return loadedStorage
+}
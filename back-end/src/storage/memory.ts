@@ -0,0 +1,670 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Memory storage design note:
+
+The memory storage keeps everything in maps in the server process, so it is
+only good for a single server whose data doesn't need to outlive it, as in
+local development and tests.  It behaves as the Redis storage does wherever
+callers can tell the difference: saved objects are merged into existing ones,
+things expire when Redis would expire them, and waits on the transcription
+queues block until something arrives, they time out, or they are interrupted.
+
+Objects are copied on the way in and out, so callers can't change stored data
+by changing objects they have saved or read, just as they can't with Redis.
+Expired entries are dropped lazily, when they are next looked at.
+ */
+
+import { randomUUID } from 'crypto'
+
+import { ApnsRequestData } from '../apns.js'
+import { ClientData } from '../client.js'
+import { ConversationInfo, ProfileData } from '../profile.js'
+import { IndexName } from '../indexes.js'
+import { latestSchemaVersion } from '../migrations.js'
+import { TranscriptData } from '../v2/transcribe.js'
+import {
+    ChannelStore,
+    ClientStore,
+    ConversationStore,
+    IndexStore,
+    LogEntry,
+    LogStore,
+    ProfileStore,
+    QueueStore,
+    ScanOptions,
+    SchemaStore,
+    SearchStore,
+    SessionStore,
+    Storage,
+    TranscriptProgress,
+    TranscriptStore,
+} from '../storage.js'
+
+const defaultScanCount = 1000
+
+interface ExpiringMap<V> {
+    get(key: string): V | undefined
+    has(key: string): boolean
+    // like a Redis write, this keeps any expiration the key already has
+    set(key: string, value: V): void
+    delete(key: string): boolean
+    // an undefined time (epoch milliseconds) means never; missing keys are ignored
+    expireAt(key: string, time: number | undefined): void
+    expiresAt(key: string): number | undefined
+    keys(): string[]
+}
+
+function createExpiringMap<V>(): ExpiringMap<V> {
+    const values: Map<string, V> = new Map()
+    const expirations: Map<string, number> = new Map()
+    const isLive = (key: string) => {
+        const time = expirations.get(key)
+        if (time !== undefined && time <= Date.now()) {
+            values.delete(key)
+            expirations.delete(key)
+        }
+        return values.has(key)
+    }
+    return {
+        get: (key) => (isLive(key) ? values.get(key) : undefined),
+        has: (key) => isLive(key),
+        set(key, value) {
+            values.set(key, value)
+        },
+        delete(key) {
+            expirations.delete(key)
+            return values.delete(key)
+        },
+        expireAt(key, time) {
+            if (!isLive(key)) {
+                return
+            }
+            if (time === undefined) {
+                expirations.delete(key)
+            } else {
+                expirations.set(key, time)
+            }
+        },
+        expiresAt: (key) => (isLive(key) ? expirations.get(key) : undefined),
+        keys: () => [...values.keys()].filter(isLive),
+    }
+}
+
+// copy the defined fields of the update into a copy of the existing object
+function merged<T extends object>(existing: T | undefined, update: T) {
+    const result = { ...(existing ? structuredClone(existing) : {}) }
+    for (const [field, value] of Object.entries(update)) {
+        if (value !== undefined) {
+            result[field] = structuredClone(value)
+        }
+    }
+    return result as T
+}
+
+function copied<T>(value: T | undefined) {
+    return value === undefined ? undefined : structuredClone(value)
+}
+
+// iterate over a snapshot of the objects in batches, as a Redis scan would
+async function* scanValues<T>(values: T[], options: ScanOptions = {}) {
+    const count = options.count || defaultScanCount
+    for (let i = 0; i < values.length; i += count) {
+        const batch = values.slice(i, i + count)
+        options.onProgress?.(i + batch.length)
+        yield batch.map((value) => structuredClone(value))
+    }
+    if (values.length === 0) {
+        options.onProgress?.(0)
+    }
+}
+
+type Waiter = (value: string | undefined) => void
+
+// wait for a value to be handed to the waiter; a timeout of 0 waits forever
+function waitFor(waiters: Waiter[], timeoutSec: number) {
+    return new Promise<string | undefined>((resolve) => {
+        let timer: NodeJS.Timeout | undefined = undefined
+        const waiter: Waiter = (value) => {
+            clearTimeout(timer)
+            resolve(value)
+        }
+        if (timeoutSec > 0) {
+            timer = setTimeout(() => {
+                waiters.splice(waiters.indexOf(waiter), 1)
+                resolve(undefined)
+            }, timeoutSec * 1000)
+        }
+        waiters.push(waiter)
+    })
+}
+
+function createClientStore(): ClientStore {
+    const clients: Map<string, ClientData> = new Map()
+    const apnsRequests: Map<string, ApnsRequestData> = new Map()
+    const posts: ExpiringMap<number> = createExpiringMap()
+    return {
+        get: async (id) => copied(clients.get(id)),
+        getMany: async (ids) => ids.map((id) => copied(clients.get(id))),
+        async save(clientData) {
+            clients.set(clientData.id, merged(clients.get(clientData.id), clientData))
+        },
+        async delete(ids) {
+            return ids.filter((id) => clients.delete(id)).length
+        },
+        scan: (options) => scanValues([...clients.values()], options),
+        async isRepeatPost(id, token, windowMs) {
+            const key = `${id}|${token}`
+            if (posts.has(key)) {
+                return true
+            }
+            posts.set(key, Date.now())
+            posts.expireAt(key, Date.now() + windowMs)
+            return false
+        },
+        getApnsRequest: async (pushId) => copied(apnsRequests.get(pushId)),
+        async saveApnsRequest(data) {
+            apnsRequests.set(data.id, merged(apnsRequests.get(data.id), data))
+        },
+        scanApnsRequests: (options) => scanValues([...apnsRequests.values()], options),
+    }
+}
+
+function createProfileStore(): ProfileStore {
+    const profiles: Map<string, ProfileData> = new Map()
+    const profileClients: Map<string, Set<string>> = new Map()
+    const profileConversations: Map<string, Set<string>> = new Map()
+    // profiles read from Redis have these defaults
+    const withDefaults = (profile: ProfileData) => ({ lastUsed: 0, settingsVersion: 1, ...profile })
+    const members = (sets: Map<string, Set<string>>, id: string) => [...(sets.get(id) || [])]
+    const add = (sets: Map<string, Set<string>>, id: string, member: string) => {
+        const set = sets.get(id)
+        if (set) {
+            set.add(member)
+        } else {
+            sets.set(id, new Set([member]))
+        }
+    }
+    return {
+        async get(id) {
+            const profile = profiles.get(id)
+            return profile ? withDefaults(structuredClone(profile)) : undefined
+        },
+        async save(profileData) {
+            profiles.set(profileData.id, merged(profiles.get(profileData.id), profileData))
+        },
+        async delete(ids) {
+            ids.forEach((id) => profileClients.delete(id))
+            ids.forEach((id) => profileConversations.delete(id))
+            return ids.filter((id) => profiles.delete(id)).length
+        },
+        scan: (options) => scanValues([...profiles.values()].map(withDefaults), options),
+        getClients: async (id) => members(profileClients, id),
+        getManyClients: async (ids) => ids.map((id) => members(profileClients, id)),
+        addClient: async (id, clientId) => add(profileClients, id, clientId),
+        async removeClient(id, clientId) {
+            profileClients.get(id)?.delete(clientId)
+        },
+        getConversations: async (id) => members(profileConversations, id),
+        addConversation: async (id, conversationId) =>
+            add(profileConversations, id, conversationId),
+        async removeConversation(id, conversationId) {
+            profileConversations.get(id)?.delete(conversationId)
+        },
+    }
+}
+
+function createConversationStore(): ConversationStore {
+    const conversations: Map<string, ConversationInfo> = new Map()
+    return {
+        get: async (id) => copied(conversations.get(id)),
+        async save(info) {
+            conversations.set(info.id, merged(conversations.get(info.id), info))
+        },
+        scan: (options) => scanValues([...conversations.values()], options),
+    }
+}
+
+interface StoredTranscript {
+    tr: TranscriptData
+    progress: TranscriptProgress
+}
+
+function createTranscriptStore(): TranscriptStore {
+    const transcripts: ExpiringMap<StoredTranscript> = createExpiringMap()
+    const contents: ExpiringMap<string[]> = createExpiringMap()
+    const participants: ExpiringMap<Set<string>> = createExpiringMap()
+    const conversationTranscripts: Map<string, string[]> = new Map()
+    const get = (id: string) => copied(transcripts.get(id)?.tr)
+    return {
+        get: async (id) => get(id),
+        getMany: async (ids) => ids.map(get),
+        async save(tr, expiresAt) {
+            const existing = transcripts.get(tr.id)
+            const progress = existing?.progress || { listenerCount: 0 }
+            const saved = merged(existing?.tr, tr)
+            // the result of transcription is replaced, even if empty
+            if (!tr.transcription) {
+                delete saved.transcription
+            }
+            if (!tr.lines?.length) {
+                delete saved.lines
+            }
+            if (!tr.annotations?.length) {
+                delete saved.annotations
+            }
+            transcripts.set(tr.id, { tr: saved, progress })
+            const expiresAtMs = expiresAt ? expiresAt * 1000 : undefined
+            transcripts.expireAt(tr.id, expiresAtMs)
+            contents.expireAt(tr.contentKey, expiresAtMs)
+            participants.expireAt(tr.id, expiresAtMs)
+        },
+        async delete(tr) {
+            transcripts.delete(tr.id)
+            contents.delete(tr.contentKey)
+            participants.delete(tr.id)
+            const ids = conversationTranscripts.get(tr.conversationId) || []
+            conversationTranscripts.set(
+                tr.conversationId,
+                ids.filter((id) => id !== tr.id),
+            )
+        },
+        scan: (options) =>
+            scanValues(
+                transcripts.keys().map((id) => get(id)!),
+                options,
+            ),
+        newContentKey: () => 'tcp:' + randomUUID(),
+        async appendContent(tr, entries, chunk) {
+            const content = contents.get(tr.contentKey)
+            if (content) {
+                content.unshift(...[...entries].reverse())
+            } else {
+                contents.set(tr.contentKey, [...entries].reverse())
+            }
+            const stored = transcripts.get(tr.id)
+            if (stored) {
+                stored.progress.lastChunkId = chunk.id
+                stored.progress.lastChunkTime = chunk.time
+                stored.progress.lastActivityTime = chunk.time
+            }
+        },
+        getContent: async (contentKey) => [...(contents.get(contentKey) || [])],
+        async getContentAfter(contentKey, count) {
+            const content = contents.get(contentKey) || []
+            return content.slice(0, Math.max(0, content.length - count))
+        },
+        hasContent: async (contentKey) => contents.has(contentKey),
+        async deleteContent(contentKey) {
+            contents.delete(contentKey)
+        },
+        getProgress: async (id) => copied(transcripts.get(id)?.progress) || { listenerCount: 0 },
+        async recordActivity(id, time) {
+            const stored = transcripts.get(id)
+            if (stored) {
+                stored.progress.lastActivityTime = time
+            }
+        },
+        async incrementListenerCount(id) {
+            const stored = transcripts.get(id)
+            if (stored) {
+                stored.progress.listenerCount += 1
+            }
+        },
+        async addParticipant(id, participantId, expiresAt) {
+            const present = participants.get(id)
+            if (!present) {
+                participants.set(id, new Set([participantId]))
+            } else if (present.has(participantId)) {
+                return false
+            } else {
+                present.add(participantId)
+            }
+            if (expiresAt) {
+                participants.expireAt(id, expiresAt * 1000)
+            }
+            return true
+        },
+        isParticipant: async (id, participantId) => !!participants.get(id)?.has(participantId),
+        getConversationTranscripts: async (id) => [...(conversationTranscripts.get(id) || [])],
+        async setConversationTranscripts(conversationId, ids) {
+            conversationTranscripts.set(conversationId, [...ids])
+        },
+        async addConversationTranscript(conversationId, id) {
+            const ids = conversationTranscripts.get(conversationId) || []
+            conversationTranscripts.set(conversationId, [id, ...ids])
+        },
+    }
+}
+
+function createSessionStore(): SessionStore {
+    const sessionKeys: string[] = []
+    let presenceLogging = false
+    const counters: ExpiringMap<number> = createExpiringMap()
+    const markers: ExpiringMap<string> = createExpiringMap()
+    return {
+        getSessionKeys: async () => [...sessionKeys],
+        async addSessionKey(secret) {
+            sessionKeys.unshift(secret)
+        },
+        getPresenceLogging: async () => presenceLogging,
+        async setPresenceLogging(doLogging) {
+            presenceLogging = doLogging
+        },
+        async incrementCounter(name, windowSec) {
+            const count = (counters.get(name) || 0) + 1
+            counters.set(name, count)
+            counters.expireAt(name, Date.now() + windowSec * 1000)
+            return count
+        },
+        getMarker: async (name) => markers.get(name),
+        async setMarker(name, value, ttlSec) {
+            const prior = markers.get(name)
+            markers.set(name, value)
+            markers.expireAt(name, ttlSec ? Date.now() + ttlSec * 1000 : undefined)
+            return prior
+        },
+        async deleteMarker(name) {
+            markers.delete(name)
+        },
+    }
+}
+
+// queues are kept as Redis lists would be, with new entries at the front
+function createQueueStore(): QueueStore {
+    const servers: string[] = []
+    const serverWaiters: Waiter[] = []
+    const suspended: string[] = []
+    const suspendedWaiters: Waiter[] = []
+    const owners: Map<string, string> = new Map()
+    const leases: ExpiringMap<number> = createExpiringMap()
+    const claims: ExpiringMap<string> = createExpiringMap()
+    let isWaiting = false
+    const rotateServers = () => {
+        const serverId = servers.pop()!
+        servers.unshift(serverId)
+        return serverId
+    }
+    return {
+        async addServer(serverId) {
+            servers.unshift(serverId)
+            serverWaiters.shift()?.(rotateServers())
+        },
+        async removeServer(serverId) {
+            const remaining = servers.filter((id) => id !== serverId)
+            servers.splice(0, servers.length, ...remaining)
+        },
+        getServers: async () => [...servers],
+        async waitForServer(timeoutSec) {
+            if (servers.length > 0) {
+                return rotateServers()
+            }
+            return await waitFor(serverWaiters, timeoutSec)
+        },
+        async suspendTranscript(id) {
+            const waiter = suspendedWaiters.shift()
+            if (waiter) {
+                waiter(id)
+            } else {
+                suspended.unshift(id)
+            }
+        },
+        getSuspendedTranscripts: async () => [...suspended],
+        async waitForSuspendedTranscript(timeoutSec) {
+            isWaiting = true
+            if (suspended.length > 0) {
+                return suspended.pop()
+            }
+            return await waitFor(suspendedWaiters, timeoutSec)
+        },
+        async interruptWait() {
+            suspendedWaiters.splice(0).forEach((waiter) => waiter(undefined))
+        },
+        isWaiting: () => isWaiting,
+        getOwners: async () => Object.fromEntries(owners),
+        getOwner: async (transcriptId) => owners.get(transcriptId),
+        async setOwner(transcriptId, serverId) {
+            owners.set(transcriptId, serverId)
+        },
+        async removeOwner(transcriptId) {
+            owners.delete(transcriptId)
+        },
+        async renewLease(serverId, ttlSec) {
+            leases.set(serverId, Date.now())
+            leases.expireAt(serverId, Date.now() + ttlSec * 1000)
+        },
+        getLease: async (serverId) => leases.get(serverId),
+        async removeLease(serverId) {
+            leases.delete(serverId)
+        },
+        async claim(transcriptId, serverId, ttlSec) {
+            if (claims.has(transcriptId)) {
+                return false
+            }
+            claims.set(transcriptId, serverId)
+            claims.expireAt(transcriptId, Date.now() + ttlSec * 1000)
+            return true
+        },
+    }
+}
+
+// entry ids are the time an entry was added and a sequence number, as in a Redis stream
+function createLogStore(): LogStore {
+    const logs: Map<string, LogEntry[]> = new Map()
+    let lastTime = 0
+    let sequence = 0
+    const nextId = () => {
+        const time = Math.max(Date.now(), lastTime)
+        sequence = time === lastTime ? sequence + 1 : 0
+        lastTime = time
+        return { id: `${time}-${sequence}`, time }
+    }
+    return {
+        async append(log, fields, trim) {
+            const entries = logs.get(log) || []
+            entries.push({ ...nextId(), fields: { ...fields } })
+            const minTime = trim.minTime
+            let kept = minTime ? entries.filter(({ time }) => time >= minTime) : entries
+            if (trim.maxLength !== undefined && kept.length > trim.maxLength) {
+                kept = kept.slice(kept.length - trim.maxLength)
+            }
+            logs.set(log, kept)
+        },
+        async read(log, range) {
+            const entries = logs.get(log) || []
+            let end = entries.length
+            if (range.before) {
+                // the entry may have been trimmed, so start at the newest one older than it
+                const [time, sequence] = range.before.split('-').map((n) => parseInt(n))
+                const index = entries.findIndex(({ id }) => {
+                    const [entryTime, entrySequence] = id.split('-').map((n) => parseInt(n))
+                    return entryTime > time || (entryTime === time && entrySequence >= sequence)
+                })
+                end = index >= 0 ? index : end
+            }
+            const found: LogEntry[] = []
+            for (let i = end - 1; i >= 0 && found.length < range.count; i--) {
+                const { time } = entries[i]
+                if (range.since && time < range.since) {
+                    break
+                }
+                if (!range.until || time <= range.until) {
+                    found.push(structuredClone(entries[i]))
+                }
+            }
+            return found
+        },
+    }
+}
+
+function createIndexStore(): IndexStore {
+    const indexes: Map<IndexName, Map<string, number>> = new Map()
+    const index = (name: IndexName) => {
+        let entries = indexes.get(name)
+        if (!entries) {
+            entries = new Map()
+            indexes.set(name, entries)
+        }
+        return entries
+    }
+    return {
+        async add(name, entries, onlyIfMissing = false) {
+            const times = index(name)
+            for (const { id, time } of entries) {
+                if (!onlyIfMissing || !times.has(id)) {
+                    times.set(id, time)
+                }
+            }
+        },
+        async remove(name, ids) {
+            const times = index(name)
+            ids.forEach((id) => times.delete(id))
+        },
+        async find(name, from, to) {
+            // equal times are ordered by ID, as they are in a sorted set
+            return [...index(name)]
+                .filter(([, time]) => time >= from && time <= to)
+                .sort(([a, aTime], [b, bTime]) => aTime - bTime || (a < b ? -1 : a > b ? 1 : 0))
+                .map(([id]) => id)
+        },
+        async findNewest(name, count) {
+            // equal times are ordered by ID, descending, as they are in a reversed sorted set
+            return [...index(name)]
+                .sort(([a, aTime], [b, bTime]) => bTime - aTime || (a < b ? 1 : a > b ? -1 : 0))
+                .slice(0, Math.max(count, 0))
+                .map(([id]) => id)
+        },
+    }
+}
+
+function createSearchStore(): SearchStore {
+    const words: ExpiringMap<Set<string>> = createExpiringMap()
+    return {
+        async add(conversationId, added, transcriptId, expiresAt) {
+            for (const word of added) {
+                const key = `${conversationId}:${word}`
+                const ids = words.get(key)
+                if (ids) {
+                    ids.add(transcriptId)
+                } else {
+                    words.set(key, new Set([transcriptId]))
+                }
+                // the set must live at least as long as its longest-lived transcript,
+                // and one that is kept forever has no expiry
+                const prior = words.expiresAt(key)
+                if (!expiresAt) {
+                    words.expireAt(key, undefined)
+                } else if (!ids || (prior !== undefined && expiresAt * 1000 > prior)) {
+                    words.expireAt(key, expiresAt * 1000)
+                }
+            }
+        },
+        async expireAt(conversationId, expired, expiresAt) {
+            for (const word of expired) {
+                const key = `${conversationId}:${word}`
+                words.expireAt(key, expiresAt ? expiresAt * 1000 : undefined)
+            }
+        },
+        async remove(conversationId, removed, transcriptId) {
+            for (const word of removed) {
+                const key = `${conversationId}:${word}`
+                words.get(key)?.delete(transcriptId)
+                if (words.get(key)?.size === 0) {
+                    words.delete(key)
+                }
+            }
+        },
+        async find(conversationId, found) {
+            const sets = found.map(
+                (word) => words.get(`${conversationId}:${word}`) || new Set<string>(),
+            )
+            const [first, ...rest] = sets
+            return [...(first || [])].filter((id) => rest.every((set) => set.has(id)))
+        },
+    }
+}
+
+// with only one server, publishing a message delivers it straight to the listener
+function createChannelStore(): ChannelStore {
+    const histories: ExpiringMap<string[]> = createExpiringMap()
+    const listeners: Map<string, (message: string) => void> = new Map()
+    const presence: ExpiringMap<Map<string, string>> = createExpiringMap()
+    return {
+        async publish(channel, message, { maxCount, ttlSec }) {
+            const history = [...(histories.get(channel) || []), message].slice(-maxCount)
+            histories.set(channel, history)
+            histories.expireAt(channel, Date.now() + ttlSec * 1000)
+            listeners.get(channel)?.(message)
+        },
+        getHistory: async (channel) => [...(histories.get(channel) || [])],
+        async listen(channel, listener) {
+            listeners.set(channel, listener)
+        },
+        async unlisten(channel) {
+            listeners.delete(channel)
+        },
+        async setPresence(channel, clientId, status, ttlSec) {
+            const present = presence.get(channel) || new Map()
+            present.set(clientId, status)
+            presence.set(channel, present)
+            presence.expireAt(channel, Date.now() + ttlSec * 1000)
+        },
+        async removePresence(channel, clientId) {
+            presence.get(channel)?.delete(clientId)
+        },
+        getPresentClients: async (channel) => [...(presence.get(channel)?.keys() || [])],
+    }
+}
+
+// there is never any data from an older schema in memory, so migrations change nothing
+function createSchemaStore(): SchemaStore {
+    let version = latestSchemaVersion
+    const locks: ExpiringMap<string> = createExpiringMap()
+    return {
+        getVersion: async () => version,
+        async setVersion(migrated) {
+            version = migrated
+        },
+        async lock(lockId, ttlSec) {
+            if (locks.has('schema')) {
+                return false
+            }
+            locks.set('schema', lockId)
+            locks.expireAt('schema', Date.now() + ttlSec * 1000)
+            return true
+        },
+        async renewLock(lockId, ttlSec) {
+            if (locks.get('schema') !== lockId) {
+                return false
+            }
+            locks.expireAt('schema', Date.now() + ttlSec * 1000)
+            return true
+        },
+        async unlock(lockId) {
+            if (locks.get('schema') === lockId) {
+                locks.delete('schema')
+            }
+        },
+        migrate: async () => 0,
+    }
+}
+
+export function createMemoryStorage(): Storage {
+    return {
+        name: 'memory',
+        clients: createClientStore(),
+        profiles: createProfileStore(),
+        conversations: createConversationStore(),
+        transcripts: createTranscriptStore(),
+        sessions: createSessionStore(),
+        queues: createQueueStore(),
+        logs: createLogStore(),
+        indexes: createIndexStore(),
+        search: createSearchStore(),
+        channels: createChannelStore(),
+        schema: createSchemaStore(),
+        async ping() {},
+    }
+}
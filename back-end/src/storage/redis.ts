@@ -0,0 +1,1030 @@
+// Copyright 2023-2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Redis storage design note:
+
+Each object is a hash, keyed by a prefix for its kind and its ID (such as
+`cli:` for clients and `tra:` for transcripts), and since hashes can only hold
+strings, numbers and lists are converted as they are read and written.  The
+sets and lists that relate objects (such as a profile's clients or a
+conversation's transcripts) have prefixes of their own, as do the session
+markers, and all keys start with the prefix in the settings, so a test database
+can share a server with production.
+
+Every server has a default connection, which is shared by everything, a
+blocking connection, which the transcriber uses to wait on the suspended
+transcript queue, so that the wait doesn't hold up anything else, and a
+subscriber connection, on which the websocket transport's channels listen
+for the messages published by other servers.
+
+The data of older formats is migrated here, since only Redis has any.
+
+The SCAN helpers (`scanKeys`, `scanHashes` and `getHashes`) live here rather
+than in db.ts: db.ts only talks to storage through the Storage interface, so
+that it works with memory storage too, and the Redis stores are the helpers'
+main users, so keeping them here avoids an import cycle between the modules.
+ */
+
+import { randomUUID } from 'crypto'
+import { createClient } from 'redis'
+
+import { getSettings } from '../settings.js'
+import { logger } from '../logger.js'
+import { ApnsRequestData } from '../apns.js'
+import { ClientData } from '../client.js'
+import { ConversationInfo, ProfileData } from '../profile.js'
+import { IndexName } from '../indexes.js'
+import { TranscriptData } from '../v2/transcribe.js'
+import {
+    ChannelStore,
+    ClientStore,
+    ConversationStore,
+    IndexStore,
+    LogStore,
+    ProfileStore,
+    QueueStore,
+    SchemaStore,
+    ScanOptions,
+    SearchStore,
+    SessionStore,
+    Storage,
+    TranscriptProgress,
+    TranscriptStore,
+} from '../storage.js'
+
+interface loadedClient {
+    client: ReturnType<typeof createClient>
+    connectionId: number
+}
+
+const loadedClients: { [name: string]: loadedClient } = {}
+
+export let dbKeyPrefix: string = 'u:'
+
+export async function getDbClient(name: string = 'default') {
+    if (loadedClients[name]) {
+        return loadedClients[name].client
+    }
+    const config = getSettings()
+    dbKeyPrefix = config.dbKeyPrefix
+    const rc = createClient({ url: config.dbUrl })
+    await rc.connect()
+    const id = await rc.clientId()
+    loadedClients[name] = { client: rc, connectionId: id }
+    return rc
+}
+
+// clients are only created on first use, so an unused client is not ready
+export function isDbClientReady(name: string = 'default') {
+    return loadedClients[name]?.client.isReady ?? false
+}
+
+export async function unblockDbClient(name: string) {
+    if (name === 'default') {
+        throw Error(`Can't unblock the default database client`)
+    }
+    if (!loadedClients[name]) {
+        logger.warn('Ignoring attempt to unblock unknown database client', { name })
+        return false
+    }
+    const rc = await getDbClient()
+    const id = loadedClients[name].connectionId
+    try {
+        const result = await rc.sendCommand(['CLIENT', 'UNBLOCK', id.toString()])
+        if (result === 1) {
+            return true
+        }
+        logger.warn('REDIS reports that client was not blocked', { connectionId: id })
+        return false
+    } catch (err) {
+        logger.warn('REDIS error trying to unblock client', { connectionId: id, error: err })
+        return false
+    }
+}
+
+const defaultScanCount = 1000
+
+// Iterate over the keys matching a pattern, a batch at a time.  This uses SCAN
+// rather than KEYS, because KEYS blocks the server until it has looked at every
+// key, and that can take seconds on a production database.  SCAN can return a
+// key more than once, and we leave the repeats to the callers (see ScanOptions),
+// because remembering every key we've returned would take memory in proportion
+// to the size of the database.
+export async function* scanKeys(pattern: string, options: ScanOptions = {}) {
+    const rc = await getDbClient()
+    let scanned = 0
+    let cursor = 0
+    do {
+        const reply = await rc.scan(cursor, {
+            MATCH: pattern,
+            COUNT: options.count || defaultScanCount,
+        })
+        cursor = reply.cursor
+        scanned += reply.keys.length
+        if (reply.keys.length > 0) {
+            yield reply.keys
+        }
+        options.onProgress?.(scanned)
+    } while (cursor !== 0)
+}
+
+// iterate over the hashes matching a pattern, fetching each batch in one pipeline
+export async function* scanHashes(pattern: string, options: ScanOptions = {}) {
+    for await (const keys of scanKeys(pattern, options)) {
+        yield await getHashes(keys)
+    }
+}
+
+// fetch many hashes in one pipeline; a missing hash has no fields
+export async function getHashes(keys: string[]) {
+    const rc = await getDbClient()
+    const multi = rc.multi()
+    keys.forEach((key) => multi.hGetAll(key))
+    const replies = keys.length > 0 ? await multi.execAsPipeline() : []
+    return keys.map((key, i) => ({
+        key,
+        data: replies[i] as unknown as { [field: string]: string },
+    }))
+}
+
+type StoredFields = { [field: string]: string | number | object[] }
+
+// iterate over the objects of one kind, converting their stored fields
+async function* scanObjects<T>(
+    prefix: string,
+    parse: (data: StoredFields) => T | undefined,
+    options: ScanOptions = {},
+) {
+    for await (const batch of scanHashes(dbKeyPrefix + prefix + '*', options)) {
+        const objects: T[] = []
+        for (const { data } of batch) {
+            const parsed = parse(data)
+            if (parsed) {
+                objects.push(parsed)
+            }
+        }
+        yield objects
+    }
+}
+
+async function getObjects<T>(prefix: string, ids: string[], parse: (data: StoredFields) => T) {
+    const hashes = await getHashes(ids.map((id) => dbKeyPrefix + prefix + id))
+    return hashes.map(({ data }) => parse(data))
+}
+
+function parseClientData(existing: StoredFields) {
+    if (!existing?.id) {
+        return undefined
+    }
+    if (typeof existing?.secretDate === 'string') {
+        existing.secretDate = parseInt(existing.secretDate)
+    }
+    if (typeof existing?.lastLaunch === 'string') {
+        existing.lastLaunch = parseInt(existing.lastLaunch)
+    }
+    return existing as unknown as ClientData
+}
+
+function parseApnsRequestData(existing: StoredFields) {
+    if (!existing?.id) {
+        return undefined
+    }
+    if (typeof existing?.status === 'string') {
+        existing.status = parseInt(existing.status)
+    }
+    if (typeof existing?.sentTime === 'string') {
+        existing.sentTime = parseInt(existing.sentTime)
+    }
+    return existing as unknown as ApnsRequestData
+}
+
+function parseProfileData(dbData: StoredFields) {
+    if (!dbData?.id) {
+        return undefined
+    }
+    return {
+        ...dbData,
+        lastUsed: parseInt(dbData?.lastUsed ? `${dbData.lastUsed}` : '0'),
+        settingsVersion: parseInt(dbData?.settingsVersion ? `${dbData.settingsVersion}` : '1'),
+    } as unknown as ProfileData
+}
+
+function parseConversationInfo(existing: StoredFields) {
+    if (!existing?.id) {
+        return undefined
+    }
+    if (typeof existing?.transcriptTtl === 'string') {
+        existing.transcriptTtl = parseInt(existing.transcriptTtl)
+    }
+    if (typeof existing?.transcriptIdleTimeout === 'string') {
+        existing.transcriptIdleTimeout = parseInt(existing.transcriptIdleTimeout)
+    }
+    return existing as unknown as ConversationInfo
+}
+
+function parseTranscriptData(data: StoredFields) {
+    if (!data?.id) {
+        return undefined
+    }
+    if (!data?.tzId) {
+        data.tzId = 'America/Los_Angeles'
+    }
+    if (typeof data?.startTime === 'string') {
+        data.startTime = parseInt(data.startTime)
+    }
+    if (typeof data?.duration === 'string') {
+        data.duration = parseInt(data.duration)
+    }
+    if (typeof data?.errCount === 'string') {
+        data.errCount = parseInt(data.errCount)
+    }
+    if (typeof data?.ttl === 'string') {
+        data.ttl = parseInt(data.ttl)
+    }
+    if (typeof data?.idleTimeout === 'string') {
+        data.idleTimeout = parseInt(data.idleTimeout)
+    }
+    if (typeof data?.lines === 'string') {
+        data.lines = JSON.parse(data.lines)
+    }
+    if (typeof data?.annotations === 'string') {
+        data.annotations = JSON.parse(data.annotations)
+    }
+    if (typeof data?.stats === 'string') {
+        data.stats = JSON.parse(data.stats)
+    }
+    // the progress of a live transcript is kept in the same hash
+    delete data.lastChunkId
+    delete data.lastChunkTime
+    delete data.lastActivityTime
+    delete data.listenerCount
+    return data as unknown as TranscriptData
+}
+
+// the fields that hold the result of transcription, which every save replaces
+const transcriptionFields = ['transcription', 'lines', 'annotations']
+
+function transcriptFields(tr: TranscriptData) {
+    const newData: { [k: string]: string } = {
+        id: tr.id,
+        clientId: tr.clientId,
+        conversationId: tr.conversationId,
+        contentId: tr.contentId,
+        tzId: tr.tzId,
+        startTime: tr.startTime.toString(),
+        contentKey: tr.contentKey,
+    }
+    if (tr?.speakerId) {
+        newData.speakerId = tr.speakerId
+    }
+    if (tr?.speakerName) {
+        newData.speakerName = tr.speakerName
+    }
+    if (typeof tr?.ttl === 'number') {
+        newData.ttl = tr.ttl.toString()
+    }
+    if (typeof tr?.duration === 'number') {
+        newData.duration = tr.duration.toString()
+    }
+    if (typeof tr?.idleTimeout === 'number') {
+        newData.idleTimeout = tr.idleTimeout.toString()
+    }
+    if (tr?.endReason) {
+        newData.endReason = tr.endReason
+    }
+    if (tr?.transcription) {
+        newData.transcription = tr.transcription
+    }
+    if (tr?.lines?.length) {
+        newData.lines = JSON.stringify(tr.lines)
+    }
+    if (tr?.annotations?.length) {
+        newData.annotations = JSON.stringify(tr.annotations)
+    }
+    if (typeof tr?.errCount === 'number') {
+        newData.errCount = tr?.errCount.toString()
+    }
+    if (tr?.stats) {
+        newData.stats = JSON.stringify(tr.stats)
+    }
+    return newData
+}
+
+const clients: ClientStore = {
+    async get(id) {
+        const rc = await getDbClient()
+        return parseClientData(await rc.hGetAll(dbKeyPrefix + `cli:${id}`))
+    },
+    async getMany(ids) {
+        return await getObjects('cli:', ids, parseClientData)
+    },
+    async save(clientData) {
+        const rc = await getDbClient()
+        await rc.hSet(dbKeyPrefix + `cli:${clientData.id}`, { ...clientData })
+    },
+    async delete(ids) {
+        if (ids.length === 0) {
+            return 0
+        }
+        const rc = await getDbClient()
+        return await rc.del(ids.map((id) => dbKeyPrefix + `cli:${id}`))
+    },
+    scan(options) {
+        return scanObjects('cli:', parseClientData, options)
+    },
+    async isRepeatPost(id, token, windowMs) {
+        const rc = await getDbClient()
+        const key = dbKeyPrefix + `apns:${id}|${token}`
+        const existing = await rc.set(key, Date.now(), { NX: true, PX: windowMs, GET: true })
+        return existing !== null
+    },
+    async getApnsRequest(pushId) {
+        const rc = await getDbClient()
+        return parseApnsRequestData(await rc.hGetAll(dbKeyPrefix + `req:${pushId}`))
+    },
+    async saveApnsRequest(data) {
+        const update = {}
+        for (const key in data) {
+            update[key] = data[key].toString()
+        }
+        const rc = await getDbClient()
+        await rc.hSet(dbKeyPrefix + `req:${data.id}`, update)
+    },
+    scanApnsRequests(options) {
+        return scanObjects('req:', parseApnsRequestData, options)
+    },
+}
+
+const profiles: ProfileStore = {
+    async get(id) {
+        const rc = await getDbClient()
+        return parseProfileData(await rc.hGetAll(dbKeyPrefix + `pro:${id}`))
+    },
+    async save(profileData) {
+        const rc = await getDbClient()
+        await rc.hSet(dbKeyPrefix + `pro:${profileData.id}`, { ...profileData })
+    },
+    async delete(ids) {
+        if (ids.length === 0) {
+            return 0
+        }
+        const rc = await getDbClient()
+        const [deleted] = await rc
+            .multi()
+            .del(ids.map((id) => dbKeyPrefix + `pro:${id}`))
+            .del(ids.map((id) => dbKeyPrefix + `pro-clients:${id}`))
+            .del(ids.map((id) => dbKeyPrefix + `pro-cons:${id}`))
+            .exec()
+        return Number(deleted)
+    },
+    scan(options) {
+        return scanObjects('pro:', parseProfileData, options)
+    },
+    async getClients(id) {
+        const rc = await getDbClient()
+        return await rc.sMembers(dbKeyPrefix + `pro-clients:${id}`)
+    },
+    async getManyClients(ids) {
+        if (ids.length === 0) {
+            return []
+        }
+        const rc = await getDbClient()
+        const multi = rc.multi()
+        ids.forEach((id) => multi.sMembers(dbKeyPrefix + `pro-clients:${id}`))
+        return (await multi.execAsPipeline()) as unknown as string[][]
+    },
+    async addClient(id, clientId) {
+        const rc = await getDbClient()
+        await rc.sAdd(dbKeyPrefix + `pro-clients:${id}`, clientId)
+    },
+    async removeClient(id, clientId) {
+        const rc = await getDbClient()
+        await rc.sRem(dbKeyPrefix + `pro-clients:${id}`, clientId)
+    },
+    async getConversations(id) {
+        const rc = await getDbClient()
+        return await rc.sMembers(dbKeyPrefix + `pro-cons:${id}`)
+    },
+    async addConversation(id, conversationId) {
+        const rc = await getDbClient()
+        await rc.sAdd(dbKeyPrefix + `pro-cons:${id}`, conversationId)
+    },
+    async removeConversation(id, conversationId) {
+        const rc = await getDbClient()
+        await rc.sRem(dbKeyPrefix + `pro-cons:${id}`, conversationId)
+    },
+}
+
+const conversations: ConversationStore = {
+    async get(id) {
+        const rc = await getDbClient()
+        return parseConversationInfo(await rc.hGetAll(dbKeyPrefix + `con:${id}`))
+    },
+    async save(info) {
+        const rc = await getDbClient()
+        await rc.hSet(dbKeyPrefix + `con:${info.id}`, { ...info })
+    },
+    scan(options) {
+        return scanObjects('con:', parseConversationInfo, options)
+    },
+}
+
+const transcripts: TranscriptStore = {
+    async get(id) {
+        const rc = await getDbClient()
+        return parseTranscriptData(await rc.hGetAll(dbKeyPrefix + `tra:${id}`))
+    },
+    async getMany(ids) {
+        return await getObjects('tra:', ids, parseTranscriptData)
+    },
+    async save(tr, expiresAt) {
+        const rc = await getDbClient()
+        const tKey = dbKeyPrefix + `tra:${tr.id}`
+        const fields = transcriptFields(tr)
+        const cleared = transcriptionFields.filter((field) => !(field in fields))
+        const multi = rc.multi().hSet(tKey, fields)
+        if (cleared.length > 0) {
+            multi.hDel(tKey, cleared)
+        }
+        await multi.exec()
+        for (const key of [tr.contentKey, tKey, dbKeyPrefix + `tpr:${tr.id}`]) {
+            if (expiresAt) {
+                await rc.expireAt(key, expiresAt)
+            } else {
+                await rc.persist(key)
+            }
+        }
+    },
+    async delete(tr) {
+        const rc = await getDbClient()
+        const tKey = dbKeyPrefix + `tra:${tr.id}`
+        await rc.del([tKey, tr.contentKey, dbKeyPrefix + `tpr:${tr.id}`])
+        await rc.lRem(dbKeyPrefix + `cts:${tr.conversationId}`, 0, tr.id)
+    },
+    scan(options) {
+        return scanObjects('tra:', parseTranscriptData, options)
+    },
+    newContentKey() {
+        // the key prefix isn't set until we connect, so we take it from the settings
+        return getSettings().dbKeyPrefix + 'tcp:' + randomUUID()
+    },
+    async appendContent(tr, entries, chunk) {
+        const rc = await getDbClient()
+        const time = `${chunk.time}`
+        const last = { lastChunkId: chunk.id, lastChunkTime: time, lastActivityTime: time }
+        await rc
+            .multi()
+            .lPush(tr.contentKey, entries)
+            .hSet(dbKeyPrefix + `tra:${tr.id}`, last)
+            .exec()
+    },
+    async getContent(contentKey) {
+        const rc = await getDbClient()
+        return await rc.lRange(contentKey, 0, -1)
+    },
+    async getContentAfter(contentKey, count) {
+        // new entries are pushed on the front, so the known ones are at the end
+        const rc = await getDbClient()
+        return await rc.lRange(contentKey, 0, -(count + 1))
+    },
+    async hasContent(contentKey) {
+        const rc = await getDbClient()
+        return (await rc.exists(contentKey)) === 1
+    },
+    async deleteContent(contentKey) {
+        const rc = await getDbClient()
+        await rc.del(contentKey)
+    },
+    async getProgress(id) {
+        const rc = await getDbClient()
+        const fields = ['lastChunkId', 'lastChunkTime', 'lastActivityTime', 'listenerCount']
+        const [chunkId, chunkTime, activityTime, listenerCount] = await rc.hmGet(
+            dbKeyPrefix + `tra:${id}`,
+            fields,
+        )
+        const progress: TranscriptProgress = {
+            listenerCount: listenerCount ? parseInt(listenerCount) : 0,
+        }
+        if (chunkId) {
+            progress.lastChunkId = chunkId
+        }
+        if (chunkTime) {
+            progress.lastChunkTime = parseInt(chunkTime)
+        }
+        if (activityTime) {
+            progress.lastActivityTime = parseInt(activityTime)
+        }
+        return progress
+    },
+    async recordActivity(id, time) {
+        const rc = await getDbClient()
+        await rc.hSet(dbKeyPrefix + `tra:${id}`, 'lastActivityTime', time.toString())
+    },
+    async incrementListenerCount(id) {
+        const rc = await getDbClient()
+        await rc.hIncrBy(dbKeyPrefix + `tra:${id}`, 'listenerCount', 1)
+    },
+    async addParticipant(id, participantId, expiresAt) {
+        const rc = await getDbClient()
+        const pKey = dbKeyPrefix + `tpr:${id}`
+        const added = await rc.sAdd(pKey, participantId)
+        if (expiresAt) {
+            await rc.expireAt(pKey, expiresAt)
+        }
+        return added > 0
+    },
+    async isParticipant(id, participantId) {
+        const rc = await getDbClient()
+        return await rc.sIsMember(dbKeyPrefix + `tpr:${id}`, participantId)
+    },
+    async getConversationTranscripts(conversationId) {
+        const rc = await getDbClient()
+        return await rc.lRange(dbKeyPrefix + `cts:${conversationId}`, 0, -1)
+    },
+    async setConversationTranscripts(conversationId, ids) {
+        const rc = await getDbClient()
+        const key = dbKeyPrefix + `cts:${conversationId}`
+        if (ids.length == 0) {
+            await rc.del(key)
+        } else {
+            await rc.multi().del(key).rPush(key, ids).exec()
+        }
+    },
+    async addConversationTranscript(conversationId, id) {
+        const rc = await getDbClient()
+        await rc.lPush(dbKeyPrefix + `cts:${conversationId}`, id)
+    },
+}
+
+const sessions: SessionStore = {
+    async getSessionKeys() {
+        const rc = await getDbClient()
+        return await rc.lRange(dbKeyPrefix + 'sessionKeys', 0, -1)
+    },
+    async addSessionKey(secret) {
+        const rc = await getDbClient()
+        await rc.lPush(dbKeyPrefix + 'sessionKeys', secret)
+    },
+    async getPresenceLogging() {
+        const rc = await getDbClient()
+        return (await rc.get(dbKeyPrefix + 'presenceLogging')) === 'true'
+    },
+    async setPresenceLogging(doLogging) {
+        const rc = await getDbClient()
+        await rc.set(dbKeyPrefix + 'presenceLogging', doLogging ? 'true' : 'false')
+    },
+    async incrementCounter(name, windowSec) {
+        const rc = await getDbClient()
+        const key = dbKeyPrefix + name
+        const [count] = await rc.multi().incr(key).expire(key, windowSec).exec()
+        return Number(count)
+    },
+    async getMarker(name) {
+        const rc = await getDbClient()
+        return (await rc.get(dbKeyPrefix + name)) ?? undefined
+    },
+    async setMarker(name, value, ttlSec) {
+        const rc = await getDbClient()
+        const options = ttlSec ? { EX: ttlSec, GET: true as const } : { GET: true as const }
+        return (await rc.set(dbKeyPrefix + name, value, options)) ?? undefined
+    },
+    async deleteMarker(name) {
+        const rc = await getDbClient()
+        await rc.del(dbKeyPrefix + name)
+    },
+}
+
+const serverQueueKey = 'servers-doing-transcription'
+const transcriptQueueKey = 'suspended-transcript-ids'
+const transcriptOwnersKey = 'transcript-owners'
+
+const queues: QueueStore = {
+    async addServer(serverId) {
+        const rc = await getDbClient()
+        await rc.lPush(dbKeyPrefix + serverQueueKey, serverId)
+    },
+    async removeServer(serverId) {
+        const rc = await getDbClient()
+        await rc.lRem(dbKeyPrefix + serverQueueKey, 0, serverId)
+    },
+    async getServers() {
+        const rc = await getDbClient()
+        return await rc.lRange(dbKeyPrefix + serverQueueKey, 0, -1)
+    },
+    async waitForServer(timeoutSec) {
+        const rc = await getDbClient()
+        const sKey = dbKeyPrefix + serverQueueKey
+        return (await rc.blMove(sKey, sKey, 'RIGHT', 'LEFT', timeoutSec)) ?? undefined
+    },
+    async suspendTranscript(id) {
+        const rc = await getDbClient()
+        await rc.lPush(dbKeyPrefix + transcriptQueueKey, id)
+    },
+    async getSuspendedTranscripts() {
+        const rc = await getDbClient()
+        return await rc.lRange(dbKeyPrefix + transcriptQueueKey, 0, -1)
+    },
+    async waitForSuspendedTranscript(timeoutSec) {
+        const rc = await getDbClient('blocking')
+        const result = await rc.brPop(dbKeyPrefix + transcriptQueueKey, timeoutSec)
+        return result?.element
+    },
+    async interruptWait() {
+        await unblockDbClient('blocking')
+    },
+    isWaiting() {
+        return isDbClientReady('blocking')
+    },
+    async getOwners() {
+        const rc = await getDbClient()
+        return await rc.hGetAll(dbKeyPrefix + transcriptOwnersKey)
+    },
+    async getOwner(transcriptId) {
+        const rc = await getDbClient()
+        return await rc.hGet(dbKeyPrefix + transcriptOwnersKey, transcriptId)
+    },
+    async setOwner(transcriptId, serverId) {
+        const rc = await getDbClient()
+        await rc.hSet(dbKeyPrefix + transcriptOwnersKey, transcriptId, serverId)
+    },
+    async removeOwner(transcriptId) {
+        const rc = await getDbClient()
+        await rc.hDel(dbKeyPrefix + transcriptOwnersKey, transcriptId)
+    },
+    async renewLease(serverId, ttlSec) {
+        const rc = await getDbClient()
+        await rc.set(serverLeaseKey(serverId), Date.now().toString(), { EX: ttlSec })
+    },
+    async getLease(serverId) {
+        const rc = await getDbClient()
+        const lease = await rc.get(serverLeaseKey(serverId))
+        return lease ? parseInt(lease) : undefined
+    },
+    async removeLease(serverId) {
+        const rc = await getDbClient()
+        await rc.del(serverLeaseKey(serverId))
+    },
+    async claim(transcriptId, serverId, ttlSec) {
+        const rc = await getDbClient()
+        const claimKey = dbKeyPrefix + `transcript-claim:${transcriptId}`
+        return (await rc.set(claimKey, serverId, { NX: true, EX: ttlSec })) !== null
+    },
+}
+
+function serverLeaseKey(serverId: string) {
+    return dbKeyPrefix + `server-lease:${serverId}`
+}
+
+// logs are streams, whose entry ids give the time they were added
+const logs: LogStore = {
+    async append(log, fields, trim) {
+        const rc = await getDbClient()
+        const options =
+            trim.minTime !== undefined
+                ? { strategy: 'MINID' as const, threshold: trim.minTime }
+                : { strategy: 'MAXLEN' as const, threshold: trim.maxLength || 0 }
+        await rc.xAdd(dbKeyPrefix + log, '*', fields, {
+            TRIM: { ...options, strategyModifier: '~' },
+        })
+    },
+    async read(log, range) {
+        const rc = await getDbClient()
+        const start = range.since ? `${range.since}` : '-'
+        let end = range.until ? `${range.until}` : '+'
+        if (range.before) {
+            end = `(${range.before}`
+        }
+        const entries = await rc.xRevRange(dbKeyPrefix + log, end, start, { COUNT: range.count })
+        return entries.map(({ id, message }) => ({
+            id,
+            time: parseInt(id.split('-')[0]),
+            fields: message,
+        }))
+    },
+}
+
+// indexes are sorted sets, whose scores are the times
+const indexes: IndexStore = {
+    async add(name, entries, onlyIfMissing = false) {
+        if (entries.length === 0) {
+            return
+        }
+        const rc = await getDbClient()
+        const members = entries.map(({ id, time }) => ({ score: time, value: id }))
+        const options = onlyIfMissing ? { NX: true as const } : undefined
+        await rc.zAdd(indexKey(name), members, options)
+    },
+    async remove(name, ids) {
+        if (ids.length === 0) {
+            return
+        }
+        const rc = await getDbClient()
+        await rc.zRem(indexKey(name), ids)
+    },
+    async find(name, from, to) {
+        const rc = await getDbClient()
+        const min = isFinite(from) ? from : '-inf'
+        const max = isFinite(to) ? to : '+inf'
+        return await rc.zRangeByScore(indexKey(name), min, max)
+    },
+    async findNewest(name, count) {
+        if (count <= 0) {
+            return []
+        }
+        const rc = await getDbClient()
+        return await rc.zRange(indexKey(name), 0, count - 1, { REV: true })
+    },
+}
+
+function indexKey(name: IndexName) {
+    return dbKeyPrefix + 'idx:' + name
+}
+
+// each word of a conversation has a set of the transcripts that use it
+const search: SearchStore = {
+    async add(conversationId, words, transcriptId, expiresAt) {
+        if (words.length === 0) {
+            return
+        }
+        const rc = await getDbClient()
+        const keys = words.map((word) => searchKey(conversationId, word))
+        // a TTL of -2 means the set doesn't exist yet, and -1 that it is kept forever
+        const ttls = rc.multi()
+        for (const key of keys) {
+            ttls.ttl(key)
+        }
+        const priors = (await ttls.exec()).map(Number)
+        const multi = rc.multi()
+        keys.forEach((key, i) => {
+            // the set must live at least as long as its longest-lived transcript
+            multi.sAdd(key, transcriptId)
+            if (!expiresAt) {
+                multi.persist(key)
+            } else if (priors[i] === -2) {
+                multi.expireAt(key, expiresAt)
+            } else {
+                multi.expireAt(key, expiresAt, 'GT')
+            }
+        })
+        await multi.exec()
+    },
+    async expireAt(conversationId, words, expiresAt) {
+        if (words.length === 0) {
+            return
+        }
+        const rc = await getDbClient()
+        const multi = rc.multi()
+        for (const word of words) {
+            const key = searchKey(conversationId, word)
+            if (expiresAt) {
+                multi.expireAt(key, expiresAt)
+            } else {
+                multi.persist(key)
+            }
+        }
+        await multi.exec()
+    },
+    async remove(conversationId, words, transcriptId) {
+        if (words.length === 0) {
+            return
+        }
+        const rc = await getDbClient()
+        const multi = rc.multi()
+        for (const word of words) {
+            multi.sRem(searchKey(conversationId, word), transcriptId)
+        }
+        await multi.exec()
+    },
+    async find(conversationId, words) {
+        const rc = await getDbClient()
+        return await rc.sInter(words.map((word) => searchKey(conversationId, word)))
+    },
+}
+
+function searchKey(conversationId: string, word: string) {
+    return dbKeyPrefix + `tsi:${conversationId}:${word}`
+}
+
+// each channel has a pub/sub channel, a capped list of recent messages,
+// and a hash of the status of each client present on it
+const channels: ChannelStore = {
+    async publish(channel, message, { maxCount, ttlSec }) {
+        const rc = await getDbClient()
+        const hKey = channelHistoryKey(channel)
+        await rc
+            .multi()
+            .rPush(hKey, message)
+            .lTrim(hKey, -maxCount, -1)
+            .expire(hKey, ttlSec)
+            .publish(channelKey(channel), message)
+            .exec()
+    },
+    async getHistory(channel) {
+        const rc = await getDbClient()
+        return await rc.lRange(channelHistoryKey(channel), 0, -1)
+    },
+    async listen(channel, listener) {
+        const sub = await getDbClient('subscriber')
+        await sub.subscribe(channelKey(channel), listener)
+    },
+    async unlisten(channel) {
+        const sub = await getDbClient('subscriber')
+        await sub.unsubscribe(channelKey(channel))
+    },
+    async setPresence(channel, clientId, status, ttlSec) {
+        const rc = await getDbClient()
+        const pKey = channelPresenceKey(channel)
+        await rc.multi().hSet(pKey, clientId, status).expire(pKey, ttlSec).exec()
+    },
+    async removePresence(channel, clientId) {
+        const rc = await getDbClient()
+        await rc.hDel(channelPresenceKey(channel), clientId)
+    },
+    async getPresentClients(channel) {
+        const rc = await getDbClient()
+        return await rc.hKeys(channelPresenceKey(channel))
+    },
+}
+
+function channelKey(channel: string) {
+    return dbKeyPrefix + 'wsc:' + channel
+}
+
+function channelHistoryKey(channel: string) {
+    return dbKeyPrefix + 'wsh:' + channel
+}
+
+function channelPresenceKey(channel: string) {
+    return dbKeyPrefix + 'wsp:' + channel
+}
+
+type Migration = (
+    dryRun: boolean,
+    options: ScanOptions,
+    renewLock: () => Promise<void>,
+) => Promise<number>
+
+// the migrations of data in older formats, by the schema version they bring us to
+const migrations: { [version: number]: Migration } = {
+    1: addTranscriptTimeZones,
+    2: addProfileSettingsVersions,
+    3: linkClientsToProfiles,
+}
+
+const schema: SchemaStore = {
+    async getVersion() {
+        const rc = await getDbClient()
+        return parseInt((await rc.get(schemaVersionKey())) || '0')
+    },
+    async setVersion(version) {
+        const rc = await getDbClient()
+        await rc.set(schemaVersionKey(), `${version}`)
+    },
+    async lock(lockId, ttlSec) {
+        const rc = await getDbClient()
+        return (await rc.set(schemaLockKey(), lockId, { NX: true, EX: ttlSec })) !== null
+    },
+    async renewLock(lockId, ttlSec) {
+        // only renew the lock if it's still ours (it may have expired and been retaken)
+        const rc = await getDbClient()
+        const script = `if redis.call('get', KEYS[1]) == ARGV[1] then
+            return redis.call('expire', KEYS[1], ARGV[2])
+        end
+        return 0`
+        const args = [lockId, `${ttlSec}`]
+        return (await rc.eval(script, { keys: [schemaLockKey()], arguments: args })) === 1
+    },
+    async unlock(lockId) {
+        const rc = await getDbClient()
+        const script = `if redis.call('get', KEYS[1]) == ARGV[1] then
+            return redis.call('del', KEYS[1])
+        end
+        return 0`
+        await rc.eval(script, { keys: [schemaLockKey()], arguments: [lockId] })
+    },
+    async migrate(version, dryRun, options, renewLock) {
+        const migration = migrations[version]
+        if (!migration) {
+            throw Error(`There is no schema migration to version ${version}`)
+        }
+        return await migration(dryRun, options, renewLock)
+    },
+}
+
+function schemaVersionKey() {
+    return dbKeyPrefix + 'schema-version'
+}
+
+function schemaLockKey() {
+    return dbKeyPrefix + 'schema-lock'
+}
+
+async function addTranscriptTimeZones(
+    dryRun: boolean,
+    options: ScanOptions,
+    renewLock: () => Promise<void>,
+) {
+    const rc = await getDbClient()
+    let changed = 0
+    for await (const batch of scanHashes(dbKeyPrefix + 'tra:*', options)) {
+        const keys = batch.filter(({ data }) => data.id && !data.tzId).map(({ key }) => key)
+        changed += keys.length
+        if (!dryRun && keys.length > 0) {
+            const multi = rc.multi()
+            // hSetNX in case the transcript was saved again since we read it
+            keys.forEach((key) => multi.hSetNX(key, 'tzId', 'America/Los_Angeles'))
+            await multi.exec()
+        }
+        await renewLock()
+    }
+    return changed
+}
+
+async function addProfileSettingsVersions(
+    dryRun: boolean,
+    options: ScanOptions,
+    renewLock: () => Promise<void>,
+) {
+    const rc = await getDbClient()
+    let changed = 0
+    for await (const batch of scanHashes(dbKeyPrefix + 'pro:*', options)) {
+        const keys = batch
+            .filter(({ data }) => data.id && !data.settingsVersion)
+            .map(({ key }) => key)
+        changed += keys.length
+        if (!dryRun && keys.length > 0) {
+            const multi = rc.multi()
+            keys.forEach((key) => multi.hSetNX(key, 'settingsVersion', '1'))
+            await multi.exec()
+        }
+        await renewLock()
+    }
+    return changed
+}
+
+// v1 clients only have a user name, and there's nothing to link them to, but v2
+// clients have a profile, and should be in its client set and have its name
+async function linkClientsToProfiles(
+    dryRun: boolean,
+    options: ScanOptions,
+    renewLock: () => Promise<void>,
+) {
+    const rc = await getDbClient()
+    let changed = 0
+    for await (const batch of scanHashes(dbKeyPrefix + 'cli:*', options)) {
+        const linked = batch.filter(({ data }) => data.id && data.profileId)
+        // look up the membership and profile name of the whole batch in one pipeline
+        const lookups = rc.multi()
+        for (const { data } of linked) {
+            lookups.sIsMember(dbKeyPrefix + `pro-clients:${data.profileId}`, data.id)
+            lookups.hGet(dbKeyPrefix + `pro:${data.profileId}`, 'name')
+        }
+        const replies = linked.length > 0 ? await lookups.execAsPipeline() : []
+        const updates = rc.multi()
+        let updated = 0
+        for (const [i, { key, data }] of linked.entries()) {
+            const isMember = Boolean(replies[2 * i])
+            const profileName = replies[2 * i + 1]
+            const name = !data.userName && typeof profileName === 'string' ? profileName : ''
+            if (isMember && !name) {
+                continue
+            }
+            updated += 1
+            if (!isMember) {
+                updates.sAdd(dbKeyPrefix + `pro-clients:${data.profileId}`, data.id)
+            }
+            if (name) {
+                updates.hSetNX(key, 'userName', name)
+            }
+        }
+        changed += updated
+        if (!dryRun && updated > 0) {
+            await updates.exec()
+        }
+        await renewLock()
+    }
+    return changed
+}
+
+export function createRedisStorage(): Storage {
+    return {
+        name: 'redis',
+        clients,
+        profiles,
+        conversations,
+        transcripts,
+        sessions,
+        queues,
+        logs,
+        indexes,
+        search,
+        channels,
+        schema,
+        async ping() {
+            const rc = await getDbClient()
+            await rc.ping()
+        },
+    }
+}
@@ -4,8 +4,10 @@
 
 import { randomUUID } from 'crypto'
 import assert from 'assert'
+import { createServer } from 'node:http'
 import express from 'express'
-import { fetch } from 'fetch-h2'
+import { context, fetch } from 'fetch-h2'
+import { WebSocket } from 'ws'
 
 import {
     createApnsJwt,
@@ -14,12 +16,30 @@ import {
     validateApnsJwt,
     validateClientJwt,
 } from './auth.js'
-import { getDbClient } from './db.js'
-import { loadSettings } from './settings.js'
+import { getPresenceLogging } from './db.js'
+import { getStorage } from './storage.js'
+import { getDbClient, scanKeys } from './storage/redis.js'
 import { ClientData, getClientData, setClientData } from './client.js'
-import { getApnsRequestData } from './apns.js'
-import { apnsToken } from './routes.js'
-import { asyncWrapper } from './middleware.js'
+import { getApnsRequestData, getRecentApnsRequests, setApnsRequestData } from './apns.js'
+import { apnsToken, logAnomaly } from './routes.js'
+import { asyncWrapper, cookieMiddleware, sessionMiddleware } from './middleware.js'
+import { logger, requestIdMiddleware } from './logger.js'
+import { metricsRoute } from './metrics.js'
+import { beginShutdown, healthz, readyz } from './health.js'
+import { adminRouter } from './admin.js'
+import { adminDashboard } from './dashboard.js'
+import { queryReports, saveReport } from './reports.js'
+import { getAuditEntries, removeUnusedClients } from './v2/chores.js'
+import { findInIndex } from './indexes.js'
+import { latestSchemaVersion, migrateSchema } from './migrations.js'
+import { getSettings, loadSettings } from './settings.js'
+import { TransportMessage } from './transport.js'
+import { createLocalTransport } from './transports/local.js'
+import {
+    capabilityAllows,
+    createWebSocketTransport,
+    validateTokenRequest,
+} from './transports/websocket.js'
 
 import { testAll as test1 } from './v1/test.js'
 import { testAll as test2 } from './v2/test.js'
@@ -76,8 +96,7 @@ async function testApns() {
     await new Promise((resolve) => setTimeout(resolve, 1000))
     clientData = await getClientData(clientId)
     assert(clientData && clientData.pushId, `pushId wasn't recorded on client during update`)
-    const requestId = `req:${clientData.pushId}`
-    const requestData = await getApnsRequestData(requestId)
+    const requestData = await getApnsRequestData(clientData.pushId)
     assert(requestData && requestData.id === clientData.pushId && requestData.status == 200)
     server.closeAllConnections()
     server.removeAllListeners()
@@ -104,17 +123,442 @@ async function mockApnsRoute(req: express.Request, res: express.Response) {
     res.status(200).send()
 }
 
+async function testLocalTransport() {
+    const transport = createLocalTransport()
+    const whisperer = transport.connect('whisperer')
+    const listener = transport.connect('listener')
+    const received: string[] = []
+    await listener.channel('c1:content').subscribe((message) => received.push(message.data), 'all')
+    await whisperer.channel('c1:content').publish('chunk 1')
+    await whisperer.channel('c1:content').publish('ignored', 'other')
+    await whisperer.channel('c1:content').publish('chunk 2')
+    assert(received.join() === 'chunk 1,chunk 2', `Listener received wrong chunks: ${received}`)
+    const present = await listener.channel('c1:content').presentClients()
+    assert(present.join() === 'whisperer', `Wrong clients present: ${present}`)
+    const late = transport.connect('late-listener')
+    const rewound: string[] = []
+    await late.channel('c1:content', { rewind: '1' }).subscribe((m) => rewound.push(m.data))
+    assert(rewound.join() === 'chunk 2', `Rewind replayed the wrong chunks: ${rewound}`)
+    whisperer.close()
+    assert(whisperer.isClosed(), 'Whisperer connection did not close')
+    const absent = await listener.channel('c1:content').presentClients('whisperer')
+    assert(absent.length === 0, 'Whisperer is still present after closing')
+    const tokenRequest = await transport.createTokenRequest('listener', { 'c1:*': ['subscribe'] })
+    assert(tokenRequest.clientId === 'listener', 'Token request has the wrong client')
+}
+
+async function testWebSocketTransport() {
+    const transport = createWebSocketTransport()
+    const capability = { 'c1:*': ['subscribe', 'presence'] }
+    const tokenRequest = await transport.createTokenRequest('listener', capability)
+    assert(await validateTokenRequest(tokenRequest), 'Signed token request did not validate')
+    const forged = { ...tokenRequest, clientId: 'someone-else' }
+    assert(!(await validateTokenRequest(forged)), 'Forged token request validated')
+    assert(capabilityAllows(capability, 'c1:content', 'subscribe'), 'Wildcard did not match')
+    assert(!capabilityAllows(capability, 'c1:content', 'publish'), 'Publish was allowed')
+    assert(!capabilityAllows(capability, 'c2:content', 'subscribe'), 'Other channel was allowed')
+    // clients connected to the server reach each other, and a token request only works once
+    const server = createServer()
+    transport.attachServer!(server)
+    server.listen(2206)
+    const whisperer = openRealtimeClient()
+    const listener = openRealtimeClient()
+    try {
+        const whispererAuth = await transport.createTokenRequest('whisperer', { 'c1:*': ['*'] })
+        whisperer.send({ action: 'auth', tokenRequest: whispererAuth })
+        whisperer.send({ action: 'enter', channel: 'c1:control', status: 'whispering' })
+        await whisperer.waitFor('connected')
+        listener.send({ action: 'auth', tokenRequest })
+        listener.send({ action: 'attach', channel: 'c1:content' })
+        await listener.waitFor('attached')
+        whisperer.send({ action: 'publish', channel: 'c1:content', name: 'all', data: 'chunk 1' })
+        const [{ message }] = await listener.waitFor('message')
+        assert(message?.data === 'chunk 1' && message.clientId === 'whisperer', 'Wrong message')
+        listener.send({ action: 'presence', channel: 'c1:control', requestId: 'r1' })
+        const [{ clients }] = await listener.waitFor('presence')
+        assert(clients?.join() === 'whisperer', `Wrong clients present: ${clients}`)
+        listener.send({ action: 'publish', channel: 'c1:content', data: 'not allowed' })
+        await listener.waitFor('error')
+        listener.send({ action: 'subscribe', channel: 'c1:content' })
+        const [, unknown] = await listener.waitFor('error', 2)
+        assert(unknown.reason === 'Unknown action: subscribe', `Wrong error: ${unknown.reason}`)
+        // a late listener gets the rewound message once
+        const lateAuth = await transport.createTokenRequest('late', capability)
+        const late = openRealtimeClient()
+        try {
+            late.send({ action: 'auth', tokenRequest: lateAuth })
+            late.send({ action: 'attach', channel: 'c1:content', rewind: '1' })
+            await late.waitFor('message')
+            await new Promise((resolve) => setTimeout(resolve, 100))
+            const rewound = await late.waitFor('message')
+            assert(rewound.length === 1, `Wrong rewound messages: ${JSON.stringify(rewound)}`)
+        } finally {
+            late.close()
+        }
+        const replay = openRealtimeClient()
+        replay.send({ action: 'auth', tokenRequest })
+        const [error] = await replay.waitFor('error')
+        assert(error.reason === 'Invalid authorization', 'Replayed token request was accepted')
+        whisperer.close()
+        await new Promise((resolve) => setTimeout(resolve, 100))
+        listener.send({ action: 'presence', channel: 'c1:control', requestId: 'r2' })
+        const [, { clients: after }] = await listener.waitFor('presence', 2)
+        assert(after?.length === 0, `Whisperer is still present after closing: ${after}`)
+    } finally {
+        whisperer.close()
+        listener.close()
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+interface ServerFrame {
+    action: string
+    reason?: string
+    message?: TransportMessage
+    clients?: string[]
+}
+
+// a client of the server's realtime socket, which collects the frames it receives
+function openRealtimeClient() {
+    const ws = new WebSocket('ws://localhost:2206/realtime')
+    const opened = new Promise((resolve) => ws.once('open', resolve))
+    const frames: ServerFrame[] = []
+    ws.on('message', (raw) => frames.push(JSON.parse(raw.toString())))
+    const send = (frame: object) => opened.then(() => ws.send(JSON.stringify(frame)))
+    const waitFor = async (action: string, count: number = 1) => {
+        const found = () => frames.filter((frame) => frame.action === action)
+        for (let i = 0; i < 50 && found().length < count; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 20))
+        }
+        assert(found().length >= count, `Never received ${action}: ${JSON.stringify(frames)}`)
+        return found()
+    }
+    return { send, waitFor, close: () => ws.close() }
+}
+
+async function testLogger() {
+    const server = express()
+        .use(requestIdMiddleware)
+        .get('/log', (_req, res) => {
+            logger.info('Test entry', { clientId: 'test-client', userName: 'Test User' })
+            res.status(204).send()
+        })
+        .listen(2198)
+    const lines: string[] = []
+    const consoleLog = console.log
+    console.log = (line: string) => lines.push(line)
+    try {
+        getSettings().logRedactNames = true
+        const response = await fetch('http://localhost:2198/log', {
+            headers: { 'X-Request-Id': 'test-request' },
+        })
+        assert(response.headers.get('X-Request-Id') === 'test-request', 'Request id not returned')
+    } finally {
+        console.log = consoleLog
+        getSettings().logRedactNames = false
+        server.closeAllConnections()
+        server.close()
+    }
+    const entry = JSON.parse(lines.find((line) => line.includes('Test entry'))!)
+    assert(entry.level === 'info', `Wrong log level: ${entry.level}`)
+    assert(entry.requestId === 'test-request', `Wrong request id: ${entry.requestId}`)
+    assert(entry.clientId === 'test-client', `Wrong client id: ${entry.clientId}`)
+    assert(entry.userName === '[redacted]', `User name was not redacted: ${entry.userName}`)
+}
+
+async function testMetrics() {
+    const server = express()
+        .get('/metrics', asyncWrapper(metricsRoute))
+        .listen(2199)
+    try {
+        await fetch('http://localhost:2199/metrics')
+        const response = await fetch('http://localhost:2199/metrics')
+        const text = await response.text()
+        assert(response.status === 200, `Non-200 status from metrics: ${response.status}`)
+        assert(
+            text.includes('whisper_route_duration_seconds_count{route="/metrics",method="GET",status="200"}'),
+            'Metrics request latency was not measured',
+        )
+        assert(text.includes('whisper_active_local_transcripts'), 'Missing transcript gauge')
+    } finally {
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+async function testHealth() {
+    const server = express()
+        .get('/healthz', asyncWrapper(healthz))
+        .get('/readyz', asyncWrapper(readyz))
+        .listen(2200)
+    try {
+        const alive = await fetch('http://localhost:2200/healthz')
+        assert(alive.status === 200, `Non-200 status from healthz: ${alive.status}`)
+        // the transcriber waiting for suspended transcripts tells us the server can transcribe
+        await getStorage().queues.waitForSuspendedTranscript(0.1)
+        const ready = await fetch('http://localhost:2200/readyz')
+        assert(ready.status === 200, `Non-200 status from readyz: ${ready.status}`)
+        beginShutdown()
+        const draining = await fetch('http://localhost:2200/readyz')
+        assert(draining.status === 503, `Non-503 status from readyz in shutdown: ${draining.status}`)
+    } finally {
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+async function testReports() {
+    await saveReport('channel-events', { clientId: 'c1', conversationId: 'con1', event: 'attached' })
+    await saveReport('channel-events', { clientId: 'c2', conversationId: 'con1', event: 'failed' })
+    await saveReport('channel-events', { clientId: 'c1', conversationId: 'con2', event: 'failed' })
+    await saveReport('anomalies', { clientId: 'c1', event: 'stuck', message: 'no content' })
+    const failed = await queryReports('channel-events', { event: 'failed' })
+    assert(failed.length === 2, `Wrong number of failed events: ${failed.length}`)
+    assert(failed[0].clientId === 'c1', 'Reports are not newest first')
+    const con1 = await queryReports('channel-events', { conversationId: 'con1', clientId: 'c2' })
+    assert(con1.length === 1 && con1[0].event === 'failed', 'Wrong conversation reports')
+    const future = await queryReports('anomalies', { since: Date.now() + 60000 })
+    assert(future.length === 0, 'Found reports from the future')
+    // paging must continue below an entry that has since been trimmed away
+    const logs = getStorage().logs
+    for (let i = 0; i < 6; i++) {
+        await logs.append('test-paging', { i: `${i}` }, { maxLength: 6 })
+    }
+    const page = await logs.read('test-paging', { count: 3 })
+    await logs.append('test-paging', { i: '6' }, { maxLength: 3 })
+    const next = await logs.read('test-paging', { before: page[2].id, count: 3 })
+    assert(next.every(({ fields }) => parseInt(fields.i) < 3), 'Paging repeated newer entries')
+    const server = express().use('/admin/api', adminRouter).listen(2201)
+    try {
+        const url = 'http://localhost:2201/admin/api/reports/anomalies?client=c1&limit=5'
+        const forbidden = await fetch(url)
+        assert(forbidden.status === 403, `Non-403 status without admin token: ${forbidden.status}`)
+        const response = await fetch(url, {
+            headers: { Authorization: `Bearer ${getSettings().adminToken}` },
+        })
+        assert(response.status === 200, `Non-200 status from report query: ${response.status}`)
+        const anomalies = await response.json()
+        assert(anomalies.length === 1 && anomalies[0].message === 'no content', 'Wrong anomalies')
+    } finally {
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+async function testReportAuth() {
+    const session = [cookieMiddleware, sessionMiddleware]
+    const server = express()
+        .use(express.json())
+        .post('/logAnomaly', session, asyncWrapper(logAnomaly))
+        .get('/session/:clientId', session, (req: express.Request, res: express.Response) => {
+            req.session = { clientId: req.params.clientId }
+            res.status(204).send()
+        })
+        .listen(2202)
+    try {
+        const clientId = await createTestClient()
+        const json = { clientId, kind: 'test', message: 'authenticated report' }
+        const anonymous = await fetch('http://localhost:2202/logAnomaly', { method: 'POST', json })
+        assert(anonymous.status === 403, `Non-403 status for anonymous report: ${anonymous.status}`)
+        const noClient = await fetch('http://localhost:2202/logAnomaly', {
+            method: 'POST',
+            json: { kind: 'test', message: 'no client' },
+        })
+        assert(noClient.status === 400, `Non-400 status without a client: ${noClient.status}`)
+        const headers = { Authorization: `Bearer ${await createClientJwt(clientId)}` }
+        const signed = await fetch('http://localhost:2202/logAnomaly', {
+            method: 'POST',
+            headers,
+            json,
+        })
+        assert(signed.status === 204, `Non-204 status for authenticated report: ${signed.status}`)
+        const reports = await queryReports('anomalies', { clientId })
+        assert(reports.length === 1, 'Authenticated report was not saved')
+        // web listeners report with their session, and only as their own client
+        const listenerId = randomUUID()
+        const browser = context()
+        await browser.fetch(`http://localhost:2202/session/${listenerId}`)
+        const post = async (json: object) =>
+            await browser.fetch('http://localhost:2202/logAnomaly', { method: 'POST', json })
+        const listener = await post({ clientId: listenerId, kind: 'test', message: 'web report' })
+        assert(listener.status === 204, `Non-204 status for session report: ${listener.status}`)
+        const other = await post({ clientId, kind: 'test', message: 'impersonated report' })
+        assert(other.status === 403, `Non-403 status for another client's report: ${other.status}`)
+        // each client can only send so many reports a minute
+        let status = 204
+        for (let i = 0; i < 120 && status === 204; i++) {
+            const json = { clientId: listenerId, kind: 'test', message: `report ${i}` }
+            status = (await post(json)).status
+        }
+        assert(status === 429, `Non-429 status for too many reports: ${status}`)
+    } finally {
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+async function testAdminChores() {
+    const server = express().use(express.json()).use('/admin/api', adminRouter).listen(2203)
+    try {
+        const url = 'http://localhost:2203/admin/api/presenceLogging'
+        const headers = {
+            Authorization: `Bearer ${getSettings().adminToken}`,
+            'X-Admin-User': 'tester',
+        }
+        const before = await getPresenceLogging()
+        const json = { enabled: !before, dryRun: true }
+        const response = await fetch(url, { method: 'PUT', headers, json })
+        assert(response.status === 200, `Non-200 status from chore: ${response.status}`)
+        const result = await response.json()
+        assert(result.previous === before && result.enabled === !before, 'Wrong chore result')
+        assert((await getPresenceLogging()) === before, 'Dry run changed presence logging')
+        const invalid = await fetch(url, { method: 'PUT', headers, json: { enabled: 'yes' } })
+        assert(invalid.status === 400, `Non-400 status for invalid setting: ${invalid.status}`)
+        const entries = await getAuditEntries(1)
+        assert(entries.length === 1, 'No audit entry for presence logging chore')
+        const [entry] = entries
+        assert(entry.chore === 'presence-logging', `Wrong chore audited: ${entry.chore}`)
+        assert(entry.actor === 'tester' && entry.dryRun, 'Wrong actor or dry run in audit entry')
+    } finally {
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+async function testDashboard() {
+    const server = express().get('/admin/dashboard', asyncWrapper(adminDashboard)).listen(2204)
+    try {
+        const url = 'http://localhost:2204/admin/dashboard'
+        const anonymous = await fetch(url)
+        assert(anonymous.status === 401, `Non-401 status without a login: ${anonymous.status}`)
+        assert(anonymous.headers.get('www-authenticate'), 'No login challenge for the dashboard')
+        const login = Buffer.from(`support:${getSettings().adminToken}`).toString('base64')
+        const response = await fetch(url, { headers: { Authorization: `Basic ${login}` } })
+        assert(response.status === 200, `Non-200 status from dashboard: ${response.status}`)
+        const html = await response.text()
+        assert(html.includes('Transcription servers'), 'Dashboard has no server section')
+        assert(html.includes('Presence logging is'), 'Dashboard has no presence logging flag')
+    } finally {
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+async function testScan() {
+    const created: string[] = []
+    for (let i = 0; i < 25; i++) {
+        created.push(await createTestClient())
+    }
+    const progress: number[] = []
+    const ids: Set<string> = new Set()
+    const onProgress = (scanned: number) => progress.push(scanned)
+    for await (const batch of getStorage().clients.scan({ count: 10, onProgress })) {
+        batch.forEach(({ id }) => ids.add(id))
+    }
+    assert(created.every((id) => ids.has(id)), `Scan found only ${ids.size} clients`)
+    // the progress counts every object returned, including any repeats
+    assert(progress[progress.length - 1] >= ids.size, `Scan progress ended at ${progress.pop()}`)
+}
+
+async function testIndexes() {
+    const unlaunched = await createTestClient()
+    const launched = await createTestClient()
+    await setClientData({ id: launched, lastLaunch: Date.now() })
+    const recent = await findInIndex('cli-lastLaunch', Date.now() - 60000, Infinity)
+    assert(recent.includes(launched), 'Launched client is not indexed by its launch')
+    assert(!recent.includes(unlaunched), 'Unlaunched client is indexed as recent')
+    const options = { actor: 'tester', dryRun: true }
+    const { clientIds } = await removeUnusedClients(Date.now() - 60000, options)
+    assert(clientIds.includes(unlaunched), 'Unlaunched client is not unused')
+    assert(!clientIds.includes(launched), 'Launched client is unused')
+    // re-saving a client without a launch must not lose its launch time
+    await setClientData({ id: launched, secretDate: Date.now() })
+    const again = await findInIndex('cli-lastLaunch', Date.now() - 60000, Infinity)
+    assert(again.includes(launched), 'Client lost its launch time in the index')
+    // the dashboard's pushes are read newest first from the index
+    const now = Date.now()
+    const older = { id: randomUUID(), clientKey: 'test-client', status: 200, sentTime: now + 1000 }
+    const newer = { id: randomUUID(), clientKey: 'test-client', status: 200, sentTime: now + 2000 }
+    await setApnsRequestData(newer)
+    await setApnsRequestData(older)
+    const pushes = await getRecentApnsRequests(2)
+    const ids = pushes.map(({ id }) => id)
+    assert(ids.join() === `${newer.id},${older.id}`, `Pushes are out of order: ${ids}`)
+}
+
+async function testMigrations() {
+    // the runner works the same with every storage, even with nothing to migrate
+    const schema = getStorage().schema
+    await schema.setVersion(0)
+    assert(await schema.lock('another-server', 60), 'Could not take the migration lock')
+    assert((await migrateSchema()) === undefined, 'Migrated without the lock')
+    await schema.unlock('another-server')
+    if (getStorage().name === 'redis') {
+        await testRedisMigrations()
+    }
+    const result = await migrateSchema()
+    assert(result?.to === latestSchemaVersion, `Schema migrated to ${result?.to}`)
+    assert(result.results.length === latestSchemaVersion, 'Not every migration ran')
+    assert(await schema.lock('another-server', 60), 'Migration kept its lock')
+    await schema.unlock('another-server')
+    const again = await migrateSchema()
+    assert(again?.results.length === 0, 'Migrations ran again once schema was current')
+}
+
+// only Redis has data in older formats
+async function testRedisMigrations() {
+    const rc = await getDbClient()
+    const profileId = randomUUID()
+    const clientId = randomUUID()
+    const transcriptId = randomUUID()
+    await rc.hSet(`t:tra:${transcriptId}`, { id: transcriptId, startTime: `${Date.now()}` })
+    await rc.hSet(`t:pro:${profileId}`, { id: profileId, name: 'Legacy Profile' })
+    await rc.hSet(`t:cli:${clientId}`, { id: clientId, profileId })
+    const dryRun = await migrateSchema(true)
+    assert(dryRun && dryRun.to === 0, 'Dry run changed the schema version')
+    assert(dryRun.results.every(({ changed }) => changed >= 1), 'Dry run missed legacy objects')
+    assert(!(await rc.hGet(`t:pro:${profileId}`, 'settingsVersion')), 'Dry run changed data')
+    // another server takes the lock (after it expires) while the first migration runs
+    const onProgress = () => void rc.set('t:schema-lock', 'another-server')
+    const lost = await migrateSchema(false, { onProgress }).catch((err: Error) => err)
+    assert(lost instanceof Error, 'Migration continued after losing its lock')
+    assert((await getStorage().schema.getVersion()) === 0, 'Lost migration recorded its version')
+    await rc.del('t:schema-lock')
+    const result = await migrateSchema()
+    assert(result?.to === latestSchemaVersion, `Schema migrated to ${result?.to}`)
+    assert(await rc.hGet(`t:tra:${transcriptId}`, 'tzId'), 'Transcript not migrated')
+    assert((await rc.hGet(`t:pro:${profileId}`, 'settingsVersion')) === '1', 'Profile not migrated')
+    assert((await rc.hGet(`t:cli:${clientId}`, 'userName')) === 'Legacy Profile', 'No user name')
+    assert(await rc.sIsMember(`t:pro-clients:${profileId}`, clientId), 'Client not in profile')
+    await getStorage().schema.setVersion(0)
+}
+
 async function deleteTestKeys() {
+    if (getStorage().name !== 'redis') {
+        return
+    }
     const rc = await getDbClient()
-    const keys = await rc.keys('t:*')
-    if (keys.length) {
+    for await (const keys of scanKeys('t:*')) {
         await rc.del(keys)
     }
 }
 
 async function test0(...tests: string[]) {
     if (tests.length == 0) {
-        tests = ['jwt', 'apns']
+        tests = [
+            'jwt',
+            'apns',
+            'transport',
+            'logger',
+            'metrics',
+            'health',
+            'reports',
+            'admin',
+            'scan',
+            'indexes',
+            'migrations',
+        ]
     }
     if (tests.includes('jwt')) {
         await testJwt()
@@ -122,6 +566,36 @@ async function test0(...tests: string[]) {
     if (tests.includes('apns')) {
         await testApns()
     }
+    if (tests.includes('transport')) {
+        await testLocalTransport()
+        await testWebSocketTransport()
+    }
+    if (tests.includes('logger')) {
+        await testLogger()
+    }
+    if (tests.includes('metrics')) {
+        await testMetrics()
+    }
+    if (tests.includes('health')) {
+        await testHealth()
+    }
+    if (tests.includes('reports')) {
+        await testReports()
+        await testReportAuth()
+    }
+    if (tests.includes('admin')) {
+        await testAdminChores()
+        await testDashboard()
+    }
+    if (tests.includes('scan')) {
+        await testScan()
+    }
+    if (tests.includes('indexes')) {
+        await testIndexes()
+    }
+    if (tests.includes('migrations')) {
+        await testMigrations()
+    }
 }
 
 async function testAll(...tests: string[]) {
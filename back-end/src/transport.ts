@@ -0,0 +1,96 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Realtime transport design note:
+
+Whisperers and listeners exchange chunks over channels provided by a realtime
+transport.  The server uses the transport in two ways: it issues the tokens
+that let clients use the channels of a conversation, and it connects to those
+channels itself in order to transcribe them.  The transport is chosen by the
+server's settings: Ably is used in production, a WebSocket transport served by
+the server itself is used where conversations can't go through a third party,
+and an in-process transport (which only the server itself can connect to) is
+used for local development and tests.
+ */
+
+import { Server } from 'node:http'
+
+import { getSettings } from './settings.js'
+import { createAblyTransport } from './transports/ably.js'
+import { createLocalTransport } from './transports/local.js'
+import { createWebSocketTransport } from './transports/websocket.js'
+
+export interface TransportMessage {
+    id: string
+    name?: string
+    clientId?: string
+    data: string
+    timestamp: number
+}
+
+export type TransportListener = (message: TransportMessage) => void
+
+// capabilities are lists of operations (publish, subscribe, presence) keyed by channel name
+export type TransportCapabilities = { [channel: string]: string[] }
+
+// clients use token requests to authenticate with the transport
+export interface TokenRequest {
+    keyName: string
+    clientId?: string
+    capability: string
+    timestamp: number
+    nonce: string
+    mac?: string
+}
+
+export interface ChannelOptions {
+    // how far back to replay messages on subscribe, e.g. '2m' or '100' (messages)
+    rewind?: string
+}
+
+export interface TransportChannel {
+    name: string
+    // only messages with the given name are received, if a name is given
+    subscribe(listener: TransportListener, name?: string): Promise<void>
+    unsubscribe(): void
+    publish(data: string, name?: string): Promise<void>
+    // the client IDs present on the channel, optionally limited to the given client
+    presentClients(clientId?: string): Promise<string[]>
+    detach(): Promise<void>
+}
+
+export interface TransportConnection {
+    clientId: string
+    channel(name: string, options?: ChannelOptions): TransportChannel
+    isClosed(): boolean
+    close(): void
+}
+
+export interface RealtimeTransport {
+    name: string
+    createTokenRequest(clientId: string, capabilities: TransportCapabilities): Promise<TokenRequest>
+    connect(clientId: string): TransportConnection
+    // transports that clients connect to through this server attach to its webserver
+    attachServer?(server: Server): void
+}
+
+let loadedTransport: RealtimeTransport | undefined
+
+export function getTransport() {
+    if (loadedTransport) {
+        return loadedTransport
+    }
+    const config = getSettings()
+    if (config.realtimeTransport === 'ably') {
+        loadedTransport = createAblyTransport(config.ablyPublishKey)
+    } else if (config.realtimeTransport === 'local') {
+        loadedTransport = createLocalTransport()
+    } else if (config.realtimeTransport === 'websocket') {
+        loadedTransport = createWebSocketTransport()
+    } else {
+        throw Error(`Unknown realtime transport: ${config.realtimeTransport}`)
+    }
+    return loadedTransport
+}
@@ -0,0 +1,88 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+import * as Ably from 'ably/promises.js'
+
+import {
+    ChannelOptions,
+    RealtimeTransport,
+    TokenRequest,
+    TransportCapabilities,
+    TransportChannel,
+    TransportConnection,
+    TransportListener,
+    TransportMessage,
+} from '../transport.js'
+
+export function createAblyTransport(key: string): RealtimeTransport {
+    const rest = new Ably.Rest({ key })
+    return {
+        name: 'ably',
+        async createTokenRequest(clientId: string, capabilities: TransportCapabilities) {
+            const tokenParams = {
+                clientId,
+                capability: JSON.stringify(capabilities),
+            }
+            const tokenRequest: TokenRequest = await rest.auth.createTokenRequest(tokenParams)
+            return tokenRequest
+        },
+        connect(clientId: string) {
+            return ablyConnection(new Ably.Realtime({ clientId, key }), clientId)
+        },
+    }
+}
+
+function ablyConnection(ably: Ably.Realtime, clientId: string): TransportConnection {
+    return {
+        clientId,
+        channel(name: string, options?: ChannelOptions) {
+            const params = options?.rewind ? { rewind: options.rewind } : undefined
+            const channel = params ? ably.channels.get(name, { params }) : ably.channels.get(name)
+            return ablyChannel(channel)
+        },
+        isClosed() {
+            return ably.connection.state === 'disconnected' || ably.connection.state === 'closed'
+        },
+        close() {
+            ably.close()
+        },
+    }
+}
+
+function ablyChannel(channel: Ably.Types.RealtimeChannelPromise): TransportChannel {
+    return {
+        name: channel.name,
+        async subscribe(listener: TransportListener, name?: string) {
+            const received = (message: Ably.Types.Message) => listener(transportMessage(message))
+            if (name) {
+                await channel.subscribe(name, received)
+            } else {
+                await channel.subscribe(received)
+            }
+        },
+        unsubscribe() {
+            channel.unsubscribe()
+        },
+        async publish(data: string, name: string = 'all') {
+            await channel.publish(name, data)
+        },
+        async presentClients(clientId?: string) {
+            const members = await channel.presence.get(clientId ? { clientId } : {})
+            return members.map((member) => member.clientId)
+        },
+        async detach() {
+            await channel.detach()
+        },
+    }
+}
+
+function transportMessage(message: Ably.Types.Message): TransportMessage {
+    return {
+        id: message.id,
+        name: message.name,
+        clientId: message.clientId,
+        data: message.data,
+        timestamp: message.timestamp,
+    }
+}
@@ -0,0 +1,183 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+The local transport delivers messages between the connections made in this
+process, so it needs no external service.  Each channel keeps its recent
+messages so that connections can rewind it, and tracks which clients are
+present on it: a client is present on a channel from the time it publishes
+to the channel (or enters it explicitly) until it leaves or disconnects.
+ */
+
+import { randomBytes, randomUUID } from 'crypto'
+
+import {
+    ChannelOptions,
+    RealtimeTransport,
+    TransportCapabilities,
+    TransportChannel,
+    TransportConnection,
+    TransportListener,
+    TransportMessage,
+} from '../transport.js'
+
+interface Subscription {
+    connectionId: string
+    listener: TransportListener
+    name?: string
+}
+
+interface LocalChannel {
+    subscriptions: Subscription[]
+    present: Set<string>
+    history: TransportMessage[]
+}
+
+// limits on what's kept for rewinding, which match Ably's
+const maxRewindMessages = 100
+const maxRewindMs = 2 * 60 * 1000
+
+export interface LocalTransport extends RealtimeTransport {
+    enterPresence(channelName: string, clientId: string): void
+    leavePresence(channelName: string, clientId: string): void
+}
+
+export function createLocalTransport(): LocalTransport {
+    const channels: Map<string, LocalChannel> = new Map()
+    const getChannel = (name: string) => {
+        let channel = channels.get(name)
+        if (!channel) {
+            channel = { subscriptions: [], present: new Set(), history: [] }
+            channels.set(name, channel)
+        }
+        return channel
+    }
+    return {
+        name: 'local',
+        async createTokenRequest(clientId: string, capabilities: TransportCapabilities) {
+            return {
+                keyName: 'local',
+                clientId,
+                capability: JSON.stringify(capabilities),
+                timestamp: Date.now(),
+                nonce: randomBytes(16).toString('hex'),
+            }
+        },
+        connect(clientId: string) {
+            return localConnection(getChannel, clientId)
+        },
+        enterPresence(channelName: string, clientId: string) {
+            getChannel(channelName).present.add(clientId)
+        },
+        leavePresence(channelName: string, clientId: string) {
+            getChannel(channelName).present.delete(clientId)
+        },
+    }
+}
+
+function localConnection(
+    getChannel: (name: string) => LocalChannel,
+    clientId: string,
+): TransportConnection {
+    const connectionId = randomUUID()
+    const attached: Set<string> = new Set()
+    let closed = false
+    const detach = (name: string) => {
+        const channel = getChannel(name)
+        channel.subscriptions = channel.subscriptions.filter((s) => s.connectionId !== connectionId)
+        channel.present.delete(clientId)
+        attached.delete(name)
+    }
+    return {
+        clientId,
+        channel(name: string, options?: ChannelOptions) {
+            return localChannel(name, options, () => {
+                if (closed) {
+                    throw Error(`Connection for ${clientId} is closed`)
+                }
+                attached.add(name)
+                return getChannel(name)
+            })
+        },
+        isClosed() {
+            return closed
+        },
+        close() {
+            for (const name of [...attached]) {
+                detach(name)
+            }
+            closed = true
+        },
+    }
+
+    function localChannel(
+        name: string,
+        options: ChannelOptions | undefined,
+        attach: () => LocalChannel,
+    ): TransportChannel {
+        return {
+            name,
+            async subscribe(listener: TransportListener, messageName?: string) {
+                const channel = attach()
+                channel.subscriptions.push({ connectionId, listener, name: messageName })
+                for (const message of rewoundMessages(channel.history, options?.rewind)) {
+                    if (!messageName || message.name === messageName) {
+                        listener(message)
+                    }
+                }
+            },
+            unsubscribe() {
+                const channel = getChannel(name)
+                channel.subscriptions = channel.subscriptions.filter(
+                    (s) => s.connectionId !== connectionId,
+                )
+            },
+            async publish(data: string, messageName: string = 'all') {
+                const channel = attach()
+                channel.present.add(clientId)
+                const message = {
+                    id: randomUUID(),
+                    name: messageName,
+                    clientId,
+                    data,
+                    timestamp: Date.now(),
+                }
+                channel.history.push(message)
+                const cutoff = Date.now() - maxRewindMs
+                while (
+                    channel.history.length > maxRewindMessages ||
+                    channel.history[0].timestamp < cutoff
+                ) {
+                    channel.history.shift()
+                }
+                for (const subscription of [...channel.subscriptions]) {
+                    if (!subscription.name || subscription.name === messageName) {
+                        subscription.listener(message)
+                    }
+                }
+            },
+            async presentClients(presentId?: string) {
+                const present = [...getChannel(name).present]
+                return presentId ? present.filter((id) => id === presentId) : present
+            },
+            async detach() {
+                detach(name)
+            },
+        }
+    }
+}
+
+// a rewind is either a duration in seconds or minutes (e.g. '30s' or '2m') or a message count
+export function rewoundMessages(history: TransportMessage[], rewind: string | undefined) {
+    const match = rewind?.match(/^(\d+)([sm]?)$/)
+    if (!match) {
+        return []
+    }
+    const amount = parseInt(match[1])
+    if (!match[2]) {
+        return history.slice(-amount)
+    }
+    const cutoff = Date.now() - amount * (match[2] === 'm' ? 60 * 1000 : 1000)
+    return history.filter((message) => message.timestamp >= cutoff)
+}
@@ -0,0 +1,504 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+WebSocket transport design note:
+
+The WebSocket transport lets the server carry conversations itself, so no
+conversation text passes through a third-party service.  Clients get token
+requests from the same endpoints as they do with Ably, but these are signed
+with the server's session keys.  A client opens a WebSocket to /realtime,
+sends its token request in an auth frame, and then attaches to, publishes on,
+and enters the presence of the channels its token request's capability allows,
+using the same channel names (and wildcards) as Ably.
+
+Every frame is a JSON object with an action field.  Clients send:
+
+- auth (tokenRequest) - authenticate the connection, which must be done first;
+  each token request can only be used once
+- attach (channel, rewind?) - start receiving the channel's messages
+- detach (channel) - stop receiving the channel's messages
+- publish (channel, name, data) - send a message on the channel
+- enter, update, leave (channel, status?) - change the client's presence on the channel
+- presence (channel, requestId) - ask which clients are present on the channel
+
+and the server sends:
+
+- connected (clientId, connectionId) - the connection is authenticated
+- attached (channel) - the client is attached to the channel
+- message (channel, message) - a message sent on the channel
+- presence (requestId, clients) - the clients present on the channel
+- error (reason, channel?) - a request was refused
+
+The server handles each connection's frames one at a time, in the order they
+arrive, and closes the connection if it fails to handle one.
+
+Because the clients of a conversation may be connected to different servers,
+messages are fanned out through the storage's channels: every message is
+published on the storage channel named for its transport channel, and each
+server listens to the storage channels for the transport channels its
+clients are attached to.  The storage also keeps the recent messages on each
+channel, so clients can rewind, and the clients present on each channel,
+whose presence expires if it's not refreshed.  With Redis storage, servers
+share all of this; with memory storage, there's only one server.
+ */
+
+import { Server } from 'node:http'
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { RawData, WebSocket, WebSocketServer } from 'ws'
+
+import { getSessionKeys } from '../db.js'
+import { getStorage } from '../storage.js'
+import { logger } from '../logger.js'
+import {
+    ChannelOptions,
+    RealtimeTransport,
+    TokenRequest,
+    TransportCapabilities,
+    TransportChannel,
+    TransportConnection,
+    TransportListener,
+    TransportMessage,
+} from '../transport.js'
+import { rewoundMessages } from './local.js'
+
+// fanned out messages also carry the ID of the connection that sent them
+type FanOutListener = (message: TransportMessage, from: string) => void
+
+interface ChannelListener {
+    connectionId: string
+    listener: FanOutListener
+    name?: string
+}
+
+interface FannedMessage extends TransportMessage {
+    connectionId: string
+}
+
+// token requests are good for an hour, like Ably's
+const tokenRequestTtlMs = 60 * 60 * 1000
+// limits on what's kept for rewinding, which match Ably's
+const rewindHistory = { maxCount: 100, ttlSec: 2 * 60 }
+// presence is refreshed while a client stays connected
+const presenceTtlSec = 5 * 60
+const presenceRefreshMs = 60 * 1000
+
+const channelListeners: Map<string, ChannelListener[]> = new Map()
+
+export function createWebSocketTransport(): RealtimeTransport {
+    return {
+        name: 'websocket',
+        async createTokenRequest(clientId: string, capabilities: TransportCapabilities) {
+            const [key] = await getSessionKeys()
+            const unsigned = {
+                keyName: 'websocket',
+                clientId,
+                capability: JSON.stringify(capabilities),
+                timestamp: Date.now(),
+                nonce: randomBytes(16).toString('hex'),
+            }
+            return { ...unsigned, mac: tokenRequestMac(unsigned, key) }
+        },
+        connect(clientId: string) {
+            return serverConnection(clientId)
+        },
+        attachServer(server: Server) {
+            attachWebSocketServer(server)
+        },
+    }
+}
+
+function tokenRequestMac(tokenRequest: TokenRequest, key: string) {
+    const { clientId, capability, timestamp, nonce } = tokenRequest
+    return createHmac('sha256', Buffer.from(key, 'hex'))
+        .update(`${clientId}\n${capability}\n${timestamp}\n${nonce}`)
+        .digest('base64')
+}
+
+export async function validateTokenRequest(tokenRequest: TokenRequest) {
+    if (!tokenRequest?.clientId || !tokenRequest?.mac || !tokenRequest?.capability) {
+        return false
+    }
+    if (Date.now() - tokenRequest.timestamp > tokenRequestTtlMs) {
+        logger.warn('Expired token request', { clientId: tokenRequest.clientId })
+        return false
+    }
+    const received = Buffer.from(tokenRequest.mac)
+    // session keys rotate, so the token request may have been signed with an older one
+    for (const key of await getSessionKeys()) {
+        const expected = Buffer.from(tokenRequestMac(tokenRequest, key))
+        if (expected.length === received.length && timingSafeEqual(expected, received)) {
+            return true
+        }
+    }
+    logger.warn('Invalid token request signature', { clientId: tokenRequest.clientId })
+    return false
+}
+
+// wildcard channel names end in '*', and match any channel name with the same prefix
+export function capabilityAllows(
+    capabilities: TransportCapabilities,
+    channel: string,
+    operation: string,
+) {
+    for (const [name, operations] of Object.entries(capabilities)) {
+        const matches = name.endsWith('*')
+            ? channel.startsWith(name.substring(0, name.length - 1))
+            : channel === name
+        if (matches && (operations.includes(operation) || operations.includes('*'))) {
+            return true
+        }
+    }
+    return false
+}
+
+async function addChannelListener(channel: string, listener: ChannelListener) {
+    const listeners = channelListeners.get(channel)
+    if (listeners) {
+        listeners.push(listener)
+        return
+    }
+    channelListeners.set(channel, [listener])
+    await getStorage().channels.listen(channel, (data) => deliverMessage(channel, JSON.parse(data)))
+}
+
+async function removeChannelListeners(channel: string, connectionId: string) {
+    const listeners = channelListeners.get(channel)
+    if (!listeners) {
+        return
+    }
+    const remaining = listeners.filter((l) => l.connectionId !== connectionId)
+    if (remaining.length > 0) {
+        channelListeners.set(channel, remaining)
+        return
+    }
+    channelListeners.delete(channel)
+    await getStorage().channels.unlisten(channel)
+}
+
+function deliverMessage(channel: string, message: FannedMessage) {
+    const { connectionId, ...received } = message
+    for (const listener of channelListeners.get(channel) || []) {
+        if (listener.name && listener.name !== received.name) {
+            continue
+        }
+        listener.listener(received, connectionId)
+    }
+}
+
+async function publishMessage(channel: string, message: FannedMessage) {
+    await getStorage().channels.publish(channel, JSON.stringify(message), rewindHistory)
+}
+
+async function channelHistory(channel: string, rewind: string | undefined) {
+    if (!rewind) {
+        return []
+    }
+    const saved = await getStorage().channels.getHistory(channel)
+    const history: TransportMessage[] = saved.map((s) => {
+        const { connectionId: _, ...message }: FannedMessage = JSON.parse(s)
+        return message
+    })
+    return rewoundMessages(history, rewind)
+}
+
+async function setPresence(channel: string, clientId: string, status: string | undefined) {
+    const channels = getStorage().channels
+    if (status === undefined) {
+        await channels.removePresence(channel, clientId)
+    } else {
+        await channels.setPresence(channel, clientId, status, presenceTtlSec)
+    }
+}
+
+async function presentClients(channel: string, clientId?: string) {
+    const present = await getStorage().channels.getPresentClients(channel)
+    return clientId ? present.filter((id) => id === clientId) : present
+}
+
+// connections made by the server itself, such as the transcriber's
+function serverConnection(clientId: string): TransportConnection {
+    const connectionId = randomUUID()
+    const attached: Set<string> = new Set()
+    let closed = false
+    return {
+        clientId,
+        channel(name: string, options?: ChannelOptions): TransportChannel {
+            return {
+                name,
+                async subscribe(listener: TransportListener, messageName?: string) {
+                    attached.add(name)
+                    for (const message of await channelHistory(name, options?.rewind)) {
+                        if (!messageName || message.name === messageName) {
+                            listener(message)
+                        }
+                    }
+                    await addChannelListener(name, { connectionId, listener, name: messageName })
+                },
+                unsubscribe() {
+                    removeChannelListeners(name, connectionId).catch((err) => {
+                        logger.error('Failed to unsubscribe from channel', { name, error: err })
+                    })
+                },
+                async publish(data: string, messageName: string = 'all') {
+                    await publishMessage(name, {
+                        id: randomUUID(),
+                        name: messageName,
+                        clientId,
+                        data,
+                        timestamp: Date.now(),
+                        connectionId,
+                    })
+                },
+                async presentClients(presentId?: string) {
+                    return await presentClients(name, presentId)
+                },
+                async detach() {
+                    attached.delete(name)
+                    await removeChannelListeners(name, connectionId)
+                },
+            }
+        },
+        isClosed() {
+            return closed
+        },
+        close() {
+            for (const name of attached) {
+                removeChannelListeners(name, connectionId).catch((err) => {
+                    logger.error('Failed to detach from channel', { name, error: err })
+                })
+            }
+            attached.clear()
+            closed = true
+        },
+    }
+}
+
+interface ClientFrame {
+    action?: string
+    channel?: string
+    tokenRequest?: TokenRequest
+    rewind?: string
+    name?: string
+    data?: string
+    status?: string
+    requestId?: string
+}
+
+interface ClientState {
+    clientId: string
+    connectionId: string
+    capabilities: TransportCapabilities
+    attached: Set<string>
+    present: Map<string, string>
+}
+
+function attachWebSocketServer(server: Server) {
+    const wss = new WebSocketServer({ noServer: true })
+    server.on('upgrade', (req, socket, head) => {
+        if (req.url?.split('?')[0] !== '/realtime') {
+            socket.destroy()
+            return
+        }
+        wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req))
+    })
+    wss.on('connection', (ws: WebSocket) => {
+        let state: ClientState | undefined = undefined
+        // frames are handled in order, so no frame is handled before the auth frame is done
+        let handled: Promise<void> = Promise.resolve()
+        const send = (frame: object) => ws.send(JSON.stringify(frame))
+        const refresh = setInterval(() => {
+            for (const [channel, status] of state?.present || []) {
+                setPresence(channel, state!.clientId, status).catch((err) => {
+                    logger.error('Failed to refresh realtime presence', { channel, error: err })
+                })
+            }
+        }, presenceRefreshMs)
+        const receive = async (raw: RawData) => {
+            let frame: ClientFrame
+            try {
+                frame = JSON.parse(raw.toString())
+            } catch (err) {
+                send({ action: 'error', reason: 'Frames must be JSON' })
+                return
+            }
+            if (!state) {
+                state = await authenticateClient(frame)
+                if (state) {
+                    const { clientId, connectionId } = state
+                    send({ action: 'connected', clientId, connectionId })
+                } else {
+                    send({ action: 'error', reason: 'Invalid authorization' })
+                    ws.close()
+                }
+                return
+            }
+            await handleClientFrame(state, frame, send)
+        }
+        const cleanUp = async () => {
+            clearInterval(refresh)
+            if (!state) {
+                return
+            }
+            for (const channel of state.attached) {
+                await removeChannelListeners(channel, state.connectionId)
+            }
+            for (const channel of state.present.keys()) {
+                await setPresence(channel, state.clientId, undefined)
+            }
+        }
+        ws.on('message', (raw) => {
+            handled = handled.then(() => receive(raw)).catch((err) => {
+                logger.error('Failed to handle realtime frame', {
+                    clientId: state?.clientId,
+                    error: err,
+                })
+                ws.close()
+            })
+        })
+        ws.on('close', () => {
+            handled = handled.then(cleanUp).catch((err) => {
+                logger.error('Failed to clean up realtime connection', {
+                    clientId: state?.clientId,
+                    error: err,
+                })
+            })
+        })
+    })
+    logger.info('Realtime WebSocket server is accepting connections', { path: '/realtime' })
+}
+
+async function authenticateClient(frame: ClientFrame) {
+    const tokenRequest = frame?.tokenRequest
+    if (frame?.action !== 'auth' || !tokenRequest || !(await validateTokenRequest(tokenRequest))) {
+        return undefined
+    }
+    // remember the nonce for as long as the token request is good, so it can't be replayed
+    const clientId = tokenRequest.clientId!
+    const ttlSec = Math.ceil((tokenRequest.timestamp + tokenRequestTtlMs - Date.now()) / 1000)
+    const marker = `wsn:${tokenRequest.nonce}`
+    if (await getStorage().sessions.setMarker(marker, clientId, Math.max(ttlSec, 1))) {
+        logger.warn('Replayed token request', { clientId })
+        return undefined
+    }
+    const state: ClientState = {
+        clientId,
+        connectionId: randomUUID(),
+        capabilities: JSON.parse(tokenRequest.capability),
+        attached: new Set(),
+        present: new Map(),
+    }
+    return state
+}
+
+// live messages wait until the rewound ones have been sent, and any that were also
+// rewound are dropped, so the client gets each message once and in order
+async function attachChannel(
+    state: ClientState,
+    channel: string,
+    rewind: string | undefined,
+    send: (frame: object) => void,
+) {
+    let held: TransportMessage[] | undefined
+    if (!state.attached.has(channel)) {
+        state.attached.add(channel)
+        held = []
+        // clients don't receive the messages they send
+        const listener = (message: TransportMessage, from: string) => {
+            if (from === state.connectionId) {
+                return
+            }
+            if (held) {
+                held.push(message)
+            } else {
+                send({ action: 'message', channel, message })
+            }
+        }
+        await addChannelListener(channel, { connectionId: state.connectionId, listener })
+    }
+    send({ action: 'attached', channel })
+    const history = await channelHistory(channel, rewind)
+    for (const message of history) {
+        send({ action: 'message', channel, message })
+    }
+    const rewound = new Set(history.map((message) => message.id))
+    for (const message of held || []) {
+        if (!rewound.has(message.id)) {
+            send({ action: 'message', channel, message })
+        }
+    }
+    held = undefined
+}
+
+// the capability operation that each client action needs; detaching needs none
+const actionOperations: Map<string, string | undefined> = new Map([
+    ['attach', 'subscribe'],
+    ['detach', undefined],
+    ['publish', 'publish'],
+    ['enter', 'presence'],
+    ['update', 'presence'],
+    ['leave', 'presence'],
+    ['presence', 'presence'],
+])
+
+async function handleClientFrame(
+    state: ClientState,
+    frame: ClientFrame,
+    send: (frame: object) => void,
+) {
+    const { action, channel } = frame
+    if (!action || !actionOperations.has(action)) {
+        send({ action: 'error', reason: `Unknown action: ${action}` })
+        return
+    }
+    if (typeof channel !== 'string') {
+        send({ action: 'error', reason: `No channel for ${action}` })
+        return
+    }
+    const operation = actionOperations.get(action)
+    if (operation && !capabilityAllows(state.capabilities, channel, operation)) {
+        logger.warn('Client is not allowed to use channel', {
+            clientId: state.clientId,
+            action,
+            channel,
+        })
+        send({ action: 'error', reason: `Not allowed to ${action}`, channel })
+        return
+    }
+    switch (action) {
+        case 'attach':
+            await attachChannel(state, channel, frame.rewind, send)
+            break
+        case 'detach':
+            state.attached.delete(channel)
+            await removeChannelListeners(channel, state.connectionId)
+            break
+        case 'publish':
+            await publishMessage(channel, {
+                id: randomUUID(),
+                name: frame.name || 'all',
+                clientId: state.clientId,
+                data: `${frame.data}`,
+                timestamp: Date.now(),
+                connectionId: state.connectionId,
+            })
+            break
+        case 'enter':
+        case 'update':
+            state.present.set(channel, `${frame.status ?? ''}`)
+            await setPresence(channel, state.clientId, `${frame.status ?? ''}`)
+            break
+        case 'leave':
+            state.present.delete(channel)
+            await setPresence(channel, state.clientId, undefined)
+            break
+        case 'presence':
+            send({
+                action: 'presence',
+                requestId: frame.requestId,
+                clients: await presentClients(channel),
+            })
+            break
+    }
+}
@@ -1,29 +1,16 @@
 // Copyright 2023-2024 Daniel C. Brotsky. All rights reserved.
 // Licensed under the GNU Affero General Public License v3.
 // See the LICENSE file for details.
-import { getSettings } from '../settings.js'
-import * as Ably from 'ably/promises.js'
+import { getTransport, TransportCapabilities } from '../transport.js'
 
-export async function createAblyPublishTokenRequest(clientId: string) {
-    const config = getSettings()
-    const ably = new Ably.Rest({ key: config.ablyPublishKey })
-    const tokenCaps = {}
+export async function createPublishTokenRequest(clientId: string) {
+    const tokenCaps: TransportCapabilities = {}
     tokenCaps[`${clientId}:whisper`] = ['publish', 'subscribe', 'presence']
-    const tokenParams = {
-        clientId,
-        capability: JSON.stringify(tokenCaps),
-    }
-    return await ably.auth.createTokenRequest(tokenParams)
+    return await getTransport().createTokenRequest(clientId, tokenCaps)
 }
 
-export async function createAblySubscribeTokenRequest(clientId: string, publisherId: string) {
-    const config = getSettings()
-    const ably = new Ably.Rest({ key: config.ablyPublishKey })
-    const tokenCaps = {}
+export async function createSubscribeTokenRequest(clientId: string, publisherId: string) {
+    const tokenCaps: TransportCapabilities = {}
     tokenCaps[`${publisherId}:whisper`] = ['publish', 'subscribe', 'presence']
-    const tokenParams = {
-        clientId,
-        capability: JSON.stringify(tokenCaps),
-    }
-    return await ably.auth.createTokenRequest(tokenParams)
+    return await getTransport().createTokenRequest(clientId, tokenCaps)
 }
@@ -5,47 +5,51 @@
 import express from 'express'
 import { randomUUID } from 'crypto'
 
-import { createAblyPublishTokenRequest, createAblySubscribeTokenRequest } from './auth.js'
+import { createPublishTokenRequest, createSubscribeTokenRequest } from './auth.js'
 import { subscribeResponse } from './templates.js'
 import { ClientData, getClientData, setClientData } from '../client.js'
 import { validateClientAuth } from '../auth.js'
+import { logger } from '../logger.js'
+import { tokenRequests } from '../metrics.js'
 
 export async function pubSubTokenRequest(req: express.Request, res: express.Response) {
     const body: { [p: string]: string } = req.body
     if (!body?.clientId || !body?.activity || !body?.publisherId) {
-        console.log(`Missing key in pub-sub token request body: ${JSON.stringify(body)}`)
+        logger.warn('Missing key in pub-sub token request body', { keys: Object.keys(body || {}) })
         res.status(400).send({ status: 'error', reason: 'Invalid post data' })
         return
     }
     const { clientId, activity, publisherId } = body
-    console.log(`Token request received from client ${clientId}`)
+    logger.info('Token request received', { clientId, activity, publisherId })
     if (!await validateClientAuth(req, res, clientId)) return
     const existing = await getClientData(clientId)
     if (body?.userName && body.userName !== existing?.userName) {
-        console.log(`Updating username from request`)
+        logger.info('Updating username from request', { clientId, userName: body.userName })
         const update: ClientData = { id: clientId, userName: body?.userName }
         await setClientData(update)
     }
     if (activity.toLowerCase() == 'publish') {
         if (clientId !== publisherId) {
-            console.log(`Publishing as someone else is not allowed: ${JSON.stringify(body)}`)
+            logger.warn('Publishing as someone else is not allowed', { clientId, publisherId })
             res.status(400).send({ status: 'error', reason: 'Impersonation is not allowed' })
             return
         }
-        const tokenRequest = await createAblyPublishTokenRequest(clientId)
-        console.log(`Issued publish token request to client ${clientId}`)
+        const tokenRequest = await createPublishTokenRequest(clientId)
+        tokenRequests.inc({ api: 'v1', activity: 'publish' })
+        logger.info('Issued publish token request', { clientId })
         res.status(200).send({ status: 'success', tokenRequest: JSON.stringify(tokenRequest) })
     } else if (activity.toLowerCase() == 'subscribe') {
         if (clientId === publisherId) {
-            console.log(`Self-publishing is not allowed: ${JSON.stringify(body)}`)
+            logger.warn('Self-publishing is not allowed', { clientId, publisherId })
             res.status(400).send({ status: 'error', reason: 'Self-publishing is not allowed' })
             return
         }
-        const tokenRequest = await createAblySubscribeTokenRequest(clientId, publisherId)
-        console.log(`Issued subscribe token request to client ${clientId}`)
+        const tokenRequest = await createSubscribeTokenRequest(clientId, publisherId)
+        tokenRequests.inc({ api: 'v1', activity: 'subscribe' })
+        logger.info('Issued subscribe token request', { clientId, publisherId })
         res.status(200).send({ status: 'success', tokenRequest: JSON.stringify(tokenRequest) })
     } else {
-        console.log(`Publish and Subscribe are the only allowed activities: ${JSON.stringify(body)}`)
+        logger.warn('Publish and Subscribe are the only allowed activities', { clientId, activity })
         res.status(400).send({ status: 'error', reason: 'Invalid activity' })
         return
     }
@@ -73,9 +77,9 @@ export async function subscribeToPublisher(req: express.Request, res: express.Re
     let clientId = req?.session?.clientId
     if (!clientId) {
         clientId = randomUUID().toUpperCase()
-        console.log(`Making new web client: ${clientId}`)
+        logger.info('Making new web client', { clientId })
     }
-    console.log(`Issuing listen page for publisher ${publisherId} to client ${clientId}`)
+    logger.info('Issuing listen page for publisher', { clientId, publisherId })
     req.session = { clientId, publisherId }
     setCookie('publisherId', publisherId)
     setCookie('publisherName', publisherName)
@@ -89,11 +93,12 @@ export async function subscribeTokenRequest(req: express.Request, res: express.R
     const clientId = req?.session?.clientId
     const publisherId = req?.session?.publisherId
     if (!clientId || !publisherId) {
-        console.error(`Failing subscribe token request with no session information from web client ${clientId}`)
+        logger.error('Failing subscribe token request with no session information', { clientId })
         res.status(403).send({ status: 'error', reason: 'no session to support authentication' })
         return
     }
-    console.log(`Issuing subscribe token to web client ${clientId}`)
-    const tokenRequest = await createAblySubscribeTokenRequest(clientId, publisherId)
+    logger.info('Issuing subscribe token to web client', { clientId, publisherId })
+    const tokenRequest = await createSubscribeTokenRequest(clientId, publisherId)
+    tokenRequests.inc({ api: 'v1', activity: 'listen' })
     res.status(200).send(tokenRequest)
 }
@@ -2,7 +2,7 @@
 // Licensed under the GNU Affero General Public License v3.
 // See the LICENSE file for details.
 
-import { createAblyPublishTokenRequest, createAblySubscribeTokenRequest } from './auth.js'
+import { createPublishTokenRequest, createSubscribeTokenRequest } from './auth.js'
 import { getClientData } from '../client.js'
 import { createTestClient } from '../test.js'
 import assert from 'assert'
@@ -12,7 +12,7 @@ async function testAbly() {
     const clientKey1 = await createTestClient()
     const clientData1 = await getClientData(clientKey1)
     const clientId1 = clientData1!.id
-    const pubRequest = await createAblyPublishTokenRequest(clientId1)
+    const pubRequest = await createPublishTokenRequest(clientId1)
     const pubCaps = JSON.parse(pubRequest.capability)
     assert(pubCaps[`${clientId1}:whisper`].includes('publish'),
         'Publish token doesn\'t authorize channel publish')
@@ -23,7 +23,7 @@ async function testAbly() {
     const clientKey2 = await createTestClient()
     const clientData2 = await getClientData(clientKey2)
     const clientId2 = clientData2!.id
-    const subRequest = await createAblySubscribeTokenRequest(clientId2, clientId1)
+    const subRequest = await createSubscribeTokenRequest(clientId2, clientId1)
     const subCaps = JSON.parse(subRequest.capability)
     assert(subCaps[`${clientId1}:whisper`].includes('publish'),
         'Publish token doesn\'t authorize channel publish')
@@ -1,33 +1,20 @@
 // Copyright 2023-2024 Daniel C. Brotsky. All rights reserved.
 // Licensed under the GNU Affero General Public License v3.
 // See the LICENSE file for details.
-import { getSettings } from '../settings.js'
-import * as Ably from 'ably/promises.js'
+import { getTransport, TransportCapabilities } from '../transport.js'
 
-export async function createAblyPublishTokenRequest(
+export async function createPublishTokenRequest(
     clientId: string, conversationId: string, contentId: string,
 ) {
-    const config = getSettings()
-    const ably = new Ably.Rest({ key: config.ablyPublishKey })
-    const tokenCaps = {}
+    const tokenCaps: TransportCapabilities = {}
     tokenCaps[`${conversationId}:control`] = ['publish', 'subscribe', 'presence']
     tokenCaps[`${conversationId}:${contentId}`] = ['publish']
-    const tokenParams = {
-        clientId,
-        capability: JSON.stringify(tokenCaps),
-    }
-    return await ably.auth.createTokenRequest(tokenParams)
+    return await getTransport().createTokenRequest(clientId, tokenCaps)
 }
 
-export async function createAblySubscribeTokenRequest(clientId: string, conversationId: string) {
-    const config = getSettings()
-    const ably = new Ably.Rest({ key: config.ablyPublishKey })
-    const tokenCaps = {}
+export async function createSubscribeTokenRequest(clientId: string, conversationId: string) {
+    const tokenCaps: TransportCapabilities = {}
     tokenCaps[`${conversationId}:control`] = ['publish', 'subscribe', 'presence']
     tokenCaps[`${conversationId}:*`] = ['subscribe']
-    const tokenParams = {
-        clientId,
-        capability: JSON.stringify(tokenCaps),
-    }
-    return await ably.auth.createTokenRequest(tokenParams)
+    return await getTransport().createTokenRequest(clientId, tokenCaps)
 }
@@ -0,0 +1,220 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Maintenance chores design note:
+
+The maintenance chores can be run either from the maintenance CLI or through
+the admin API, so they live here, where both can import them.  Each chore
+returns what it found or did, and leaves it to the caller to present that.
+
+Every chore that changes data takes a dryRun flag, and when that's set it
+only reports what it would have done.  Every run of a chore, dry or not, is
+recorded in the admin audit stream along with who ran it, so we can later
+find out who changed what.  The audit stream is capped at a fixed length.
+
+Chores find their objects with the time indexes (see indexes.ts) where they
+can, and otherwise with the storage's scans, which in Redis use SCAN (see
+scanKeys in storage/redis.ts) rather than KEYS, so they don't block the
+database and can be run against production at any time.  Since a scan of a
+large database takes a while, callers can follow its progress with the
+onProgress option.  A scan can return an object more than once, so the chores
+do their work idempotently, and their counts of scanned objects can include
+repeats.
+ */
+
+import { getPresenceLogging, setPresenceLogging } from '../db.js'
+import { getStorage } from '../storage.js'
+import { removeProfileClient } from '../profile.js'
+import { addManyToIndex, findInIndex, IndexName, removeFromIndex } from '../indexes.js'
+import { ClientData } from '../client.js'
+import { migrateSchema } from '../migrations.js'
+import {
+    assignTranscriptsToConversations,
+    findTranscriptsStarted,
+    TranscriptData,
+} from './transcribe.js'
+
+export interface ChoreOptions {
+    actor: string
+    dryRun?: boolean
+    onProgress?: (scanned: number) => void
+}
+
+export interface AuditEntry {
+    id: string
+    time: number
+    chore: string
+    actor: string
+    dryRun: boolean
+    params: string
+    result: string
+}
+
+const oneDayMillis = 24 * 60 * 60 * 1000
+const maxAuditEntries = 10000
+const auditLog = 'admin-audit'
+
+export async function getProfilesAndClients(onProgress?: (scanned: number) => void) {
+    const profiles = getStorage().profiles
+    const profileClients: { [k: string]: string[] } = {}
+    for await (const batch of profiles.scan({ onProgress })) {
+        const ids = batch.map(({ id }) => id)
+        const clientIds = await profiles.getManyClients(ids)
+        ids.forEach((id, i) => (profileClients[id] = clientIds[i]))
+    }
+    return profileClients
+}
+
+export async function getAllClients(onProgress?: (scanned: number) => void) {
+    const clients: { [k: string]: ClientData } = {}
+    for await (const batch of getStorage().clients.scan({ onProgress })) {
+        batch.forEach((clientData) => (clients[clientData.id] = clientData))
+    }
+    return clients
+}
+
+export async function changePresenceLogging(enabled: boolean, options: ChoreOptions) {
+    const previous = await getPresenceLogging()
+    if (!options.dryRun) {
+        await setPresenceLogging(enabled)
+    }
+    const result = { previous, enabled }
+    await recordAudit('presence-logging', options, { enabled }, result)
+    return result
+}
+
+export async function removeUnusedProfiles(options: ChoreOptions) {
+    const pc = await getProfilesAndClients(options.onProgress)
+    const profileIds = Object.keys(pc).filter((id) => pc[id].length == 0)
+    let deleted = 0
+    if (!options.dryRun && profileIds.length > 0) {
+        deleted = await getStorage().profiles.delete(profileIds)
+        await removeFromIndex('pro-lastUsed', profileIds)
+    }
+    const result = { profileIds, deleted }
+    await recordAudit('remove-unused-profiles', options, {}, { count: profileIds.length, deleted })
+    return result
+}
+
+// clients that have never reported a launch are indexed at time 0, so they are unused
+export async function removeUnusedClients(unusedSince: number, options: ChoreOptions) {
+    const clientIds = await findInIndex('cli-lastLaunch', -Infinity, unusedSince - 1)
+    let deleted = 0
+    if (!options.dryRun && clientIds.length > 0) {
+        const clients = getStorage().clients
+        for (const clientData of await clients.getMany(clientIds)) {
+            if (clientData?.profileId) {
+                await removeProfileClient(clientData.profileId, clientData.id)
+            }
+        }
+        deleted = await clients.delete(clientIds)
+        await removeFromIndex('cli-lastLaunch', clientIds)
+    }
+    const result = { unusedSince, clientIds, deleted }
+    const summary = { count: clientIds.length, deleted }
+    await recordAudit('remove-unused-clients', options, { unusedSince }, summary)
+    return result
+}
+
+// transcripts are grouped by conversation, newest first as in the conversation's list
+export async function findTranscripts(collectedBefore: number, options: ChoreOptions) {
+    const started = await findTranscriptsStarted(-Infinity, collectedBefore, options.onProgress)
+    const conversations: Map<string, TranscriptData[]> = new Map()
+    for (const tr of started.reverse()) {
+        const transcripts = conversations.get(tr.conversationId)
+        if (transcripts) {
+            transcripts.push(tr)
+        } else {
+            conversations.set(tr.conversationId, [tr])
+        }
+    }
+    const found = [...conversations].map(([conversationId, transcripts]) => ({
+        conversationId,
+        transcripts,
+    }))
+    const count = found.reduce((sum, { transcripts }) => sum + transcripts.length, 0)
+    await recordAudit('find-transcripts', options, { collectedBefore }, { count })
+    return found
+}
+
+export async function reassignTranscripts(inPastDays: number, options: ChoreOptions) {
+    const assignments = await assignTranscriptsToConversations(
+        inPastDays * oneDayMillis,
+        options.dryRun,
+        options.onProgress,
+    )
+    const count = assignments.reduce((sum, assignment) => sum + assignment.count, 0)
+    const summary = { conversations: assignments.length, transcripts: count }
+    await recordAudit('reassign-transcripts', options, { inPastDays }, summary)
+    return assignments
+}
+
+// build the time indexes from existing data; this can safely be re-run at any time
+export async function buildIndexes(options: ChoreOptions) {
+    const storage = getStorage()
+    const scanOptions = { onProgress: options.onProgress }
+    const counts = { clients: 0, profiles: 0, transcripts: 0, requests: 0 }
+    const add = async (index: IndexName, entries: { id: string; time: number }[]) => {
+        if (!options.dryRun) {
+            await addManyToIndex(index, entries)
+        }
+        return entries.length
+    }
+    for await (const batch of storage.clients.scan(scanOptions)) {
+        const entries = batch.map(({ id, lastLaunch }) => ({ id, time: lastLaunch || 0 }))
+        counts.clients += await add('cli-lastLaunch', entries)
+    }
+    for await (const batch of storage.profiles.scan(scanOptions)) {
+        const entries = batch.map(({ id, lastUsed }) => ({ id, time: lastUsed || 0 }))
+        counts.profiles += await add('pro-lastUsed', entries)
+    }
+    for await (const batch of storage.transcripts.scan(scanOptions)) {
+        const entries = batch.map(({ id, startTime }) => ({ id, time: startTime || 0 }))
+        counts.transcripts += await add('tra-startTime', entries)
+    }
+    for await (const batch of storage.clients.scanApnsRequests(scanOptions)) {
+        const entries = batch.map(({ id, sentTime }) => ({ id, time: sentTime || 0 }))
+        counts.requests += await add('req-sentTime', entries)
+    }
+    await recordAudit('build-indexes', options, {}, counts)
+    return counts
+}
+
+// returns undefined if another process is already migrating the schema
+export async function runMigrations(options: ChoreOptions) {
+    const onProgress = options.onProgress
+    const result = await migrateSchema(options.dryRun || false, { onProgress })
+    const changed = result?.results.reduce((sum, { changed }) => sum + changed, 0)
+    const summary = result ? { from: result.from, to: result.to, changed } : { locked: true }
+    await recordAudit('migrate-schema', options, {}, summary)
+    return result
+}
+
+export async function getAuditEntries(limit: number = 100) {
+    const entries = await getStorage().logs.read(auditLog, { count: limit })
+    return entries.map(({ id, time, fields }) => {
+        const entry: AuditEntry = {
+            id,
+            time,
+            chore: fields.chore,
+            actor: fields.actor,
+            dryRun: fields.dryRun === 'true',
+            params: fields.params,
+            result: fields.result,
+        }
+        return entry
+    })
+}
+
+async function recordAudit(chore: string, options: ChoreOptions, params: object, result: object) {
+    const entry = {
+        chore,
+        actor: options.actor,
+        dryRun: options.dryRun ? 'true' : 'false',
+        params: JSON.stringify(params),
+        result: JSON.stringify(result),
+    }
+    await getStorage().logs.append(auditLog, entry, { maxLength: maxAuditEntries })
+}
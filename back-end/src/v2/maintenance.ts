@@ -2,60 +2,52 @@
 // Licensed under the GNU Affero General Public License v3.
 // See the LICENSE file for details.
 
-import { dbKeyPrefix, getDbClient, setPresenceLogging } from '../db.js'
-import { getProfileClients, removeProfileClient } from '../profile.js'
-import { ClientData, getClientData } from '../client.js'
 import { loadSettings } from '../settings.js'
-import { assignTranscriptsToConversations, getTranscriptsForConversation } from './transcribe.js'
+import {
+    findErroredTranscripts,
+    findTranscriptionErrors,
+    getTranscript,
+    indexTranscriptsForSearch,
+    retranscribe,
+} from './transcribe.js'
+import {
+    buildIndexes,
+    changePresenceLogging,
+    ChoreOptions,
+    findTranscripts,
+    reassignTranscripts,
+    removeUnusedClients,
+    removeUnusedProfiles,
+    runMigrations,
+} from './chores.js'
+import { latestSchemaVersion } from '../migrations.js'
+import { isReportKind, parseReportFilter, queryReports } from '../reports.js'
 
 const oneDayMillis = 24 * 60 * 60 * 1000
 const oneDayAgo = Date.now() - oneDayMillis
 const thirtyDaysAgo = Date.now() - 30 * oneDayMillis
 const sevenDaysAgo = Date.now() - 7 * oneDayMillis
 
-async function getProfilesAndClients() {
-    const rc = await getDbClient()
-    const keys = await rc.keys(dbKeyPrefix + 'pro:*')
-    const profileClients: { [k: string]: string[] } = {}
-    for (const key of keys) {
-        const id = key.substring((dbKeyPrefix + 'pro:').length)
-        profileClients[id] = await getProfileClients(id)
-    }
-    return profileClients
-}
+const progressInterval = 10000
 
-async function getAllClients() {
-    const rc = await getDbClient()
-    const keys = await rc.keys(dbKeyPrefix + 'cli:*')
-    const clients: { [k: string]: ClientData } = {}
-    for (const key of keys) {
-        const id = key.substring((dbKeyPrefix + 'cli:').length)
-        const data = await getClientData(id)
-        if (data) {
-            clients[id] = data
+// each chore reports its own progress through a scan every so many keys
+function maintenance(dryRun: boolean = false): ChoreOptions {
+    let reported = 0
+    const onProgress = (scanned: number) => {
+        if (scanned - reported >= progressInterval) {
+            reported = scanned
+            console.log(`...scanned ${scanned} keys`)
         }
     }
-    return clients
+    return { actor: 'maintenance', dryRun, onProgress }
 }
 
 async function countUnusedProfiles(andDeleteThem: boolean = false) {
-    const pc = await getProfilesAndClients()
-    const profileKeys: string[] = []
-    const clientKeys: string[] = []
-    for (const id in pc) {
-        if (pc[id].length == 0) {
-            profileKeys.push(dbKeyPrefix + 'pro:' + id)
-            clientKeys.push(dbKeyPrefix + 'pro-clients:' + id)
-        }
-    }
-    console.log(`There are ${profileKeys.length} profiles with no associated clients.`)
-    console.log(`They are:\n${JSON.stringify(profileKeys, null, 2)}`)
+    const { profileIds, deleted } = await removeUnusedProfiles(maintenance(!andDeleteThem))
+    console.log(`There are ${profileIds.length} profiles with no associated clients.`)
+    console.log(`They are:\n${JSON.stringify(profileIds, null, 2)}`)
     if (andDeleteThem) {
-        const rc = await getDbClient()
-        const deletedKeyCount = await rc.del(profileKeys)
-        console.warn(`Deleted ${deletedKeyCount} profiles`)
-        const deletedClientCount = await rc.del(clientKeys)
-        console.warn(`Deleted ${deletedClientCount} empty client sets`)
+        console.warn(`Deleted ${deleted} profiles`)
     }
 }
 
@@ -63,47 +55,23 @@ async function countUnusedClients(
     unusedSince: number = thirtyDaysAgo,
     andDeleteThem: boolean = false,
 ) {
-    const clients = await getAllClients()
-    const oldClientIds: string[] = []
-    const oldClientKeys: string[] = []
-    for (const id in clients) {
-        if (!clients[id]?.lastLaunch || clients[id].lastLaunch! < unusedSince) {
-            oldClientIds.push(id)
-            oldClientKeys.push(dbKeyPrefix + 'cli:' + id)
-        }
-    }
-    console.log(`There are ${oldClientIds.length} clients unused since ${new Date(unusedSince)}`)
-    console.log(`They are:\n${JSON.stringify(oldClientKeys, null, 2)}`)
+    const { clientIds, deleted } = await removeUnusedClients(
+        unusedSince,
+        maintenance(!andDeleteThem),
+    )
+    console.log(`There are ${clientIds.length} clients unused since ${new Date(unusedSince)}`)
+    console.log(`They are:\n${JSON.stringify(clientIds, null, 2)}`)
     if (andDeleteThem) {
-        const rc = await getDbClient()
-        for (const id of oldClientIds) {
-            const profileId = clients[id].profileId
-            if (profileId) {
-                await removeProfileClient(profileId, id)
-            }
-        }
-        const deleted = await rc.del(oldClientKeys)
         console.log(`Deleted ${deleted} clients unused since ${new Date(unusedSince)}`)
     }
 }
 
 async function showTranscripts(collectedBefore: number = Date.now()) {
-    const rc = await getDbClient()
-    const prefix = dbKeyPrefix + `con:`
-    const keys = await rc.keys(`${prefix}*`)
-    for (const key of keys) {
-        const id = key.substring(prefix.length)
-        const transcripts = await getTranscriptsForConversation(id)
-        let showHeading = true
+    const found = await findTranscripts(collectedBefore, maintenance())
+    for (const { conversationId, transcripts } of found) {
+        console.log(`Transcripts for conversation: ${conversationId}:`)
+        console.log(`------------------------------------`)
         for (const tr of transcripts) {
-            if (tr.startTime > collectedBefore) {
-                break
-            }
-            if (showHeading) {
-                console.log(`Transcripts for conversation: ${id}:`)
-                console.log(`------------------------------------`)
-                showHeading = false
-            }
             console.log(
                 `Start: ${new Date(tr.startTime)}, Duration: ${tr.duration! / 1000}:\n${tr.transcription}`,
             )
@@ -112,14 +80,94 @@ async function showTranscripts(collectedBefore: number = Date.now()) {
     }
 }
 
+async function assignTranscripts(dryRun: boolean = false) {
+    const assignments = await reassignTranscripts(30, maintenance(dryRun))
+    for (const { conversationId, count } of assignments) {
+        const verb = dryRun ? 'Would assign' : 'Assigned'
+        console.log(`${verb} ${count} transcripts to conversation ${conversationId}`)
+    }
+}
+
+async function backfillIndexes(dryRun: boolean = false) {
+    const counts = await buildIndexes(maintenance(dryRun))
+    const verb = dryRun ? 'Would index' : 'Indexed'
+    console.log(
+        `${verb} ${counts.clients} clients, ${counts.profiles} profiles, ` +
+            `${counts.transcripts} transcripts and ${counts.requests} APNs requests`,
+    )
+}
+
+async function migrate(dryRun: boolean = false) {
+    const result = await runMigrations(maintenance(dryRun))
+    if (!result) {
+        throw Error(`Another process is migrating the schema, try again later`)
+    }
+    for (const { version, description, changed } of result.results) {
+        const verb = dryRun ? 'would change' : 'changed'
+        console.log(`Migration ${version} (${description}) ${verb} ${changed} objects`)
+    }
+    console.log(
+        `Schema version was ${result.from}, is now ${result.to}, latest is ${latestSchemaVersion}`,
+    )
+}
+
+async function showErroredTranscripts() {
+    const transcripts = await findErroredTranscripts(maintenance().onProgress)
+    console.log(`There are ${transcripts.length} transcripts with errors and saved packets.`)
+    for (const tr of transcripts) {
+        console.log(
+            `Transcript ${tr.id} (conversation ${tr.conversationId}), ` +
+                `Start: ${new Date(tr.startTime)}, Errors: ${tr.errCount}`,
+        )
+    }
+}
+
+async function showTranscriptErrors(transcriptId: string) {
+    const tr = await getTranscript(transcriptId)
+    const errors = tr ? await findTranscriptionErrors(tr) : undefined
+    if (!tr || !errors) {
+        console.error(`Transcript ${transcriptId} doesn't exist or has no saved packets.`)
+        return
+    }
+    console.log(`Transcript ${tr.id} recorded ${tr.errCount} errors, now has ${errors.length}:`)
+    for (const error of errors) {
+        console.log(`Chunk ${error.index}: ${error.reason}: ${error.chunk}`)
+    }
+}
+
+async function retranscribeTranscript(transcriptId: string, accept: boolean = false) {
+    const tr = await getTranscript(transcriptId)
+    if (!tr || !(await retranscribe(tr, accept))) {
+        console.error(`Transcript ${transcriptId} doesn't exist or has no saved packets.`)
+        return
+    }
+    console.log(`Transcript ${tr.id} now has ${tr.errCount} errors.`)
+}
+
+// the chore looks like show-reports-<kind>?<filter>, where the filter uses the same
+// query parameters as the admin API, e.g. show-reports-anomalies?client=<id>&since=2024-06-01
+async function showReports(spec: string) {
+    const [kind, query] = spec.split('?', 2)
+    const filter = parseReportFilter(new URLSearchParams(query || ''))
+    if (!isReportKind(kind) || !filter) {
+        throw Error(`Unrecognized report query: ${spec}`)
+    }
+    const reports = await queryReports(kind, filter)
+    console.log(`Found ${reports.length} ${kind} reports, newest first:`)
+    for (const report of reports) {
+        const { id: _id, time, ...fields } = report
+        console.log(`${new Date(time).toISOString()}: ${JSON.stringify(fields)}`)
+    }
+}
+
 async function doMaintenance(chores: string[]) {
     loadSettings()
     for (const chore of chores) {
         if (chore.startsWith('logging-')) {
             if (chore.endsWith('on')) {
-                await setPresenceLogging(true)
+                await changePresenceLogging(true, maintenance())
             } else if (chore.endsWith('off')) {
-                await setPresenceLogging(false)
+                await changePresenceLogging(false, maintenance())
             } else {
                 throw Error(`Unrecognized chore: ${chore}`)
             }
@@ -142,7 +190,29 @@ async function doMaintenance(chores: string[]) {
                 throw Error(`Unrecognized chore: ${chore}`)
             }
         } else if (chore === 'assign-transcripts') {
-            await assignTranscriptsToConversations()
+            await assignTranscripts()
+        } else if (chore === 'assign-transcripts-dry-run') {
+            await assignTranscripts(true)
+        } else if (chore === 'build-indexes') {
+            await backfillIndexes()
+        } else if (chore === 'build-indexes-dry-run') {
+            await backfillIndexes(true)
+        } else if (chore === 'migrate-schema') {
+            await migrate()
+        } else if (chore === 'migrate-schema-dry-run') {
+            await migrate(true)
+        } else if (chore === 'index-transcripts') {
+            await indexTranscriptsForSearch(maintenance().onProgress)
+        } else if (chore === 'list-errored-transcripts') {
+            await showErroredTranscripts()
+        } else if (chore.startsWith('show-errors-')) {
+            await showTranscriptErrors(chore.substring('show-errors-'.length))
+        } else if (chore.startsWith('retranscribe-')) {
+            await retranscribeTranscript(chore.substring('retranscribe-'.length))
+        } else if (chore.startsWith('accept-transcript-')) {
+            await retranscribeTranscript(chore.substring('accept-transcript-'.length), true)
+        } else if (chore.startsWith('show-reports-')) {
+            await showReports(chore.substring('show-reports-'.length))
         } else {
             throw Error(`Unrecognized chore: ${chore}`)
         }
@@ -5,20 +5,24 @@
 import express from 'express'
 import { getProfileData, ProfileData, saveProfileData } from '../profile.js'
 import { validateProfileAuth } from '../auth.js'
+import { logger } from '../logger.js'
+import { profileSyncConflicts } from '../metrics.js'
 
 export async function userProfilePost(req: express.Request, res: express.Response) {
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const body: { [p: string]: string } = req.body
     if (!body.id || !body.name || !body.password) {
-        console.log(`User profile POST from client ${clientId} is missing data`)
+        logger.info('User profile POST is missing data', { clientId })
         res.status(400).send({ status: `error`, reason: `Invalid POST data` })
         return
     }
     const existingData = await getProfileData(body.id)
     if (existingData?.password) {
-        console.error(
-            `User profile POST for ${body.id} from client ${clientId} but the profile is already shared`,
-        )
+        logger.error('User profile POST but the profile is already shared', {
+            clientId,
+            profileId: body.id,
+        })
+        profileSyncConflicts.inc({ profile: 'user', method: 'POST' })
         res.status(409).send({ status: `error`, reason: `Profile ${body.id} is already shared` })
         return
     }
@@ -28,7 +32,11 @@ export async function userProfilePost(req: express.Request, res: express.Respons
         password: body.password,
     }
     await saveProfileData(newData)
-    console.log(`Successful POST of user profile ${body.id} (${body.name}) from client ${clientId}`)
+    logger.info('Successful POST of user profile', {
+        clientId,
+        profileId: body.id,
+        userName: body.name,
+    })
     res.status(201).send()
 }
 
@@ -37,22 +45,18 @@ export async function userProfilePut(req: express.Request, res: express.Response
     const body: { [p: string]: string } = req.body
     const profileId = req.params?.profileId
     if (!profileId || !body?.name) {
-        console.log(`User profile PUT from client ${clientId} is missing data`)
+        logger.info('User profile PUT is missing data', { clientId })
         res.status(400).send({ status: `error`, reason: `Invalid PUT data` })
         return
     }
     const existingData = await getProfileData(profileId)
     if (!existingData || !existingData.password) {
-        console.error(
-            `User profile PUT for ${profileId} from client ${clientId} but the profile is not shared`,
-        )
+        logger.error('User profile PUT but the profile is not shared', { clientId, profileId })
         res.status(404).send({ status: `error`, reason: `Profile ${profileId} is not shared` })
         return
     }
     if (!(await validateProfileAuth(req, res, existingData.password))) return
-    console.log(
-        `Successful PUT of user profile ${profileId} (${body.name}) from client ${clientId}`,
-    )
+    logger.info('Successful PUT of user profile', { clientId, profileId, userName: body.name })
     const update: ProfileData = { id: profileId, name: body.username }
     await saveProfileData(update)
     res.status(204).send()
@@ -62,30 +66,35 @@ export async function userProfileGet(req: express.Request, res: express.Response
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const profileId = req.params?.profileId
     if (!profileId) {
-        console.log(`No user profile ID specified in GET from client ${clientId}`)
+        logger.info('No user profile ID specified in GET', { clientId })
         res.status(404).send({ status: `error`, reason: `No such profile` })
         return
     }
     const existingData = await getProfileData(profileId)
     if (!existingData || !existingData?.name || !existingData?.password) {
-        console.error(
-            `User profile GET from client ${clientId} for profile ${profileId} but profile is not shared`,
-        )
+        logger.error('User profile GET but the profile is not shared', {
+            clientId,
+            profileId,
+        })
         res.status(404).send({ status: `error`, reason: `Profile ${profileId} is not shared` })
         return
     }
     if (!(await validateProfileAuth(req, res, existingData.password))) return
     const precondition = req.header('If-None-Match')
     if (precondition && precondition === `"${existingData.name}"`) {
-        console.log(
-            `Precondition Failed on GET of user profile ${profileId} (${existingData.name}) from client ${clientId}`,
-        )
+        logger.info('Precondition Failed on GET of user profile', {
+            clientId,
+            profileId,
+            userName: existingData.name,
+        })
         res.status(412).send({ status: `error`, reason: `Server name matches client name` })
         return
     }
-    console.log(
-        `Successful GET of user profile ${profileId} (${existingData.name}) from client ${clientId}`,
-    )
+    logger.info('Successful GET of user profile', {
+        clientId,
+        profileId,
+        userName: existingData.name,
+    })
     const body = { id: existingData.id, name: existingData.name }
     res.setHeader('ETag', `"${existingData.name}"`)
     res.status(200).send(body)
@@ -95,24 +104,30 @@ export async function whisperProfilePost(req: express.Request, res: express.Resp
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const body: { [p: string]: string } = req.body
     if (!body?.id || !body?.timestamp) {
-        console.log(`Whisper profile POST from client ${clientId} is missing data`)
+        logger.info('Whisper profile POST is missing data', { clientId })
         res.status(400).send({ status: `error`, reason: `Invalid POST data` })
         return
     }
     const existingData = await getProfileData(body.id)
     if (existingData?.whisperProfile) {
-        console.error(
-            `Whisper profile POST for already-shared ${body.id} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.error('Whisper profile POST for already-shared profile', {
+            clientId,
+            profileId: body.id,
+            userName: existingData?.name,
+        })
+        profileSyncConflicts.inc({ profile: 'whisper', method: 'POST' })
         res.status(409).send({
             status: `error`,
             reason: `Whisper profile ${body.id} is already shared`,
         })
         return
     }
-    console.log(
-        `Successful POST of whisper profile ${body.id} (${existingData?.name}, ${body.timestamp}) from client ${clientId}`,
-    )
+    logger.info('Successful POST of whisper profile', {
+        clientId,
+        profileId: body.id,
+        userName: existingData?.name,
+        timestamp: body.timestamp,
+    })
     const newData: ProfileData = {
         id: body.id,
         whisperTimestamp: body.timestamp,
@@ -126,12 +141,12 @@ export async function whisperProfilePut(req: express.Request, res: express.Respo
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const profileId = req.params?.profileId
     if (!profileId) {
-        console.log(`Whisper profile PUT from client ${clientId} is missing profile ID`)
+        logger.info('Whisper profile PUT is missing profile ID', { clientId })
         res.status(404).send({ status: `error`, reason: `Invalid Profile ID` })
         return
     }
     if (!req.body || !req.body?.timestamp) {
-        console.error(`Whisper profile PUT from client ${clientId} is missing a timestamp`)
+        logger.error('Whisper profile PUT is missing a timestamp', { clientId })
         res.status(400).send({ status: `error`, reason: `Missing timestamp` })
         return
     }
@@ -141,9 +156,11 @@ export async function whisperProfilePut(req: express.Request, res: express.Respo
         !existingData?.whisperTimestamp ||
         !existingData?.whisperProfile
     ) {
-        console.error(
-            `Whisper profile PUT for not-shared ${profileId} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.error('Whisper profile PUT for not-shared profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
         res.status(404).send({
             status: `error`,
             reason: `Whisper profile ${profileId} is not shared`,
@@ -152,14 +169,20 @@ export async function whisperProfilePut(req: express.Request, res: express.Respo
     }
     if (!(await validateProfileAuth(req, res, existingData.password))) return
     if (existingData.whisperTimestamp > req.body.timestamp) {
-        console.error(
-            `Whisper profile PUT for older ${profileId} (${existingData?.name}) from ${clientId}`,
-        )
+        logger.error('Whisper profile PUT for older profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
+        profileSyncConflicts.inc({ profile: 'whisper', method: 'PUT' })
         res.status(409).send({ status: `error`, reason: `Newer whisper profile version on server` })
     }
-    console.log(
-        `Successful PUT of whisper profile ${existingData.id} (${existingData?.name}, ${req.body.timestamp}) from client ${clientId}`,
-    )
+    logger.info('Successful PUT of whisper profile', {
+        clientId,
+        profileId: existingData.id,
+        userName: existingData?.name,
+        timestamp: req.body.timestamp,
+    })
     const newData: ProfileData = {
         id: existingData.id,
         whisperTimestamp: req.body.timestamp,
@@ -173,7 +196,7 @@ export async function whisperProfileGet(req: express.Request, res: express.Respo
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const profileId = req.params?.profileId
     if (!profileId) {
-        console.log(`No whisper profile ID specified in GET from client ${clientId}`)
+        logger.info('No whisper profile ID specified in GET', { clientId })
         res.status(404).send({ status: `error`, reason: `No such profile` })
         return
     }
@@ -184,9 +207,11 @@ export async function whisperProfileGet(req: express.Request, res: express.Respo
         !existingData.whisperTimestamp ||
         !existingData.whisperProfile
     ) {
-        console.error(
-            `Whisper profile get for non-shared ${profileId} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.error('Whisper profile GET for non-shared profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
         res.status(404).send({
             status: `error`,
             reason: `Whisper profile ${profileId} isn't shared`,
@@ -196,18 +221,23 @@ export async function whisperProfileGet(req: express.Request, res: express.Respo
     if (!(await validateProfileAuth(req, res, existingData.password))) return
     const precondition = req.header('If-None-Match')
     if (precondition && precondition === `"${existingData.whisperTimestamp}"`) {
-        console.log(
-            `Precondition Failed on GET of whisper profile ${profileId} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.info('Precondition Failed on GET of whisper profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
         res.status(412).send({
             status: `error`,
             reason: `Server whisper timestamp matches client timestamp`,
         })
         return
     }
-    console.log(
-        `Successful GET of whisper profile ${profileId} (${existingData?.name}, ${existingData.whisperTimestamp}) from client ${clientId}`,
-    )
+    logger.info('Successful GET of whisper profile', {
+        clientId,
+        profileId,
+        userName: existingData?.name,
+        timestamp: existingData.whisperTimestamp,
+    })
     res.setHeader('ETag', `"${existingData.whisperTimestamp}"`)
     const body = JSON.parse(existingData.whisperProfile)
     res.status(200).send(body)
@@ -217,24 +247,30 @@ export async function listenProfilePost(req: express.Request, res: express.Respo
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const body: { [p: string]: string } = req.body
     if (!body?.id || !body?.timestamp) {
-        console.log(`Listen profile POST from client ${clientId} is missing data`)
+        logger.info('Listen profile POST is missing data', { clientId })
         res.status(400).send({ status: `error`, reason: `Invalid POST data` })
         return
     }
     const existingData = await getProfileData(body.id)
     if (existingData?.listenProfile) {
-        console.error(
-            `Listen profile POST for already-shared ${body.id} (${existingData?.name}) from ${clientId}`,
-        )
+        logger.error('Listen profile POST for already-shared profile', {
+            clientId,
+            profileId: body.id,
+            userName: existingData?.name,
+        })
+        profileSyncConflicts.inc({ profile: 'listen', method: 'POST' })
         res.status(409).send({
             status: `error`,
             reason: `Listen profile ${body.id} is already shared`,
         })
         return
     }
-    console.log(
-        `Successful POST of listen profile ${body.id} (${existingData?.name}, ${body.timestamp}) from client ${clientId}`,
-    )
+    logger.info('Successful POST of listen profile', {
+        clientId,
+        profileId: body.id,
+        userName: existingData?.name,
+        timestamp: body.timestamp,
+    })
     const newData: ProfileData = {
         id: body.id,
         listenTimestamp: body.timestamp,
@@ -248,20 +284,22 @@ export async function listenProfilePut(req: express.Request, res: express.Respon
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const profileId = req.params?.profileId
     if (!profileId) {
-        console.log(`Listen profile PUT from client ${clientId} is missing profile ID`)
+        logger.info('Listen profile PUT is missing profile ID', { clientId })
         res.status(404).send({ status: `error`, reason: `Invalid Profile ID` })
         return
     }
     if (!req.body || !req.body?.timestamp) {
-        console.error(`Listen profile PUT from client ${clientId} is missing a timestamp`)
+        logger.error('Listen profile PUT is missing a timestamp', { clientId })
         res.status(400).send({ status: `error`, reason: `Missing timestamp` })
         return
     }
     const existingData = await getProfileData(profileId)
     if (!existingData?.password || !existingData?.listenTimestamp || !existingData?.listenProfile) {
-        console.error(
-            `Listen profile PUT for not-shared ${profileId} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.error('Listen profile PUT for not-shared profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
         res.status(404).send({
             status: `error`,
             reason: `Listen profile ${profileId} is not shared`,
@@ -270,14 +308,20 @@ export async function listenProfilePut(req: express.Request, res: express.Respon
     }
     if (!(await validateProfileAuth(req, res, existingData.password))) return
     if (existingData.listenTimestamp > req.body.timestamp) {
-        console.error(
-            `Listen profile PUT for older ${profileId} (${existingData?.name}) from ${clientId}`,
-        )
+        logger.error('Listen profile PUT for older profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
+        profileSyncConflicts.inc({ profile: 'listen', method: 'PUT' })
         res.status(409).send({ status: `error`, reason: `Newer listen profile version on server` })
     }
-    console.log(
-        `Successful PUT of listen profile ${profileId} (${existingData?.name}, ${req.body.timestamp}) from client ${clientId}`,
-    )
+    logger.info('Successful PUT of listen profile', {
+        clientId,
+        profileId,
+        userName: existingData?.name,
+        timestamp: req.body.timestamp,
+    })
     const newData: ProfileData = {
         id: existingData.id,
         listenTimestamp: req.body.timestamp,
@@ -291,7 +335,7 @@ export async function listenProfileGet(req: express.Request, res: express.Respon
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const profileId = req.params?.profileId
     if (!profileId) {
-        console.log(`No listen profile ID specified in GET from client ${clientId}`)
+        logger.info('No listen profile ID specified in GET', { clientId })
         res.status(404).send({ status: `error`, reason: `No such profile` })
         return
     }
@@ -302,9 +346,11 @@ export async function listenProfileGet(req: express.Request, res: express.Respon
         !existingData.listenTimestamp ||
         !existingData.listenProfile
     ) {
-        console.error(
-            `Listen profile get for non-shared ${profileId} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.error('Listen profile GET for non-shared profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
         res.status(404).send({
             status: `error`,
             reason: `Listen profile ${profileId} is not shared`,
@@ -314,18 +360,23 @@ export async function listenProfileGet(req: express.Request, res: express.Respon
     if (!(await validateProfileAuth(req, res, existingData.password))) return
     const precondition = req.header('If-None-Match')
     if (precondition && precondition === `"${existingData.listenTimestamp}"`) {
-        console.log(
-            `Precondition Failed on GET of listen profile ${profileId} (${existingData.name}) from client ${clientId}`,
-        )
+        logger.info('Precondition Failed on GET of listen profile', {
+            clientId,
+            profileId,
+            userName: existingData.name,
+        })
         res.status(412).send({
             status: `error`,
             reason: `Server listen timestamp matches client timestamp`,
         })
         return
     }
-    console.log(
-        `Successful GET of listen profile ${profileId} (${existingData?.name}, ${existingData.listenTimestamp}) from client ${clientId}`,
-    )
+    logger.info('Successful GET of listen profile', {
+        clientId,
+        profileId,
+        userName: existingData?.name,
+        timestamp: existingData.listenTimestamp,
+    })
     res.setHeader('ETag', `"${existingData.listenTimestamp}"`)
     const body = JSON.parse(existingData.listenProfile)
     res.status(200).send(body)
@@ -335,15 +386,18 @@ export async function settingsProfilePost(req: express.Request, res: express.Res
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const body: { [p: string]: string | number } = req.body
     if (!body?.id || !body?.eTag) {
-        console.log(`Settings profile POST from client ${clientId} is missing data`)
+        logger.info('Settings profile POST is missing data', { clientId })
         res.status(400).send({ status: `error`, reason: `Invalid POST data` })
         return
     }
     const existingData = await getProfileData(body.id as string)
     if (existingData?.settingsProfile) {
-        console.error(
-            `Settings profile POST for already-shared ${body.id} (${existingData?.name}) from ${clientId}`,
-        )
+        logger.error('Settings profile POST for already-shared profile', {
+            clientId,
+            profileId: body.id as string,
+            userName: existingData?.name,
+        })
+        profileSyncConflicts.inc({ profile: 'settings', method: 'POST' })
         res.status(409).send({
             status: `error`,
             reason: `Settings profile ${body.id} is already shared`,
@@ -352,10 +406,13 @@ export async function settingsProfilePost(req: express.Request, res: express.Res
     }
     const settingsVersion = (body?.version as number) || 1
     const settingsETag = body.eTag as string
-    console.log(
-        `Successful POST of settings profile ${body.id} (${existingData?.name}, ` +
-            `v${settingsVersion}, ${settingsETag}) from client ${clientId}`,
-    )
+    logger.info('Successful POST of settings profile', {
+        clientId,
+        profileId: body.id as string,
+        userName: existingData?.name,
+        version: settingsVersion,
+        eTag: settingsETag,
+    })
     const newData: ProfileData = {
         id: body.id as string,
         settingsVersion,
@@ -370,21 +427,23 @@ export async function settingsProfilePut(req: express.Request, res: express.Resp
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const profileId = req.params?.profileId
     if (!profileId) {
-        console.log(`Settings profile PUT from client ${clientId} is missing profile ID`)
+        logger.info('Settings profile PUT is missing profile ID', { clientId })
         res.status(404).send({ status: `error`, reason: `Invalid Profile ID` })
         return
     }
     const body: { [p: string]: string | number } = req.body
     if (!body || !body?.eTag) {
-        console.error(`Settings profile PUT from client ${clientId} is missing data`)
+        logger.error('Settings profile PUT is missing data', { clientId })
         res.status(400).send({ status: `error`, reason: `Invalid PUT data` })
         return
     }
     const existingData = await getProfileData(profileId)
     if (!existingData?.password || !existingData?.settingsETag || !existingData?.settingsProfile) {
-        console.error(
-            `Settings profile PUT for not-shared ${profileId} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.error('Settings profile PUT for not-shared profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
         res.status(404).send({
             status: `error`,
             reason: `Settings profile ${profileId} is not shared`,
@@ -395,20 +454,26 @@ export async function settingsProfilePut(req: express.Request, res: express.Resp
     const existingVersion = existingData?.settingsVersion || 1
     const putVersion = (body?.version as number) || 1
     if (putVersion < existingVersion) {
-        console.error(
-            `Failed PUT of setting profile v${putVersion} ` +
-                `for ${profileId} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.error('Failed PUT of older settings profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+            version: putVersion,
+        })
+        profileSyncConflicts.inc({ profile: 'settings', method: 'PUT' })
         res.status(409).send({
             status: `error`,
             reason: `Settings profile is already at version ${existingVersion}`,
         })
         return
     }
-    console.log(
-        `Successful PUT of settings profile v${putVersion}, ${body.eTag} ` +
-            `for ${profileId} (${existingData?.name}) from client ${clientId}`,
-    )
+    logger.info('Successful PUT of settings profile', {
+        clientId,
+        profileId,
+        userName: existingData?.name,
+        version: putVersion,
+        eTag: body.eTag,
+    })
     const newData: ProfileData = {
         id: existingData.id,
         settingsVersion: putVersion,
@@ -423,7 +488,7 @@ export async function settingsProfileGet(req: express.Request, res: express.Resp
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const profileId = req.params?.profileId
     if (!profileId) {
-        console.log(`No settings profile ID specified in GET from client ${clientId}`)
+        logger.info('No settings profile ID specified in GET', { clientId })
         res.status(404).send({ status: `error`, reason: `No such profile` })
         return
     }
@@ -434,9 +499,11 @@ export async function settingsProfileGet(req: express.Request, res: express.Resp
         !existingData.settingsETag ||
         !existingData.settingsProfile
     ) {
-        console.error(
-            `Settings profile get for non-shared ${profileId} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.error('Settings profile GET for non-shared profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
         res.status(404).send({
             status: `error`,
             reason: `Settings profile ${profileId} is not shared`,
@@ -446,18 +513,23 @@ export async function settingsProfileGet(req: express.Request, res: express.Resp
     if (!(await validateProfileAuth(req, res, existingData.password))) return
     const precondition = req.header('If-None-Match')
     if (precondition && precondition === `"${existingData.settingsETag}"`) {
-        console.log(
-            `Precondition Failed on GET of settings profile ${profileId} (${existingData.name}) from client ${clientId}`,
-        )
+        logger.info('Precondition Failed on GET of settings profile', {
+            clientId,
+            profileId,
+            userName: existingData.name,
+        })
         res.status(412).send({
             status: `error`,
             reason: `Server settings eTag matches client eTag`,
         })
         return
     }
-    console.log(
-        `Successful GET of settings profile ${profileId} (${existingData?.name}, ${existingData.settingsETag}) from client ${clientId}`,
-    )
+    logger.info('Successful GET of settings profile', {
+        clientId,
+        profileId,
+        userName: existingData?.name,
+        eTag: existingData.settingsETag,
+    })
     res.setHeader('ETag', `"${existingData.settingsETag}"`)
     const body = JSON.parse(existingData.settingsProfile)
     if (!body?.version) {
@@ -470,24 +542,30 @@ export async function favoritesProfilePost(req: express.Request, res: express.Re
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const body: { [p: string]: string } = req.body
     if (!body?.id || !body?.timestamp) {
-        console.log(`Favorites profile POST from client ${clientId} is missing data`)
+        logger.info('Favorites profile POST is missing data', { clientId })
         res.status(400).send({ status: `error`, reason: `Invalid POST data` })
         return
     }
     const existingData = await getProfileData(body.id)
     if (existingData?.favoritesProfile) {
-        console.error(
-            `Favorites profile POST for already-shared ${body.id} (${existingData?.name}) from ${clientId}`,
-        )
+        logger.error('Favorites profile POST for already-shared profile', {
+            clientId,
+            profileId: body.id,
+            userName: existingData?.name,
+        })
+        profileSyncConflicts.inc({ profile: 'favorites', method: 'POST' })
         res.status(409).send({
             status: `error`,
             reason: `Favorites profile ${body.id} is already shared`,
         })
         return
     }
-    console.log(
-        `Successful POST of favorites profile ${body.id} (${existingData?.name}, ${body.timestamp}) from client ${clientId}`,
-    )
+    logger.info('Successful POST of favorites profile', {
+        clientId,
+        profileId: body.id,
+        userName: existingData?.name,
+        timestamp: body.timestamp,
+    })
     const newData: ProfileData = {
         id: body.id,
         favoritesTimestamp: body.timestamp,
@@ -501,12 +579,12 @@ export async function favoritesProfilePut(req: express.Request, res: express.Res
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const profileId = req.params?.profileId
     if (!profileId) {
-        console.log(`Favorites profile PUT from client ${clientId} is missing profile ID`)
+        logger.info('Favorites profile PUT is missing profile ID', { clientId })
         res.status(404).send({ status: `error`, reason: `Invalid Profile ID` })
         return
     }
     if (!req.body || !req.body?.timestamp) {
-        console.error(`Favorites profile PUT from client ${clientId} is missing a timestamp`)
+        logger.error('Favorites profile PUT is missing a timestamp', { clientId })
         res.status(400).send({ status: `error`, reason: `Missing timestamp` })
         return
     }
@@ -516,9 +594,11 @@ export async function favoritesProfilePut(req: express.Request, res: express.Res
         !existingData?.favoritesTimestamp ||
         !existingData?.favoritesProfile
     ) {
-        console.error(
-            `Favorites profile PUT for not-shared ${profileId} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.error('Favorites profile PUT for not-shared profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
         res.status(404).send({
             status: `error`,
             reason: `Favorites profile ${profileId} is not shared`,
@@ -527,17 +607,23 @@ export async function favoritesProfilePut(req: express.Request, res: express.Res
     }
     if (!(await validateProfileAuth(req, res, existingData.password))) return
     if (existingData.favoritesTimestamp > req.body.timestamp) {
-        console.error(
-            `Favorites profile PUT for older ${profileId} (${existingData?.name}) from ${clientId}`,
-        )
+        logger.error('Favorites profile PUT for older profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
+        profileSyncConflicts.inc({ profile: 'favorites', method: 'PUT' })
         res.status(409).send({
             status: `error`,
             reason: `Newer favorites profile version on server`,
         })
     }
-    console.log(
-        `Successful PUT of favorites profile ${profileId} (${existingData?.name}, ${req.body.timestamp}) from client ${clientId}`,
-    )
+    logger.info('Successful PUT of favorites profile', {
+        clientId,
+        profileId,
+        userName: existingData?.name,
+        timestamp: req.body.timestamp,
+    })
     const newData: ProfileData = {
         id: existingData.id,
         favoritesTimestamp: req.body.timestamp,
@@ -551,7 +637,7 @@ export async function favoritesProfileGet(req: express.Request, res: express.Res
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const profileId = req.params?.profileId
     if (!profileId) {
-        console.log(`No favorites profile ID specified in GET from client ${clientId}`)
+        logger.info('No favorites profile ID specified in GET', { clientId })
         res.status(404).send({ status: `error`, reason: `No such profile` })
         return
     }
@@ -562,9 +648,11 @@ export async function favoritesProfileGet(req: express.Request, res: express.Res
         !existingData.favoritesTimestamp ||
         !existingData.favoritesProfile
     ) {
-        console.error(
-            `Favorites profile get for non-shared ${profileId} (${existingData?.name}) from client ${clientId}`,
-        )
+        logger.error('Favorites profile GET for non-shared profile', {
+            clientId,
+            profileId,
+            userName: existingData?.name,
+        })
         res.status(404).send({
             status: `error`,
             reason: `Favorites profile ${profileId} is not shared`,
@@ -574,18 +662,23 @@ export async function favoritesProfileGet(req: express.Request, res: express.Res
     if (!(await validateProfileAuth(req, res, existingData.password))) return
     const precondition = req.header('If-None-Match')
     if (precondition && precondition === `"${existingData.favoritesTimestamp}"`) {
-        console.log(
-            `Precondition Failed on GET of favorites profile ${profileId} (${existingData.name}) from client ${clientId}`,
-        )
+        logger.info('Precondition Failed on GET of favorites profile', {
+            clientId,
+            profileId,
+            userName: existingData.name,
+        })
         res.status(412).send({
             status: `error`,
             reason: `Server favorites timestamp matches client timestamp`,
         })
         return
     }
-    console.log(
-        `Successful GET of favorites profile ${profileId} (${existingData?.name}, ${existingData.favoritesTimestamp}) from client ${clientId}`,
-    )
+    logger.info('Successful GET of favorites profile', {
+        clientId,
+        profileId,
+        userName: existingData?.name,
+        timestamp: existingData.favoritesTimestamp,
+    })
     res.setHeader('ETag', `"${existingData.favoritesTimestamp}"`)
     const body = JSON.parse(existingData.favoritesProfile)
     res.status(200).send(body)
@@ -13,7 +13,15 @@ import {
     logChannelEvent,
     logPresenceChunk,
 } from '../routes.js'
-import { listTranscripts } from './transcribe.js'
+import {
+    listTranscripts,
+    retranscribePost,
+    searchTranscripts,
+    transcriptDelete,
+    transcriptErrorsGet,
+    transcriptSettingsGet,
+    transcriptSettingsPut,
+} from './transcribe.js'
 import {
     favoritesProfileGet,
     favoritesProfilePost,
@@ -37,9 +45,13 @@ export const v2router = express.Router()
 v2router
     .post('/apnsToken', asyncWrapper(apnsToken))
     .post('/apnsReceivedNotification', asyncWrapper(apnsReceivedNotification))
-    .post('/logPresenceChunk', asyncWrapper(logPresenceChunk))
-    .post('/logAnomaly', asyncWrapper(logAnomaly))
-    .post('/logChannelEvent', asyncWrapper(logChannelEvent))
+    .post(
+        '/logPresenceChunk',
+        [cookieMiddleware, sessionMiddleware],
+        asyncWrapper(logPresenceChunk),
+    )
+    .post('/logAnomaly', [cookieMiddleware, sessionMiddleware], asyncWrapper(logAnomaly))
+    .post('/logChannelEvent', [cookieMiddleware, sessionMiddleware], asyncWrapper(logChannelEvent))
     .post('/userProfile', asyncWrapper(userProfilePost))
     .put('/userProfile/:profileId', asyncWrapper(userProfilePut))
     .get('/userProfile/:profileId', asyncWrapper(userProfileGet))
@@ -64,3 +76,10 @@ v2router
         asyncWrapper(listenTokenRequest),
     )
     .get('/listTranscripts/:clientId/:conversationId', asyncWrapper(listTranscripts))
+    .get('/searchTranscripts/:clientId', asyncWrapper(searchTranscripts))
+    .delete('/transcript/:conversationId/:transcriptId', asyncWrapper(transcriptDelete))
+    .get('/transcriptSettings/:conversationId', asyncWrapper(transcriptSettingsGet))
+    .put('/transcriptSettings/:conversationId', asyncWrapper(transcriptSettingsPut))
+    .get('/transcriptErrors/:conversationId', asyncWrapper(transcriptErrorsGet))
+    .get('/transcriptErrors/:conversationId/:transcriptId', asyncWrapper(transcriptErrorsGet))
+    .post('/retranscribe/:conversationId/:transcriptId', asyncWrapper(retranscribePost))
@@ -5,7 +5,7 @@
 import express from 'express'
 import { randomUUID } from 'crypto'
 
-import { createAblyPublishTokenRequest, createAblySubscribeTokenRequest } from './auth.js'
+import { createPublishTokenRequest, createSubscribeTokenRequest } from './auth.js'
 import { subscribeResponse } from './templates.js'
 import { validateClientAuth } from '../auth.js'
 import {
@@ -16,43 +16,51 @@ import {
     saveProfileData,
     setConversationInfo,
 } from '../profile.js'
-import { dbKeyPrefix, getDbClient, getPresenceLogging } from '../db.js'
+import { getPresenceLogging } from '../db.js'
+import { getStorage } from '../storage.js'
 import { ensureTranscriptionEnded, startTranscription } from './transcribe.js'
+import { getTransport } from '../transport.js'
+import { logger } from '../logger.js'
+import { tokenRequests } from '../metrics.js'
 
 export async function pubSubTokenRequest(req: express.Request, res: express.Response) {
-    const rc = await getDbClient()
+    const sessions = getStorage().sessions
     const body: { [p: string]: string } = req.body
     if (!body?.clientId || !body?.activity || !body?.conversationId || !body.profileId) {
-        console.log(
-            `Missing key in pub-sub token request body from ${body?.clientId}: ${JSON.stringify(body)}`,
-        )
+        logger.warn('Missing key in pub-sub token request body', {
+            clientId: body?.clientId,
+            keys: Object.keys(body || {}),
+        })
         res.status(400).send({ status: 'error', reason: 'Invalid pub-sub POST data' })
         return
     }
     const { clientId, activity, conversationId } = body
     if (!(await validateClientAuth(req, res, clientId))) {
-        console.error(`Unauthorized token v2 request received from application client ${clientId}`)
+        logger.error('Unauthorized token v2 request received from application client', { clientId })
         return
     }
     if (activity.toLowerCase() == 'publish') {
         if (!body?.conversationName || !body?.contentId || !body?.username) {
-            console.log(
-                `Missing key in publish token v2 request body from client ${clientId}: ${JSON.stringify(body)}`,
-            )
+            logger.warn('Missing key in publish token v2 request body', {
+                clientId,
+                keys: Object.keys(body),
+            })
             res.status(400).send({ status: 'error', reason: 'Invalid publish POST data' })
             return
         }
-        const cccKey = dbKeyPrefix + `ccc:${clientId}|${conversationId}|${body.contentId}`
-        let existing = await rc.set(cccKey, 'no-transcript', { EX: 48 * 3600, GET: true })
-        if (existing === null) {
+        const cccKey = `ccc:${clientId}|${conversationId}|${body.contentId}`
+        let existing = await sessions.setMarker(cccKey, 'no-transcript', 48 * 3600)
+        if (existing === undefined) {
             // this is the first time we've been asked to authenticate this conversation.
             // the expiration causes the key to be garbage collected
             // once the conversation is over (not being authenticated)
-            console.log(
-                `Whisperer ${body.profileId} (${body.username}) ` +
-                `is starting conversation ${conversationId} (${body.conversationName}) ` +
-                `from client ${clientId}`,
-            )
+            logger.info('Whisperer is starting conversation', {
+                clientId,
+                profileId: body.profileId,
+                userName: body.username,
+                conversationId,
+                conversationName: body.conversationName,
+            })
             const info: ConversationInfo = {
                 id: conversationId,
                 name: body.conversationName,
@@ -65,67 +73,80 @@ export async function pubSubTokenRequest(req: express.Request, res: express.Resp
             // is terminated. Since the cccKey doesn't exist, the existing transcript must
             // have been for a different contentId, and thus a different instance of the
             // conversation.
-            const cpcKey = dbKeyPrefix + `cpc:${clientId}|${body.profileId}|${conversationId}`
-            const existingTranscriptId = await rc.get(cpcKey)
-            if (existingTranscriptId !== null) {
+            const cpcKey = `cpc:${clientId}|${body.profileId}|${conversationId}`
+            const existingTranscriptId = await sessions.getMarker(cpcKey)
+            if (existingTranscriptId !== undefined) {
                 await ensureTranscriptionEnded(existingTranscriptId)
             }
             if (body?.transcribe === 'yes') {
                 const tzId = body?.tzId || 'America/Los_Angeles'
-                const trId = await startTranscription(clientId, conversationId, body.contentId, tzId)
+                const trId = await startTranscription(
+                    clientId,
+                    conversationId,
+                    body.contentId,
+                    tzId,
+                    body.profileId,
+                    body.username,
+                )
                 // remember transcript against this session, profile, and client
                 existing = trId
-                await rc.set(cccKey, trId, { EX: 48 * 3600, GET: true })
-                await rc.set(cpcKey, trId)
+                await sessions.setMarker(cccKey, trId, 48 * 3600)
+                await sessions.setMarker(cpcKey, trId)
             } else {
                 // there is no transcription against this profile or client
                 existing = 'no-transcript'
-                await rc.del(cpcKey)
+                await sessions.deleteMarker(cpcKey)
             }
         } else {
-            console.log(
-                `Renewing authentication: Whisperer ${body.profileId} (${body.username}) ` +
-                `for conversation ${conversationId} (${body.conversationName}) ` +
-                `from client ${clientId}`,
-            )
+            logger.info('Renewing Whisperer authentication', {
+                clientId,
+                profileId: body.profileId,
+                userName: body.username,
+                conversationId,
+                conversationName: body.conversationName,
+            })
         }
-        const tokenRequest = await createAblyPublishTokenRequest(
+        const tokenRequest = await createPublishTokenRequest(
             clientId,
             conversationId,
             body.contentId,
         )
+        tokenRequests.inc({ api: 'v2', activity: 'publish' })
         res.status(200).send({
             status: 'success',
             tokenRequest: JSON.stringify(tokenRequest),
             transcriptId: existing,
         })
     } else if (activity.toLowerCase() == 'subscribe') {
-        const ccKey = dbKeyPrefix + `ccc:${clientId}|${conversationId}`
-        const existing = await rc.set(ccKey, 'listen', { EX: 3660, GET: true })
-        if (existing !== null) {
+        const ccKey = `ccc:${clientId}|${conversationId}`
+        const existing = await sessions.setMarker(ccKey, 'listen', 3660)
+        if (existing !== undefined) {
             const profile = await getProfileData(body.profileId)
-            console.log(
-                `Listener ${body.profileId} (${profile?.name}) ` +
-                `is looking for conversation ${conversationId} (${body.conversationName}) ` +
-                `from client ${clientId}`,
-            )
+            logger.info('Listener is looking for conversation', {
+                clientId,
+                profileId: body.profileId,
+                userName: profile?.name,
+                conversationId,
+                conversationName: body.conversationName,
+            })
             // update the last-used date on the profile
             const update: ProfileData = { id: body.profileId }
             await saveProfileData(update)
         } else {
             const profile = await getProfileData(body.profileId)
-            console.log(
-                `Renewing authentication: Listener ${body.profileId} (${profile?.name}) ` +
-                `to listen to conversation ${conversationId} (${body.conversationName}) ` +
-                `from client ${clientId}`,
-            )
+            logger.info('Renewing Listener authentication', {
+                clientId,
+                profileId: body.profileId,
+                userName: profile?.name,
+                conversationId,
+                conversationName: body.conversationName,
+            })
         }
-        const tokenRequest = await createAblySubscribeTokenRequest(clientId, conversationId)
+        const tokenRequest = await createSubscribeTokenRequest(clientId, conversationId)
+        tokenRequests.inc({ api: 'v2', activity: 'subscribe' })
         res.status(200).send({ status: 'success', tokenRequest: JSON.stringify(tokenRequest) })
     } else {
-        console.error(
-            `Invalid activity in token v2 request from client {$clientId}: ${JSON.stringify(body)}`,
-        )
+        logger.error('Invalid activity in token v2 request', { clientId, activity })
         res.status(400).send({ status: 'error', reason: 'Invalid activity' })
     }
 }
@@ -138,18 +159,19 @@ export async function listenToConversation(req: express.Request, res: express.Re
     const conversationId = req.params?.conversationId
     let haveConversationData = true
     if (!conversationId || !conversationId.match(/^[-0-9a-zA-Z]{36}$/)) {
-        console.error(`Web browser is looking for invalid conversation ${conversationId}`)
+        logger.error('Web browser is looking for invalid conversation', { conversationId })
         haveConversationData = false
     }
     const info = await getConversationInfo(conversationId)
     const profileData = info ? await getProfileData(info.ownerId) : undefined
     if (!info) {
-        console.error(`Web browser is looking for unknown conversation ${conversationId}`)
+        logger.error('Web browser is looking for unknown conversation', { conversationId })
         haveConversationData = false
     } else if (!profileData?.name) {
-        console.error(
-            `Web browser is looking for conversation ${conversationId} with unknown profile owner ${info.ownerId}`,
-        )
+        logger.error('Web browser is looking for conversation with unknown profile owner', {
+            conversationId,
+            profileId: info.ownerId,
+        })
         haveConversationData = false
     }
     if (!haveConversationData) {
@@ -160,11 +182,13 @@ export async function listenToConversation(req: express.Request, res: express.Re
     let clientId = req?.session?.clientId
     if (!clientId) {
         clientId = randomUUID().toUpperCase()
-        console.log(`Created new client for web: ${clientId}`)
+        logger.info('Created new client for web', { clientId })
     }
-    console.log(
-        `Sending listen page for conversation ${conversationId} (${info!.name}) to web client ${clientId}`,
-    )
+    logger.info('Sending listen page for conversation', {
+        clientId,
+        conversationId,
+        conversationName: info!.name,
+    })
     req.session = { clientId, conversationId }
     setCookie('conversationId', conversationId)
     setCookie('conversationName', info!.name)
@@ -173,6 +197,7 @@ export async function listenToConversation(req: express.Request, res: express.Re
     setCookie('clientName', req.cookies?.clientName || '')
     setCookie('logPresenceChunks', (await getPresenceLogging()) ? 'yes' : '')
     setCookie('playTyping', req.cookies?.playTyping || 'YES')
+    setCookie('realtimeTransport', getTransport().name)
     const body = subscribeResponse(info!.name, profileData!.name!)
     res.status(200).send(body)
 }
@@ -183,15 +208,18 @@ export async function listenTokenRequest(req: express.Request, res: express.Resp
     const conversationId = req?.session?.conversationId
     const conversationName = req?.cookies?.conversationName || 'unknown'
     if (!clientId || !conversationId) {
-        console.error('Refusing listen token request outside of session')
+        logger.error('Refusing listen token request outside of session')
         res.status(403).send({ status: 'error', reason: 'no session to support authentication' })
         return
     }
-    console.log(
-        `Listen token request from web client ${clientId} (${clientName}) ` +
-        `to conversation ${conversationId} (${conversationName})`,
-    )
-    const tokenRequest = await createAblySubscribeTokenRequest(clientId, conversationId)
+    logger.info('Listen token request from web client', {
+        clientId,
+        userName: clientName,
+        conversationId,
+        conversationName,
+    })
+    const tokenRequest = await createSubscribeTokenRequest(clientId, conversationId)
+    tokenRequests.inc({ api: 'v2', activity: 'listen' })
     res.status(200).send(tokenRequest)
 }
 
@@ -199,23 +227,33 @@ export async function postUsername(req: express.Request, res: express.Response)
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const body: { [p: string]: string } = req.body
     if (!body?.id || !body?.name) {
-        console.log(`Missing key in username POST body from ${clientId}: ${JSON.stringify(body)}`)
+        logger.warn('Missing key in username POST body', {
+            clientId,
+            keys: Object.keys(body || {}),
+        })
         res.status(400).send({ status: 'error', reason: 'Invalid username POST data' })
         return
     }
     if (body?.password) {
-        console.error(`Non-empty password in username update from ${clientId}: ${JSON.stringify(body)}`)
+        logger.error('Non-empty password in username update', { clientId, profileId: body.id })
     } else {
         const existing = await getProfileData(body.id)
         if (existing && existing?.password) {
-            console.error(`Username update received for shared profile: ${existing.id} from client ${clientId}`)
+            logger.error('Username update received for shared profile', {
+                clientId,
+                profileId: existing.id,
+            })
             res.status(403).send({ status: 'error', reason: `Can't update username on shared profile` })
             return
         }
     }
     const update: ProfileData = { id: body.id, name: body.name }
     await saveProfileData(update)
-    console.info(`Posted username for profile ${body.id} (${body.name}) from client ${clientId}`)
+    logger.info('Posted username for profile', {
+        clientId,
+        profileId: body.id,
+        userName: body.name,
+    })
     res.status(204).send()
 }
 
@@ -223,18 +261,21 @@ export async function postConversation(req: express.Request, res: express.Respon
     const clientId = req.header('X-Client-Id') || 'unknown-client'
     const body: { [p: string]: string } = req.body
     if (!body?.id || !body?.name || !body?.ownerId || typeof body?.ownerName !== 'string') {
-        console.log(
-            `Missing key in conversation POST body from ${clientId}: ${JSON.stringify(body)}`,
-        )
+        logger.warn('Missing key in conversation POST body', {
+            clientId,
+            keys: Object.keys(body || {}),
+        })
         res.status(400).send({ status: 'error', reason: 'Invalid conversation POST data' })
         return
     }
     const info: ConversationInfo = { id: body.id, name: body.name, ownerId: body.ownerId }
     const existing = await getConversationInfo(info.id)
     if (existing && existing.ownerId != info.ownerId) {
-        console.error(
-            `Collision on owner profile ${info.id}: POST from client ${clientId} is rejected`,
-        )
+        logger.error('Collision on owner profile: conversation POST is rejected', {
+            clientId,
+            conversationId: info.id,
+            profileId: info.ownerId,
+        })
         res.status(409).send({ status: 'error', reason: `Owner ID doesn't match existing` })
         return
     }
@@ -242,16 +283,22 @@ export async function postConversation(req: express.Request, res: express.Respon
     const update: ProfileData = { id: body.ownerId, name: body.ownerName }
     await saveProfileData(update)
     if (existing) {
-        console.info(
-            `Updated conversation ${info.id} (${info.name}) ` +
-            `for user ${info.ownerId} (${body.ownerName}) posted from client ${clientId}`,
-        )
+        logger.info('Updated conversation', {
+            clientId,
+            conversationId: info.id,
+            conversationName: info.name,
+            profileId: info.ownerId,
+            userName: body.ownerName,
+        })
         res.status(204).send()
     } else {
-        console.log(
-            `New conversation ${info.id} (${info.name}) ` +
-            `for user ${info.ownerId} (${body.ownerName}) posted from client ${clientId}`,
-        )
+        logger.info('New conversation', {
+            clientId,
+            conversationId: info.id,
+            conversationName: info.name,
+            profileId: info.ownerId,
+            userName: body.ownerName,
+        })
         res.status(201).send()
     }
 }
@@ -0,0 +1,114 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+/*
+Search index design note:
+
+Each conversation has its own inverted index of the words in its transcripts.
+For every distinct word in a transcript there is a set, keyed by the
+conversation ID and the word, that contains the IDs of the conversation's
+transcripts that use that word.  A search intersects the sets for the words
+in the query, so finding candidate transcripts never requires reading them.
+
+The index sets expire no earlier than the transcripts they point to, and may
+outlive some of them, so callers must check candidate transcripts still exist.
+Because adding a transcript only ever extends a set's expiry, a conversation
+whose retention changes has each of its sets set to expire with the latest of
+its transcripts that use it, so no set outlives a shorter retention.
+ */
+
+import { escape } from 'html-escaper'
+
+import { getStorage } from '../storage.js'
+import { TranscriptData } from './transcribe.js'
+
+export interface SearchResult {
+    id: string
+    conversationId: string
+    conversationName: string
+    startTime: number
+    snippets: string[]
+}
+
+const maxSnippetsPerTranscript = 3
+const snippetContextChars = 60
+
+export function searchWords(text: string) {
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+    return [...new Set(words.filter((word) => word.length > 1))]
+}
+
+// the transcript expires at the given time in seconds since the epoch, or never
+export async function indexTranscript(tr: TranscriptData, expiresAt: number | undefined) {
+    const words = searchWords(tr.transcription || '')
+    await getStorage().search.add(tr.conversationId, words, tr.id, expiresAt)
+}
+
+// after a conversation's retention changes, its words expire with the latest of
+// its transcripts that use them, and those already past their expiry are removed
+export async function reindexTranscripts(
+    conversationId: string,
+    retained: { tr: TranscriptData; expiresAt: number | undefined }[],
+) {
+    const now = Math.floor(Date.now() / 1000)
+    // the latest expiry of each word, where Infinity is never
+    const latest: Map<string, number> = new Map()
+    for (const { tr, expiresAt } of retained) {
+        const words = searchWords(tr.transcription || '')
+        const time = expiresAt ?? Infinity
+        if (time <= now) {
+            await getStorage().search.remove(conversationId, words, tr.id)
+        } else {
+            await getStorage().search.add(conversationId, words, tr.id, expiresAt)
+        }
+        for (const word of words) {
+            latest.set(word, Math.max(latest.get(word) ?? 0, time))
+        }
+    }
+    const byTime: Map<number, string[]> = new Map()
+    for (const [word, time] of latest) {
+        byTime.set(time, [...(byTime.get(time) || []), word])
+    }
+    for (const [time, words] of byTime) {
+        const expiresAt = time === Infinity ? undefined : time
+        await getStorage().search.expireAt(conversationId, words, expiresAt)
+    }
+}
+
+export async function unindexTranscript(tr: TranscriptData) {
+    const words = searchWords(tr.transcription || '')
+    await getStorage().search.remove(tr.conversationId, words, tr.id)
+}
+
+export async function findIndexedTranscripts(conversationId: string, words: string[]) {
+    return new Set(await getStorage().search.find(conversationId, words))
+}
+
+export function searchSnippets(text: string, words: string[]) {
+    const pattern = new RegExp(
+        `(?<![\\p{L}\\p{N}])(${words.join('|')})(?![\\p{L}\\p{N}])`,
+        'giu',
+    )
+    const snippets: string[] = []
+    for (const line of text.split('\n')) {
+        const first = line.search(pattern)
+        if (first < 0) {
+            continue
+        }
+        const start = Math.max(0, first - snippetContextChars)
+        const end = Math.min(line.length, first + snippetContextChars)
+        const prefix = start > 0 ? '…' : ''
+        const suffix = end < line.length ? '…' : ''
+        // escape each piece separately, so the highlight markup survives
+        const parts = line.substring(start, end).split(pattern)
+        const marked = parts
+            .map((part, i) => (i % 2 === 1 ? `<mark>${escape(part)}</mark>` : escape(part)))
+            .join('')
+        snippets.push(prefix + marked + suffix)
+        if (snippets.length >= maxSnippetsPerTranscript) {
+            break
+        }
+    }
+    return snippets
+}
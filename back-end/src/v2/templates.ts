@@ -2,8 +2,14 @@
 // Licensed under the GNU Affero General Public License v3.
 // See the LICENSE file for details.
 
-import { TranscriptData } from './transcribe.js'
-import { getConversationInfo } from '../profile.js'
+import {
+    LiveTranscript,
+    TranscriptAnnotation,
+    TranscriptData,
+    TranscriptLine,
+    TranscriptStats,
+} from './transcribe.js'
+import { ConversationInfo, getConversationInfo } from '../profile.js'
 import { escape } from 'html-escaper'
 
 export function subscribeResponse(_conversation_name: string, whisperer_name: string) {
@@ -22,15 +28,15 @@ export function subscribeResponse(_conversation_name: string, whisperer_name: st
 `
 }
 
-export async function transcriptResponse(tr: TranscriptData) {
+export async function transcriptResponse(tr: TranscriptData, live?: LiveTranscript) {
     if (tr.transcription || tr.errCount) {
         return await transcriptPage(tr)
     } else {
-        return await transcriptInProgress(tr)
+        return await transcriptInProgress(tr, live || { lines: [], liveText: '' })
     }
 }
 
-async function transcriptInProgress(tr: TranscriptData) {
+async function transcriptInProgress(tr: TranscriptData, live: LiveTranscript) {
     const con = await getConversationInfo(tr.conversationId)
     const start: string = Intl.DateTimeFormat('en-US', {
         timeZone: tr.tzId,
@@ -56,95 +62,200 @@ async function transcriptInProgress(tr: TranscriptData) {
     return `
 <!DOCTYPE html>
 <html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <link rel="apple-touch-icon" sizes="57x57" href="/img/apple-icon-57x57.png">
-    <link rel="apple-touch-icon" sizes="60x60" href="/img/apple-icon-60x60.png">
-    <link rel="apple-touch-icon" sizes="72x72" href="/img/apple-icon-72x72.png">
-    <link rel="apple-touch-icon" sizes="76x76" href="/img/apple-icon-76x76.png">
-    <link rel="apple-touch-icon" sizes="114x114" href="/img/apple-icon-114x114.png">
-    <link rel="apple-touch-icon" sizes="120x120" href="/img/apple-icon-120x120.png">
-    <link rel="apple-touch-icon" sizes="144x144" href="/img/apple-icon-144x144.png">
-    <link rel="apple-touch-icon" sizes="152x152" href="/img/apple-icon-152x152.png">
-    <link rel="apple-touch-icon" sizes="180x180" href="/img/apple-icon-180x180.png">
-    <link rel="icon" type="image/png" sizes="192x192" href="/img/android-icon-192x192.png">
-    <link rel="icon" type="image/png" sizes="32x32" href="/img/favicon-32x32.png">
-    <link rel="icon" type="image/png" sizes="96x96" href="/img/favicon-96x96.png">
-    <link rel="icon" type="image/png" sizes="16x16" href="/img/favicon-16x16.png">
-    <link rel="stylesheet" href="https://fonts.googleapis.com/css?family=Roboto">
-    <link rel="stylesheet" href="/css/transcript.css">
-    <title>Conversation ${con?.name || 'Unknown Conversation'} in progress</title>
-    <meta http-equiv="refresh" content="60">
-</head>
+${pageHead(`Conversation ${con?.name || 'Unknown Conversation'} in progress`)}
 <body>
     <div class="transcript">
     <h2>Transcript of ${con?.name || 'Unknown Conversation'}</h2>
     <div class="duration">
         <p>Started at ${start}, in progress for ${duration}...</p>
     </div>
-    <p>When the conversation session has concluded,
-       <a href="javascript:window.location.reload(true)">refresh this page</a>
-       to see the transcript.
+    ${timedLinesHtml(tr, live.lines)}
+    <div class="live" id="live">${escape(live.liveText)}</div>
+    <p id="status">This transcript updates as the conversation goes on.
+       If it stops updating,
+       <a href="javascript:window.location.reload(true)">refresh this page</a>.
     </p>
+    </div>
+    <script>
+    (function () {
+        const lines = document.getElementById('lines')
+        const live = document.getElementById('live')
+        const format = new Intl.DateTimeFormat('en-US', {
+            timeZone: ${scriptString(tr.tzId)},
+            hour12: true,
+            hour: 'numeric',
+            minute: '2-digit',
+        })
+        let lastGutter = ${scriptString(lastGutter(tr, live.lines))}
+        let emptyLineAbove = false
+        const source = new EventSource(window.location.pathname + '/events?from=${live.lines.length}')
+        source.addEventListener('line', (event) => {
+            const line = JSON.parse(event.data)
+            if (!line.text && emptyLineAbove) {
+                // multiple empty lines are ignored
+                return
+            }
+            emptyLineAbove = !line.text
+            const div = document.createElement('div')
+            div.className = line.text ? 'line' : 'line gap'
+            if (line.text) {
+                const gutter = line.time ? format.format(new Date(line.time)) : ''
+                const time = document.createElement('span')
+                time.className = 'time'
+                time.textContent = gutter === lastGutter ? '' : gutter
+                lastGutter = gutter || lastGutter
+                const text = document.createElement('span')
+                text.className = 'text'
+                text.textContent = line.text
+                div.append(time, text)
+            }
+            lines.append(div)
+        })
+        source.addEventListener('live', (event) => {
+            live.textContent = JSON.parse(event.data).text
+        })
+        source.addEventListener('end', () => {
+            source.close()
+            window.location.reload()
+        })
+    })()
+    </script>
 </body>
 `
 }
 
 async function transcriptPage(tr: TranscriptData) {
     const con = await getConversationInfo(tr.conversationId)
-    const minutes = Math.round(tr.duration! / (60 * 1000))
-    const start: string = Intl.DateTimeFormat('en-US', {
-        timeZone: tr.tzId,
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-        hour12: true,
-        hour: 'numeric',
-        minute: '2-digit',
-        timeZoneName: 'short',
-    }).format(new Date(tr.startTime))
-    let duration = `${minutes} min`
-    if (minutes < 1) {
-        const seconds = Math.floor(minutes / 1000)
-        duration = `${seconds} sec`
-    } else if (minutes > (24 * 60)) {
-        const days = Math.floor(minutes / (24 * 60))
-        const hours = Math.floor((minutes % (24 * 60)) / 60)
-        duration = `${days} day ${hours} hr`
-    } else if (minutes > 90) {
-        const hours = Math.floor(minutes / 60)
-        duration = `${hours} hr ${minutes % 60} min`
-    }
+    const start = startTimeString(tr)
+    const duration = durationString(tr)
     let html = `
 <!DOCTYPE html>
 <html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <link rel="apple-touch-icon" sizes="57x57" href="/img/apple-icon-57x57.png">
-    <link rel="apple-touch-icon" sizes="60x60" href="/img/apple-icon-60x60.png">
-    <link rel="apple-touch-icon" sizes="72x72" href="/img/apple-icon-72x72.png">
-    <link rel="apple-touch-icon" sizes="76x76" href="/img/apple-icon-76x76.png">
-    <link rel="apple-touch-icon" sizes="114x114" href="/img/apple-icon-114x114.png">
-    <link rel="apple-touch-icon" sizes="120x120" href="/img/apple-icon-120x120.png">
-    <link rel="apple-touch-icon" sizes="144x144" href="/img/apple-icon-144x144.png">
-    <link rel="apple-touch-icon" sizes="152x152" href="/img/apple-icon-152x152.png">
-    <link rel="apple-touch-icon" sizes="180x180" href="/img/apple-icon-180x180.png">
-    <link rel="icon" type="image/png" sizes="192x192" href="/img/android-icon-192x192.png">
-    <link rel="icon" type="image/png" sizes="32x32" href="/img/favicon-32x32.png">
-    <link rel="icon" type="image/png" sizes="96x96" href="/img/favicon-96x96.png">
-    <link rel="icon" type="image/png" sizes="16x16" href="/img/favicon-16x16.png">
-    <link rel="stylesheet" href="https://fonts.googleapis.com/css?family=Roboto">
-    <link rel="stylesheet" href="/css/transcript.css">
-    <title>Transcript of ${con?.name || 'Unknown Conversation'}</title>
-</head>
+${pageHead(`Transcript of ${con?.name || 'Unknown Conversation'}`)}
 <body>
 <div class="transcript">
 <h2>Transcript of ${con?.name || 'Unknown Conversation'}</h2>
 <div class="duration">
     <p>Started at ${start}, lasted ${duration}</p>
+    ${tr.speakerName ? `<p>Whispered by ${escape(tr.speakerName)}</p>` : ''}
+</div>
+${tr.stats ? statsHtml(tr.stats) : ''}
+`
+    html += transcriptBodyHtml(tr)
+    html += `
+</body>
+</html>
+`
+    return html
+}
+
+export function conversationHistoryPage(con: ConversationInfo, trs: TranscriptData[]) {
+    const name = escape(con.name || 'Unknown Conversation')
+    let html = `
+<!DOCTYPE html>
+<html lang="en">
+${pageHead(`Sessions of ${name}`)}
+<body>
+<div class="transcript">
+<h2>Sessions of ${name}</h2>
+`
+    if (trs.length === 0) {
+        html += `<p class="duration">There are no transcripts of this conversation.</p>\n`
+    } else {
+        html += `<form class="sessions" method="get">\n`
+        for (const tr of trs) {
+            const href = `/transcript/${tr.conversationId}/${tr.id}`
+            html += `
+<div class="session">
+    <input type="checkbox" name="session" value="${tr.id}" aria-label="Include this session">
+    <div>
+        <a href="${href}">${startTimeString(tr)}</a>, lasted ${durationString(tr)}
+        <p class="first-line">${escape(firstLine(tr))}</p>
+    </div>
+</div>
+`
+        }
+        html += `
+<p class="duration">
+    <button type="submit">Show the selected sessions together</button>
+    or <a href="?session=all">show all the sessions together</a>
+</p>
+</form>
+`
+    }
+    html += `
+</div>
+</body>
+</html>
+`
+    return html
+}
+
+// sessions are shown oldest first, so the document reads in the order it happened
+export function combinedTranscriptPage(con: ConversationInfo, trs: TranscriptData[]) {
+    const name = escape(con.name || 'Unknown Conversation')
+    const sessions = [...trs].sort((a, b) => a.startTime - b.startTime)
+    let html = `
+<!DOCTYPE html>
+<html lang="en">
+${pageHead(`Transcript of ${name}`)}
+<body>
+<div class="transcript">
+<h2>Transcript of ${name}</h2>
+<div class="duration">
+    <p>${sessions.length} sessions, starting ${startTimeString(sessions[0])}</p>
+</div>
+`
+    for (const tr of sessions) {
+        html += `
+<h3 class="session-start">Started at ${startTimeString(tr)}, lasted ${durationString(tr)}</h3>
+${tr.speakerName ? `<p class="duration">Whispered by ${escape(tr.speakerName)}</p>` : ''}
+`
+        html += transcriptBodyHtml(tr)
+    }
+    html += `
+</div>
+</body>
+</html>
+`
+    return html
+}
+
+function firstLine(tr: TranscriptData) {
+    const line = (tr.transcription || '').split('\n').find((line) => line.trim()) || ''
+    return line.length > 80 ? line.substring(0, 79) + '…' : line
+}
+
+function statsHtml(stats: TranscriptStats) {
+    return `
+<div class="stats">
+    <span>${stats.wordCount} words</span>
+    <span>${stats.lineCount} lines</span>
+    <span>${stats.wordsPerMinute} words/min</span>
+    <span>longest pause ${pauseString(stats.longestPause)}</span>
+    <span>${stats.listenerCount} listeners</span>
+    <span>${stats.errCount} errors</span>
 </div>
 `
+}
+
+function pauseString(seconds: number) {
+    if (seconds < 60) {
+        return `${seconds} sec`
+    }
+    return `${Math.floor(seconds / 60)} min ${seconds % 60} sec`
+}
+
+function transcriptBodyHtml(tr: TranscriptData) {
+    if (tr.lines?.some((line) => line.time)) {
+        return timedTranscriptHtml(tr)
+    } else {
+        return untimedTranscriptHtml(tr)
+    }
+}
+
+function untimedTranscriptHtml(tr: TranscriptData) {
+    let html = ''
     const lines = tr.transcription!.split('\n')
     let inParagraph = false
     let emptyLineAbove = false
@@ -163,7 +274,7 @@ async function transcriptPage(tr: TranscriptData) {
             if (inParagraph) {
                 html += `<br>\n` + escape(line)
             } else {
-                html += `\n<p>${line}`
+                html += `\n<p>${escape(line)}`
             }
             inParagraph = true
             emptyLineAbove = false
@@ -172,10 +283,238 @@ async function transcriptPage(tr: TranscriptData) {
     if (inParagraph) {
         html += `</p>\n`
     }
-    html += `
-</body>
-</html>
-`
     return html
 }
 
+function timedTranscriptHtml(tr: TranscriptData) {
+    return `\n${timedLinesHtml(tr, tr.lines!, tr.annotations)}\n`
+}
+
+function timedLinesHtml(
+    tr: TranscriptData,
+    lines: TranscriptLine[],
+    annotations: TranscriptAnnotation[] = [],
+) {
+    const timeFormat = gutterTimeFormat(tr)
+    let html = `<div class="timed" id="lines">\n`
+    let lastGutter = ''
+    let emptyLineAbove = false
+    for (const [index, line] of lines.entries()) {
+        html += annotationsHtml(annotations.filter((a) => a.line === index))
+        if (line.text === '') {
+            if (!emptyLineAbove) {
+                html += `<div class="line gap"></div>\n`
+                emptyLineAbove = true
+            }
+            continue
+        }
+        // only show the time in the gutter when it changes
+        const gutter = line.time ? timeFormat.format(new Date(line.time)) : ''
+        const shown = gutter === lastGutter ? '' : gutter
+        lastGutter = gutter || lastGutter
+        html +=
+            `<div class="line"><span class="time">${shown}</span>` +
+            `<span class="text">${escape(line.text)}</span></div>\n`
+        emptyLineAbove = false
+    }
+    html += annotationsHtml(annotations.filter((a) => a.line >= lines.length))
+    html += `</div>`
+    return html
+}
+
+function annotationsHtml(annotations: TranscriptAnnotation[]) {
+    let html = ''
+    for (const annotation of annotations) {
+        const description =
+            annotation.kind === 'sound'
+                ? `Played sound: ${escape(annotation.text)}`
+                : `Spoke aloud: “${escape(annotation.text)}”`
+        html +=
+            `<div class="line annotation"><span class="time"></span>` +
+            `<span class="text">${description}</span></div>\n`
+    }
+    return html
+}
+
+function lastGutter(tr: TranscriptData, lines: TranscriptLine[]) {
+    const timed = lines.filter((line) => line.text && line.time)
+    const last = timed[timed.length - 1]
+    return last ? gutterTimeFormat(tr).format(new Date(last.time!)) : ''
+}
+
+function gutterTimeFormat(tr: TranscriptData) {
+    return Intl.DateTimeFormat('en-US', {
+        timeZone: tr.tzId,
+        hour12: true,
+        hour: 'numeric',
+        minute: '2-digit',
+    })
+}
+
+function pageHead(title: string) {
+    return `<head>
+    <meta charset="UTF-8">
+    <link rel="apple-touch-icon" sizes="57x57" href="/img/apple-icon-57x57.png">
+    <link rel="apple-touch-icon" sizes="60x60" href="/img/apple-icon-60x60.png">
+    <link rel="apple-touch-icon" sizes="72x72" href="/img/apple-icon-72x72.png">
+    <link rel="apple-touch-icon" sizes="76x76" href="/img/apple-icon-76x76.png">
+    <link rel="apple-touch-icon" sizes="114x114" href="/img/apple-icon-114x114.png">
+    <link rel="apple-touch-icon" sizes="120x120" href="/img/apple-icon-120x120.png">
+    <link rel="apple-touch-icon" sizes="144x144" href="/img/apple-icon-144x144.png">
+    <link rel="apple-touch-icon" sizes="152x152" href="/img/apple-icon-152x152.png">
+    <link rel="apple-touch-icon" sizes="180x180" href="/img/apple-icon-180x180.png">
+    <link rel="icon" type="image/png" sizes="192x192" href="/img/android-icon-192x192.png">
+    <link rel="icon" type="image/png" sizes="32x32" href="/img/favicon-32x32.png">
+    <link rel="icon" type="image/png" sizes="96x96" href="/img/favicon-96x96.png">
+    <link rel="icon" type="image/png" sizes="16x16" href="/img/favicon-16x16.png">
+    <link rel="stylesheet" href="https://fonts.googleapis.com/css?family=Roboto">
+    <link rel="stylesheet" href="/css/transcript.css">
+    <title>${title}</title>
+</head>`
+}
+
+// a string literal that is safe to embed in an inline script
+function scriptString(text: string) {
+    return JSON.stringify(text).replace(/</g, '\\u003c')
+}
+
+function startTimeString(tr: TranscriptData) {
+    return Intl.DateTimeFormat('en-US', {
+        timeZone: tr.tzId,
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour12: true,
+        hour: 'numeric',
+        minute: '2-digit',
+        timeZoneName: 'short',
+    }).format(new Date(tr.startTime))
+}
+
+function durationString(tr: TranscriptData) {
+    const minutes = Math.round(tr.duration! / (60 * 1000))
+    let duration = `${minutes} min`
+    if (minutes < 1) {
+        const seconds = Math.floor(minutes / 1000)
+        duration = `${seconds} sec`
+    } else if (minutes > (24 * 60)) {
+        const days = Math.floor(minutes / (24 * 60))
+        const hours = Math.floor((minutes % (24 * 60)) / 60)
+        duration = `${days} day ${hours} hr`
+    } else if (minutes > 90) {
+        const hours = Math.floor(minutes / 60)
+        duration = `${hours} hr ${minutes % 60} min`
+    }
+    return duration
+}
+
+const exportFormats = ['md', 'txt', 'json', 'srt'] as const
+
+export type ExportFormat = (typeof exportFormats)[number]
+
+export function isExportFormat(format: string | undefined): format is ExportFormat {
+    return exportFormats.includes(format as ExportFormat)
+}
+
+export async function transcriptExport(tr: TranscriptData, format: ExportFormat) {
+    const con = await getConversationInfo(tr.conversationId)
+    const name = con?.name || 'Unknown Conversation'
+    switch (format) {
+        case 'md':
+            return { contentType: 'text/markdown; charset=utf-8', body: markdownExport(tr, name) }
+        case 'txt':
+            return { contentType: 'text/plain; charset=utf-8', body: textExport(tr, name) }
+        case 'json':
+            return { contentType: 'application/json; charset=utf-8', body: jsonExport(tr, name) }
+        case 'srt':
+            return { contentType: 'application/x-subrip; charset=utf-8', body: srtExport(tr) }
+    }
+}
+
+function textExport(tr: TranscriptData, name: string) {
+    let text = `Transcript of ${name}\n`
+    text += `Started at ${startTimeString(tr)}, lasted ${durationString(tr)}\n`
+    if (tr.speakerName) {
+        text += `Whispered by ${tr.speakerName}\n`
+    }
+    text += '\n'
+    text += tr.transcription || ''
+    return text + '\n'
+}
+
+function markdownExport(tr: TranscriptData, name: string) {
+    let md = `# Transcript of ${name}\n\n`
+    md += `_Started at ${startTimeString(tr)}, lasted ${durationString(tr)}_\n\n`
+    if (tr.speakerName) {
+        md += `_Whispered by ${tr.speakerName}_\n\n`
+    }
+    // consecutive lines form a paragraph, so they need hard line breaks
+    const paragraphs = (tr.transcription || '').split(/\n{2,}/)
+    for (const paragraph of paragraphs) {
+        if (paragraph.trim()) {
+            md += paragraph.split('\n').join('  \n') + '\n\n'
+        }
+    }
+    return md
+}
+
+function jsonExport(tr: TranscriptData, name: string) {
+    const data = {
+        id: tr.id,
+        conversationId: tr.conversationId,
+        conversationName: name,
+        tzId: tr.tzId,
+        startTime: tr.startTime,
+        duration: tr.duration,
+        speakerId: tr.speakerId,
+        speakerName: tr.speakerName,
+        errCount: tr.errCount || 0,
+        endReason: tr.endReason,
+        stats: tr.stats,
+        text: tr.transcription || '',
+        lines: transcriptLines(tr),
+        annotations: tr.annotations || [],
+    }
+    return JSON.stringify(data, null, 2)
+}
+
+function srtExport(tr: TranscriptData) {
+    // lines from transcripts made before line times were kept
+    // are spread evenly over the length of the session
+    const lines = transcriptLines(tr)
+    const duration = tr.duration || 0
+    const offsets = lines.map((line, index) =>
+        line.time
+            ? Math.max(0, line.time - tr.startTime)
+            : Math.round((index * duration) / lines.length),
+    )
+    let srt = ''
+    let cue = 0
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].text.trim()) {
+            continue
+        }
+        // each line is shown from the time it was committed until the next line is
+        const start = offsets[i]
+        const end = Math.max(start + 1000, i + 1 < lines.length ? offsets[i + 1] : duration)
+        cue++
+        srt += `${cue}\n${srtTime(start)} --> ${srtTime(end)}\n${lines[i].text}\n\n`
+    }
+    return srt
+}
+
+function srtTime(offsetMs: number) {
+    const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0')
+    const hours = Math.floor(offsetMs / 3_600_000)
+    const minutes = Math.floor((offsetMs % 3_600_000) / 60_000)
+    const seconds = Math.floor((offsetMs % 60_000) / 1000)
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(offsetMs % 1000, 3)}`
+}
+
+function transcriptLines(tr: TranscriptData): TranscriptLine[] {
+    if (tr.lines?.length) {
+        return tr.lines
+    }
+    return (tr.transcription || '').split('\n').map((text) => ({ text }))
+}
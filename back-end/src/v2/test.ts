@@ -2,16 +2,90 @@
 // Licensed under the GNU Affero General Public License v3.
 // See the LICENSE file for details.
 
-import { createAblyPublishTokenRequest, createAblySubscribeTokenRequest } from './auth.js'
+import { createPublishTokenRequest, createSubscribeTokenRequest } from './auth.js'
+import { v2router } from './router.js'
+import {
+    adoptOrphanedTranscripts,
+    checkLocalTranscripts,
+    computeTranscriptStats,
+    ensureTranscriptionEnded,
+    getConversationHistory,
+    getTranscriptExport,
+    getTranscriptPage,
+    getTranscriptsForConversation,
+    getTranscript,
+    heartbeatTranscriptions,
+    indexTranscriptsForSearch,
+    reconstructTranscript,
+    SERVER_ID,
+    startTranscription,
+    streamTranscript,
+    TranscriptData,
+} from './transcribe.js'
+import { findIndexedTranscripts, indexTranscript } from './search.js'
+import { transcriptExport, transcriptResponse } from './templates.js'
+import { getConversationInfo, setConversationInfo, TranscriptAccess } from '../profile.js'
+import { createClientJwt, makeNonce } from '../auth.js'
+import { setClientData } from '../client.js'
+import { asyncWrapper, cookieMiddleware, sessionMiddleware } from '../middleware.js'
+import { getStorage } from '../storage.js'
+import { getTransport, TransportMessage } from '../transport.js'
+import { createWebSocketTransport } from '../transports/websocket.js'
+import { logger } from '../logger.js'
 import { randomUUID } from 'crypto'
 import assert from 'assert'
+import express from 'express'
+import { context, fetch } from 'fetch-h2'
+import http from 'node:http'
+import { ChildProcess, fork } from 'node:child_process'
+
+const testOrigin = 'http://localhost:2205'
+
+function startTestServer() {
+    // the v2 API and the transcript pages, mounted as the server mounts them
+    const session = [cookieMiddleware, sessionMiddleware]
+    return express()
+        .use(express.json())
+        .use('/api/v2', v2router)
+        .get('/transcript/:conversationId/:transcriptId.:format', session,
+            asyncWrapper(getTranscriptExport))
+        .get('/transcript/:conversationId/:transcriptId', session, asyncWrapper(getTranscriptPage))
+        .get('/transcript/:conversationId/:transcriptId/events', session,
+            asyncWrapper(streamTranscript))
+        .get('/conversation/:conversationId/history', session,
+            asyncWrapper(getConversationHistory))
+        // starts a web listener's session, as the listen page does
+        .get('/test/session/:clientId', session, (req, res) => {
+            req.session = { clientId: req.params.clientId }
+            res.status(204).send()
+        })
+        .listen(2205)
+}
+
+async function createTestUser() {
+    // a client of a profile, with the headers it authenticates with
+    const clientId = randomUUID()
+    const profileId = randomUUID()
+    await setClientData({
+        id: clientId,
+        profileId,
+        secret: await makeNonce(),
+        lastSecret: await makeNonce(),
+        secretDate: Date.now(),
+    })
+    const headers = {
+        'X-Client-Id': clientId,
+        Authorization: `Bearer ${await createClientJwt(clientId)}`,
+    }
+    return { clientId, profileId, headers }
+}
 
 
 async function testAbly() {
     const clientId = randomUUID()
     const conversationId = randomUUID()
     const contentId = randomUUID()
-    const pubRequest = await createAblyPublishTokenRequest(clientId, conversationId, contentId)
+    const pubRequest = await createPublishTokenRequest(clientId, conversationId, contentId)
     assert(pubRequest.clientId === clientId, 'Publish token\'s client key is wrong')
     const pubCaps = JSON.parse(pubRequest.capability)
     assert(pubCaps[`${conversationId}:control`].includes('publish'),
@@ -26,7 +100,7 @@ async function testAbly() {
         'Publish token authorizes control content subscribe')
     assert(!pubCaps[`${conversationId}:${contentId}`].includes('presence'),
         'Publish token authorizes content channel presence')
-    const subRequest = await createAblySubscribeTokenRequest(clientId, conversationId)
+    const subRequest = await createSubscribeTokenRequest(clientId, conversationId)
     assert(subRequest.clientId === clientId, 'Subscribe token\'s client key is wrong')
     const subCaps = JSON.parse(subRequest.capability)
     assert(subCaps[`${conversationId}:control`].includes('publish'),
@@ -43,11 +117,738 @@ async function testAbly() {
         'Subscribe token authorizes content channel presence')
 }
 
+async function testTranscription() {
+    const startTime = Date.now() - 60000
+    const tr: TranscriptData = {
+        id: randomUUID(),
+        clientId: randomUUID(),
+        conversationId: randomUUID(),
+        contentId: randomUUID(),
+        tzId: 'America/Los_Angeles',
+        startTime,
+        contentKey: randomUUID(),
+    }
+    // content lists are newest first
+    const chunks = [
+        '0|Hello there',
+        `ts:${startTime + 10000}`,
+        '-1|',
+        '0|Second',
+        '-6|',
+        '-4|',
+        '-2|Hello there',
+        '-3|Second line',
+        `ts:${startTime + 20000}`,
+        '-8|Second line',
+        '11|!',
+        `ts:${startTime + 30000}`,
+        '-1|',
+        '0|Third',
+        '8|missing',
+    ].reverse()
+    const { lines, liveText, annotations, errors } = reconstructTranscript(tr, chunks)
+    assert(lines.length === 2, `Reconstruction produced ${lines.length} lines`)
+    assert(lines[0].text === 'Hello there' && lines[0].elapsed === 10, 'First line is wrong')
+    assert(lines[1].text === 'Second line!' && lines[1].elapsed === 30, 'Re-read was not honored')
+    assert(annotations.length === 1 && annotations[0].kind === 'speech', 'Speech was not annotated')
+    assert(annotations[0].line === 1 && annotations[0].elapsed === 20, 'Annotation is misplaced')
+    assert(liveText === 'Third???missing', `Live text is wrong: ${liveText}`)
+    assert(errors.length === 1 && errors[0].index === 14, 'Only the gap should be an error')
+    // reconstructing in two steps, as a live stream does, gives the same result
+    const older = reconstructTranscript(tr, chunks.slice(5))
+    const continued = reconstructTranscript(tr, chunks.slice(0, 5), older)
+    assert(continued.count === chunks.length, `Continued count is wrong: ${continued.count}`)
+    assert(JSON.stringify(continued.lines) === JSON.stringify(lines), 'Continued lines differ')
+    assert(continued.liveText === liveText, 'Continued live text differs')
+    assert(continued.errors.length === 1 && continued.errors[0].index === 14,
+        'Continued error is misplaced')
+    tr.lines = lines
+    tr.duration = 60000
+    tr.errCount = errors.length
+    const stats = computeTranscriptStats(tr, 2)
+    assert(stats.wordCount === 4 && stats.lineCount === 2, 'Word and line counts are wrong')
+    assert(stats.wordsPerMinute === 4, `Typing speed is wrong: ${stats.wordsPerMinute}`)
+    assert(stats.longestPause === 20, `Longest pause is wrong: ${stats.longestPause}`)
+    assert(stats.listenerCount === 2 && stats.errCount === 1, 'Listener and error counts are wrong')
+}
+
+async function testFailover() {
+    // a server that crashed mid-session leaves its transcript owned but its lease expired
+    const storage = getStorage()
+    const tr: TranscriptData = {
+        id: randomUUID(),
+        clientId: randomUUID(),
+        conversationId: randomUUID(),
+        contentId: randomUUID(),
+        tzId: 'America/Los_Angeles',
+        startTime: Date.now(),
+        contentKey: storage.transcripts.newContentKey(),
+    }
+    await storage.transcripts.save(tr, undefined)
+    await storage.queues.setOwner(tr.id, randomUUID())
+    // the Whisperer sends four chunks, and the crashed server saved only the first two
+    const whisperer = getTransport().connect(tr.clientId)
+    const content = whisperer.channel(`${tr.conversationId}:${tr.contentId}`)
+    const sent: TransportMessage[] = []
+    await content.subscribe((message) => sent.push(message))
+    for (const chunk of ['0|Hello', '5| there', '-1|', '0|Bye']) {
+        await content.publish(chunk, 'all')
+        await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+    for (const { id, data, timestamp } of sent.slice(0, 2)) {
+        await storage.transcripts.appendContent(tr, [data], { id, time: timestamp })
+    }
+    const adopted = await adoptOrphanedTranscripts()
+    assert(adopted.some((a) => a.id === tr.id), 'Orphaned transcript was not adopted')
+    const owner = await storage.queues.getOwner(tr.id)
+    assert(owner === SERVER_ID, 'Adopted transcript has the wrong owner')
+    const readopted = await adoptOrphanedTranscripts()
+    assert(!readopted.some((a) => a.id === tr.id), 'Adopted transcript was adopted again')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    await ensureTranscriptionEnded(tr.id)
+    const [transcript] = await getTranscriptsForConversation(tr.conversationId)
+    assert(transcript?.transcription === 'Hello there\nBye', 'Replayed chunks were not deduplicated')
+    assert(transcript.errCount === 0, `Adopted transcript has ${transcript.errCount} errors`)
+    whisperer.close()
+}
+
+async function testFailoverPastRewind() {
+    // the crashed server's last saved chunk is older than the rewind, so nothing rewound was saved
+    const storage = getStorage()
+    const tr: TranscriptData = {
+        id: randomUUID(),
+        clientId: randomUUID(),
+        conversationId: randomUUID(),
+        contentId: randomUUID(),
+        tzId: 'America/Los_Angeles',
+        startTime: Date.now(),
+        contentKey: storage.transcripts.newContentKey(),
+    }
+    await storage.transcripts.save(tr, undefined)
+    await storage.queues.setOwner(tr.id, randomUUID())
+    for (const data of ['0|Hello', '-1|']) {
+        await storage.transcripts.appendContent(tr, [data], { id: randomUUID(), time: Date.now() })
+    }
+    const whisperer = getTransport().connect(tr.clientId)
+    const content = whisperer.channel(`${tr.conversationId}:${tr.contentId}`)
+    for (const chunk of ['0|Bye', '-1|']) {
+        await content.publish(chunk, 'all')
+    }
+    const adopted = await adoptOrphanedTranscripts()
+    assert(adopted.some((a) => a.id === tr.id), 'Orphaned transcript was not adopted')
+    // the rewound chunks are held until the rewind is over
+    await new Promise((resolve) => setTimeout(resolve, 2500))
+    await ensureTranscriptionEnded(tr.id)
+    const [transcript] = await getTranscriptsForConversation(tr.conversationId)
+    assert(transcript?.transcription === 'Hello\nBye', 'Rewound chunks were dropped')
+    assert(transcript.errCount === 0, `Adopted transcript has ${transcript.errCount} errors`)
+    whisperer.close()
+}
+
+interface ServerRequest {
+    action: 'start' | 'end'
+    clientId?: string
+    conversationId?: string
+    contentId?: string
+    id?: string
+}
+
+interface ServerReply {
+    serverId: string
+    id?: string
+}
+
+// run by a forked test process, which acts as a transcription server for the test that forked it
+async function runTranscriptionServer() {
+    heartbeatTranscriptions().then()
+    process.on('message', async (request: ServerRequest) => {
+        const reply: ServerReply = { serverId: SERVER_ID }
+        if (request.action === 'start') {
+            const { clientId, conversationId, contentId } = request
+            reply.id = await startTranscription(
+                clientId!, conversationId!, contentId!, 'America/Los_Angeles', randomUUID(), 'Ada')
+        } else {
+            await ensureTranscriptionEnded(request.id!)
+        }
+        process.send!(reply)
+    })
+    // the test stops us when it's done
+    await new Promise(() => {})
+}
+
+function forkTranscriptionServer() {
+    // the servers share channels through Redis, which the local transport can't
+    const env = { ...process.env, TEST_TRANSPORT: 'websocket' }
+    const child: ChildProcess = fork(process.argv[1], ['transcription-server'], { env })
+    const request = (message: ServerRequest) =>
+        new Promise<ServerReply>((resolve, reject) => {
+            child.once('message', (reply: ServerReply) => resolve(reply))
+            child.once('exit', () => reject(Error('Transcription server exited')))
+            child.send(message)
+        })
+    return { request, kill: (signal: NodeJS.Signals) => child.kill(signal) }
+}
+
+async function testServerCrash() {
+    if (getStorage().name !== 'redis') {
+        logger.info('Skipping server crash test, which needs Redis storage')
+        return
+    }
+    const crashing = forkTranscriptionServer()
+    const adopting = forkTranscriptionServer()
+    const clientId = randomUUID()
+    const conversationId = randomUUID()
+    const contentId = randomUUID()
+    const whisperer = createWebSocketTransport().connect(clientId)
+    const content = whisperer.channel(`${conversationId}:${contentId}`)
+    const sent: TransportMessage[] = []
+    await content.subscribe((message) => sent.push(message))
+    const store = getStorage().transcripts
+    const publishLine = async (text: string) => {
+        await content.publish(`0|${text}`, 'all')
+        await content.publish('-1|', 'all')
+    }
+    const waitForSaved = async (id: string) => {
+        const lastId = sent[sent.length - 1]?.id
+        for (let i = 0; i < 50 && (await store.getProgress(id)).lastChunkId !== lastId; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 100))
+        }
+        assert((await store.getProgress(id)).lastChunkId === lastId, 'Chunks were not saved')
+    }
+    try {
+        const start: ServerRequest = { action: 'start', clientId, conversationId, contentId }
+        const started = await crashing.request(start)
+        const id = started.id!
+        await publishLine('Hello')
+        await waitForSaved(id)
+        crashing.kill('SIGKILL')
+        // these are only in the channel's history until the transcript is adopted
+        await publishLine('World')
+        const queues = getStorage().queues
+        for (let i = 0; i < 60 && (await queues.getOwner(id)) === started.serverId; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 1000))
+        }
+        assert((await queues.getOwner(id)) !== started.serverId, 'Transcript was not adopted')
+        await publishLine('Again')
+        await waitForSaved(id)
+        await adopting.request({ action: 'end', id })
+        const transcript = await getTranscript(id)
+        assert(transcript?.transcription === 'Hello\nWorld\nAgain', 'Adopted transcript is wrong')
+        assert(transcript.errCount === 0, `Adopted transcript has ${transcript.errCount} errors`)
+    } finally {
+        whisperer.close()
+        crashing.kill('SIGKILL')
+        adopting.kill('SIGTERM')
+    }
+}
+
+async function testWatchdog() {
+    // the conversation's idle timeout applies to its sessions
+    const conversationId = randomUUID()
+    await setConversationInfo({
+        id: conversationId,
+        name: 'Watchdog Test',
+        ownerId: randomUUID(),
+        transcriptIdleTimeout: 1,
+    })
+    const startSession = async (text: string) => {
+        const clientId = randomUUID()
+        const contentId = randomUUID()
+        const id = await startTranscription(
+            clientId, conversationId, contentId, 'America/Los_Angeles', randomUUID(), 'Ada')
+        const whisperer = getTransport().connect(clientId)
+        const content = whisperer.channel(`${conversationId}:${contentId}`)
+        await content.publish(`0|${text}`, 'all')
+        await content.publish('-1|', 'all')
+        return { id, whisperer }
+    }
+    const idle = await startSession('Idle')
+    assert((await getTranscript(idle.id))?.idleTimeout === 1, 'Conversation idle timeout not used')
+    await new Promise((resolve) => setTimeout(resolve, 1500))
+    await checkLocalTranscripts()
+    const idled = await getTranscript(idle.id)
+    assert(idled?.endReason === 'idle', `Idle session ended because ${idled?.endReason}`)
+    assert(idled.transcription === 'Idle', 'Idle session was not transcribed')
+    idle.whisperer.close()
+    // a Whisperer who was present and then isn't has left
+    await setConversationInfo({ id: conversationId, name: 'Watchdog Test', ownerId: randomUUID() })
+    const absent = await startSession('Absent')
+    await absent.whisperer.channel(`${conversationId}:control`).publish('whispering')
+    await checkLocalTranscripts()
+    assert(!(await getTranscript(absent.id))?.endReason, 'Present Whisperer was ended')
+    absent.whisperer.close()
+    await checkLocalTranscripts()
+    const left = await getTranscript(absent.id)
+    assert(left?.endReason === 'absent', `Absent session ended because ${left?.endReason}`)
+    // once the watchdog has ended a session, nothing else does
+    await ensureTranscriptionEnded(absent.id)
+    assert((await getTranscript(absent.id))?.endReason === 'absent', 'Session was ended twice')
+}
+
+async function completedTranscript(conversationName: string, ownerId: string = randomUUID()) {
+    // a finished session with two timed lines, ten seconds apart, and a gap between them
+    const conversationId = randomUUID()
+    await setConversationInfo({ id: conversationId, name: conversationName, ownerId })
+    const startTime = Date.UTC(2024, 0, 15, 17, 0, 0)
+    const tr: TranscriptData = {
+        id: randomUUID(),
+        clientId: randomUUID(),
+        speakerName: 'Ada',
+        conversationId,
+        contentId: randomUUID(),
+        tzId: 'America/Los_Angeles',
+        startTime,
+        duration: 60000,
+        contentKey: randomUUID(),
+        transcription: 'Hello there\n\nSecond line',
+        lines: [
+            { text: 'Hello there', time: startTime + 10000, elapsed: 10 },
+            { text: '', time: startTime + 15000, elapsed: 15 },
+            { text: 'Second line', time: startTime + 20000, elapsed: 20 },
+        ],
+        errCount: 0,
+    }
+    const storage = getStorage()
+    await storage.transcripts.save(tr, undefined)
+    await storage.transcripts.addConversationTranscript(conversationId, tr.id)
+    return tr
+}
+
+async function testExports() {
+    const tr = await completedTranscript('Export Test')
+    const md = await transcriptExport(tr, 'md')
+    assert(md.contentType.startsWith('text/markdown'), 'Markdown has the wrong content type')
+    assert(md.body.startsWith('# Transcript of Export Test\n\n'), 'Markdown has no title')
+    assert(md.body.includes('lasted 1 min_'), 'Markdown has no session length')
+    assert(md.body.includes('_Whispered by Ada_'), 'Markdown has no speaker')
+    assert(md.body.endsWith('Hello there\n\nSecond line\n\n'), 'Markdown paragraphs are wrong')
+    const txt = await transcriptExport(tr, 'txt')
+    assert(txt.contentType.startsWith('text/plain'), 'Text has the wrong content type')
+    assert(txt.body.startsWith('Transcript of Export Test\nStarted at Mon, Jan 15, 2024'),
+        `Text header is wrong: ${txt.body}`)
+    assert(txt.body.endsWith('Whispered by Ada\n\nHello there\n\nSecond line\n'),
+        'Text body is wrong')
+    const json = await transcriptExport(tr, 'json')
+    assert(json.contentType.startsWith('application/json'), 'JSON has the wrong content type')
+    const data = JSON.parse(json.body)
+    assert(data.conversationName === 'Export Test' && data.id === tr.id, 'JSON header is wrong')
+    assert(data.lines.length === 3 && data.lines[2].elapsed === 20, 'JSON lines are wrong')
+    assert(data.text === tr.transcription && data.errCount === 0, 'JSON text is wrong')
+    const srt = await transcriptExport(tr, 'srt')
+    assert(srt.contentType.startsWith('application/x-subrip'), 'SRT has the wrong content type')
+    const expected =
+        '1\n00:00:10,000 --> 00:00:15,000\nHello there\n\n' +
+        '2\n00:00:20,000 --> 00:01:00,000\nSecond line\n\n'
+    assert(srt.body === expected, `SRT cues are wrong: ${srt.body}`)
+    // transcripts made before line times were kept spread their lines over the session,
+    // so the last cue ends with it
+    const legacy = await transcriptExport({ ...tr, lines: undefined }, 'srt')
+    const untimed =
+        '1\n00:00:00,000 --> 00:00:20,000\nHello there\n\n' +
+        '2\n00:00:40,000 --> 00:01:00,000\nSecond line\n\n'
+    assert(legacy.body === untimed, `Untimed SRT cues are wrong: ${legacy.body}`)
+}
+
+async function testTimedTranscript() {
+    // the speaker is saved with the transcript when the session starts
+    const clientId = randomUUID()
+    const conversationId = randomUUID()
+    const contentId = randomUUID()
+    const id = await startTranscription(
+        clientId, conversationId, contentId, 'America/Los_Angeles', randomUUID(), 'Grace')
+    const started = await getTranscript(id)
+    assert(started?.speakerName === 'Grace', 'Speaker was not saved with the new transcript')
+    const whisperer = getTransport().connect(clientId)
+    const content = whisperer.channel(`${conversationId}:${contentId}`)
+    for (const chunk of ['0|First', '-1|', '0|Second', '-1|']) {
+        await content.publish(chunk, 'all')
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    await ensureTranscriptionEnded(id)
+    whisperer.close()
+    const ended = await getTranscript(id)
+    assert(ended?.transcription === 'First\nSecond',
+        `Transcription is wrong: ${ended?.transcription}`)
+    for (const line of ended.lines!) {
+        assert(line.time! >= ended.startTime && line.elapsed === 0, 'Line times are wrong')
+    }
+    // the gutter only shows the time when it changes from the line above
+    const tr = await completedTranscript('Timed Test')
+    tr.transcription = 'One\nTwo\nThree'
+    tr.lines = [
+        { text: 'One', time: tr.startTime + 10000, elapsed: 10 },
+        { text: 'Two', time: tr.startTime + 40000, elapsed: 40 },
+        { text: 'Three', time: tr.startTime + 120000, elapsed: 120 },
+    ]
+    const html = await transcriptResponse(tr)
+    const gutters = [...html.matchAll(/<span class="time">([^<]*)<\/span>/g)].map((m) => m[1])
+    assert(gutters.join(',') === '9:00 AM,,9:02 AM', `Gutter times are wrong: ${gutters}`)
+}
+
+async function testSearch() {
+    const owner = await createTestUser()
+    const tr = await completedTranscript('Search Test', owner.profileId)
+    tr.transcription = 'The quick brown fox\n\nA lazy dog & a quick cat'
+    await getStorage().transcripts.save(tr, undefined)
+    await indexTranscript(tr, undefined)
+    // a transcript that has already expired doesn't shorten the words kept forever
+    await indexTranscript({ ...tr, id: randomUUID() }, Math.floor(Date.now() / 1000) - 1)
+    // the maintenance pass indexes transcripts too old to be listed
+    const other = await completedTranscript('Search Test', owner.profileId)
+    other.ttl = 0
+    await getStorage().transcripts.save(other, undefined)
+    await indexTranscriptsForSearch()
+    const search = async (q: string, headers: Record<string, string> = owner.headers) => {
+        const url = `${testOrigin}/api/v2/searchTranscripts/${owner.clientId}`
+        return await fetch(`${url}?q=${encodeURIComponent(q)}`, { headers })
+    }
+    const server = startTestServer()
+    try {
+        // the transcripts are older than the look-back, and must be found anyway
+        const both = await (await search('quick')).json()
+        assert(both.length === 1 && both[0].id === tr.id, 'Search found the wrong transcripts')
+        assert(both[0].conversationName === 'Search Test', 'Search result has no conversation')
+        const snippets = both[0].snippets
+        assert(snippets.length === 2 && snippets[0] === 'The <mark>quick</mark> brown fox',
+            `First snippet is wrong: ${snippets[0]}`)
+        assert(snippets[1] === 'A lazy dog &amp; a <mark>quick</mark> cat',
+            `Second snippet is wrong: ${snippets[1]}`)
+        // every word must match
+        const all = await (await search('Quick LAZY')).json()
+        assert(all.length === 1 && all[0].id === tr.id, 'Search for two words failed')
+        const none = await (await search('quick hello')).json()
+        assert(none.length === 0, 'Search matched a transcript without all the words')
+        const hello = await (await search('hello')).json()
+        assert(hello.length === 1 && hello[0].id === other.id, 'Search missed a transcript')
+        assert((await search('')).status === 400, 'Empty search was not rejected')
+        const stranger = await createTestUser()
+        assert((await search('quick', stranger.headers)).status === 403,
+            'Search accepted another client\'s credentials')
+    } finally {
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+async function testTranscriptSettings() {
+    const owner = await createTestUser()
+    const tr = await completedTranscript('Settings Test', owner.profileId)
+    const { conversationId } = tr
+    const settingsUrl = `${testOrigin}/api/v2/transcriptSettings/${conversationId}`
+    const listUrl = `${testOrigin}/api/v2/listTranscripts/${owner.clientId}/${conversationId}`
+    const put = async (json: object, headers: Record<string, string> = owner.headers) =>
+        await fetch(settingsUrl, { method: 'PUT', headers, json })
+    const remove = async (id: string) =>
+        await fetch(`${testOrigin}/api/v2/transcript/${conversationId}/${id}`, {
+            method: 'DELETE',
+            headers: owner.headers,
+        })
+    const server = startTestServer()
+    try {
+        const defaults = await (await fetch(settingsUrl, { headers: owner.headers })).json()
+        assert(defaults.ttl === 365 * 24 * 60 * 60 && defaults.access === 'public' &&
+            defaults.idleTimeout === 30 * 60,
+            `Default settings are wrong: ${JSON.stringify(defaults)}`)
+        // the transcript is older than the look-back, so it isn't listed
+        assert((await (await fetch(listUrl, { headers: owner.headers })).json()).length === 0,
+            'An old transcript was listed')
+        assert((await put({ ttl: -1 })).status === 400, 'Negative retention was accepted')
+        assert((await put({ access: 'everyone' })).status === 400, 'Unknown access was accepted')
+        assert((await put({})).status === 400, 'Empty settings were accepted')
+        assert((await put({ idleTimeout: 0 })).status === 400, 'Zero idle timeout was accepted')
+        const stranger = await createTestUser()
+        assert((await put({ ttl: 0 }, stranger.headers)).status === 404,
+            'Another profile changed the settings')
+        // a new retention applies to transcripts too old to be listed
+        const saved = await put({ ttl: 0, access: 'owner', idleTimeout: 600 })
+        assert(saved.status === 204, 'Settings were not saved')
+        const settings = await (await fetch(settingsUrl, { headers: owner.headers })).json()
+        assert(settings.ttl === 0 && settings.access === 'owner' && settings.idleTimeout === 600,
+            'Settings were not changed')
+        assert((await getTranscript(tr.id))?.ttl === 0,
+            'Retention was not applied to an old transcript')
+        const listed = await (await fetch(listUrl, { headers: owner.headers })).json()
+        assert(listed.length === 1 && listed[0].id === tr.id, 'Kept transcript is not listed')
+        // transcripts in progress can't be deleted
+        const live: TranscriptData = { ...tr, id: randomUUID(), transcription: '', errCount: 0 }
+        await getStorage().transcripts.save(live, undefined)
+        assert((await remove(live.id)).status === 409, 'In-progress transcript was deleted')
+        assert((await remove(tr.id)).status === 204, 'Transcript was not deleted')
+        assert(!(await getTranscript(tr.id)), 'Deleted transcript still exists')
+        assert((await remove(tr.id)).status === 404, 'Deleted transcript was deleted again')
+        assert((await (await fetch(listUrl, { headers: owner.headers })).json()).length === 0,
+            'Deleted transcript is still listed')
+        // a shorter retention also shortens the index of a transcript that was kept forever
+        const recent: TranscriptData = { ...tr, id: randomUUID(), startTime: Date.now() - 3598000 }
+        await getStorage().transcripts.save(recent, undefined)
+        await getStorage().transcripts.addConversationTranscript(conversationId, recent.id)
+        await indexTranscript(recent, undefined)
+        assert((await put({ ttl: 3600 })).status === 204, 'Shorter retention was not saved')
+        await new Promise((resolve) => setTimeout(resolve, 2500))
+        assert((await findIndexedTranscripts(conversationId, ['hello'])).size === 0,
+            'Search index outlived the shorter retention')
+    } finally {
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+async function testTranscriptAccess() {
+    const owner = await createTestUser()
+    const tr = await completedTranscript('Access Test', owner.profileId)
+    const store = getStorage().transcripts
+    // an app user and a web listener who were present, and an app user who wasn't
+    const participant = await createTestUser()
+    await store.addParticipant(tr.id, participant.profileId)
+    const listenerId = randomUUID()
+    await store.addParticipant(tr.id, listenerId)
+    const stranger = await createTestUser()
+    const browser = context()
+    const setAccess = async (access: TranscriptAccess) => {
+        const con = await getConversationInfo(tr.conversationId)
+        await setConversationInfo({ ...con!, transcriptAccess: access })
+    }
+    const statuses = async (url: string) => {
+        const result: number[] = []
+        for (const headers of [{}, stranger.headers, participant.headers, owner.headers]) {
+            result.push((await fetch(url, { headers })).status)
+        }
+        result.push((await browser.fetch(url)).status)
+        return result.join(',')
+    }
+    const pageUrl = `${testOrigin}/transcript/${tr.conversationId}/${tr.id}`
+    const server = startTestServer()
+    try {
+        await browser.fetch(`${testOrigin}/test/session/${listenerId}`)
+        // anonymous, stranger, participant, owner, and web listener
+        const expected = {
+            public: '200,200,200,200,200',
+            present: '403,403,200,200,200',
+            owner: '403,403,403,200,403',
+        }
+        for (const [access, allowed] of Object.entries(expected)) {
+            await setAccess(access as TranscriptAccess)
+            const page = await statuses(pageUrl)
+            assert(page === allowed, `Page access for ${access} is wrong: ${page}`)
+            const exported = await statuses(`${pageUrl}.txt`)
+            assert(exported === allowed, `Export access for ${access} is wrong: ${exported}`)
+        }
+    } finally {
+        await browser.disconnectAll()
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+function openEventStream(url: string) {
+    // collects the events a browser would receive, until the server ends the stream
+    let text = ''
+    let request: http.ClientRequest | undefined = undefined
+    const ended = new Promise<void>((resolve, reject) => {
+        request = http.get(url, (resp) => {
+            resp.setEncoding('utf8')
+            resp.on('data', (data: string) => (text += data))
+            resp.on('end', resolve)
+        })
+        request.on('error', reject)
+    })
+    const waitFor = async (expected: string) => {
+        for (let i = 0; i < 50 && !text.includes(expected); i++) {
+            await new Promise((resolve) => setTimeout(resolve, 100))
+        }
+        assert(text.includes(expected), `Stream never sent ${JSON.stringify(expected)}: ${text}`)
+    }
+    return { ended, waitFor, text: () => text, close: () => request?.destroy() }
+}
+
+async function testLiveStream() {
+    const clientId = randomUUID()
+    const conversationId = randomUUID()
+    const contentId = randomUUID()
+    const id = await startTranscription(
+        clientId, conversationId, contentId, 'America/Los_Angeles', randomUUID(), 'Grace')
+    const whisperer = getTransport().connect(clientId)
+    const content = whisperer.channel(`${conversationId}:${contentId}`)
+    const server = startTestServer()
+    const stream = openEventStream(`${testOrigin}/transcript/${conversationId}/${id}/events`)
+    try {
+        for (const chunk of ['0|Hello', '-1|', '0|Wor']) {
+            await content.publish(chunk, 'all')
+        }
+        await stream.waitFor('event: live\ndata: {"text":"Wor"}')
+        assert(stream.text().includes('event: line\nid: 1\ndata: {"text":"Hello"'),
+            `First line was not streamed: ${stream.text()}`)
+        // the next poll only reads the chunks added since
+        await content.publish('3|ld', 'all')
+        await content.publish('-1|', 'all')
+        await stream.waitFor('event: line\nid: 2\ndata: {"text":"World"')
+        await ensureTranscriptionEnded(id)
+        await stream.ended
+        assert(stream.text().endsWith('event: end\ndata: {}\n\n'), 'Stream did not send its end')
+        const lines = stream.text().match(/event: line/g) || []
+        assert(lines.length === 2, `Stream sent ${lines.length} lines`)
+    } finally {
+        stream.close()
+        whisperer.close()
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+async function testRetranscribe() {
+    const owner = await createTestUser()
+    const tr = await completedTranscript('Repair Test', owner.profileId)
+    const { conversationId } = tr
+    // the only packet is illegal, so the saved lines and annotations are stale
+    const store = getStorage().transcripts
+    tr.ttl = 0
+    tr.errCount = 1
+    tr.annotations = [{ kind: 'sound', text: 'bell', line: 0 }]
+    await store.save(tr, undefined)
+    await store.appendContent(tr, ['bogus'], { id: randomUUID(), time: tr.startTime })
+    const headers = owner.headers
+    const errorsUrl = `${testOrigin}/api/v2/transcriptErrors/${conversationId}`
+    const repair = async (json: object) =>
+        await fetch(`${testOrigin}/api/v2/retranscribe/${conversationId}/${tr.id}`, {
+            method: 'POST',
+            headers,
+            json,
+        })
+    const server = startTestServer()
+    try {
+        const errored = await (await fetch(errorsUrl, { headers })).json()
+        assert(errored.length === 1 && errored[0].id === tr.id && errored[0].errCount === 1,
+            `Errored transcripts are wrong: ${JSON.stringify(errored)}`)
+        const detail = await (await fetch(`${errorsUrl}/${tr.id}`, { headers })).json()
+        assert(detail.errors.length === 1 && detail.errors[0].chunk === 'bogus',
+            `Transcript errors are wrong: ${JSON.stringify(detail)}`)
+        const repaired = await repair({})
+        assert(repaired.status === 200, `Retranscribe failed: ${repaired.status}`)
+        const result = await repaired.json()
+        assert(result.errCount === 1 && result.length === 0, 'Retranscribe result is wrong')
+        const saved = await getTranscript(tr.id)
+        assert(!saved?.transcription && !saved?.lines && !saved?.annotations,
+            'Retranscribe left the old transcription in place')
+        assert(await store.hasContent(tr.contentKey), 'Retranscribe removed errored packets')
+        // accepting the errors removes the packets, after which there's nothing to repair
+        assert((await repair({ accept: true })).status === 200, 'Accepting errors failed')
+        assert(!(await store.hasContent(tr.contentKey)), 'Accepted packets were not removed')
+        assert((await (await fetch(errorsUrl, { headers })).json()).length === 0,
+            'Accepted transcript is still listed as errored')
+        assert((await fetch(`${errorsUrl}/${tr.id}`, { headers })).status === 409,
+            'Accepted transcript still has errors to show')
+        assert((await repair({})).status === 409, 'Accepted transcript was retranscribed')
+    } finally {
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
+async function testConversationHistory() {
+    const owner = await createTestUser()
+    const first = await completedTranscript('History Test', owner.profileId)
+    first.ttl = 0
+    await getStorage().transcripts.save(first, undefined)
+    const second: TranscriptData = {
+        ...first,
+        id: randomUUID(),
+        startTime: first.startTime + 24 * 60 * 60 * 1000,
+        transcription: 'Day two',
+        lines: [{ text: 'Day two' }],
+    }
+    await getStorage().transcripts.save(second, undefined)
+    await getStorage().transcripts.addConversationTranscript(second.conversationId, second.id)
+    const historyUrl = `${testOrigin}/conversation/${first.conversationId}/history`
+    const history = async (query: string = '', headers: Record<string, string> = owner.headers) =>
+        await fetch(historyUrl + query, { headers })
+    const server = startTestServer()
+    try {
+        // the history is only for the owner, even when the transcripts are public
+        assert((await history('', {})).status === 403, 'Anonymous request listed the history')
+        const stranger = await createTestUser()
+        assert((await history('', stranger.headers)).status === 403,
+            'Another profile listed the history')
+        const unknown = `${testOrigin}/conversation/${randomUUID()}/history`
+        assert((await fetch(unknown, { headers: owner.headers })).status === 404,
+            'Unknown conversation has a history')
+        const listing = await (await history()).text()
+        assert(listing.includes('<h2>Sessions of History Test</h2>'), 'History has no title')
+        assert(listing.indexOf(second.id) < listing.indexOf(first.id),
+            'History is not newest first')
+        assert(listing.includes('<p class="first-line">Hello there</p>'), 'First line is missing')
+        const combined = await (await history('?session=all')).text()
+        assert(combined.includes('2 sessions, starting Mon, Jan 15, 2024'),
+            'Combined transcript has the wrong summary')
+        assert(combined.indexOf('Hello there') < combined.indexOf('Day two'),
+            'Combined transcript is not in the order it happened')
+        const selected = await (await history(`?session=${second.id}`)).text()
+        assert(selected.includes('1 sessions') && !selected.includes('Hello there'),
+            'Selected session was not shown alone')
+    } finally {
+        server.closeAllConnections()
+        server.close()
+    }
+}
+
 export async function testAll(...tests: string[]) {
     if (tests.length == 0) {
-        tests = ['ably']
+        tests = [
+            'ably',
+            'transcription',
+            'failover',
+            'exports',
+            'timed',
+            'search',
+            'settings',
+            'access',
+            'stream',
+            'retranscribe',
+            'history',
+            'watchdog',
+            'crash',
+        ]
     }
     if (tests.includes('ably')) {
         await testAbly()
     }
+    if (tests.includes('transcription')) {
+        await testTranscription()
+    }
+    if (tests.includes('failover')) {
+        await testFailover()
+        await testFailoverPastRewind()
+    }
+    if (tests.includes('exports')) {
+        await testExports()
+    }
+    if (tests.includes('timed')) {
+        await testTimedTranscript()
+    }
+    if (tests.includes('search')) {
+        await testSearch()
+    }
+    if (tests.includes('settings')) {
+        await testTranscriptSettings()
+    }
+    if (tests.includes('access')) {
+        await testTranscriptAccess()
+    }
+    if (tests.includes('stream')) {
+        await testLiveStream()
+    }
+    if (tests.includes('retranscribe')) {
+        await testRetranscribe()
+    }
+    if (tests.includes('history')) {
+        await testConversationHistory()
+    }
+    if (tests.includes('watchdog')) {
+        await testWatchdog()
+    }
+    if (tests.includes('crash')) {
+        await testServerCrash()
+    }
+    if (tests.includes('transcription-server')) {
+        await runTranscriptionServer()
+    }
 }
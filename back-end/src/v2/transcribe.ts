@@ -8,28 +8,52 @@ Database design note:
 A transcription of a conversation session is a hash with these fields:
 
 - clientId - the Whisperer's client ID for this session
+- speakerId - the Whisperer's profile ID for this session (if known)
+- speakerName - the Whisperer's username for this session (if known)
 - conversationId - the conversation ID
 - contentId - the content channel id for this session
 - startTime - the start date of this session (epoch milliseconds)
 - duration - the length of the session (milliseconds)
 - contentKey - a key to a list containing the content chunks in reverse-chronological order
 - transcription - a string containing the transcription of the chunks
+- lines - a JSON array of the transcribed lines, each with the time it was committed
+  (epoch milliseconds) and the elapsed time since the start of the session (seconds)
+- annotations - a JSON array of the sounds played and phrases spoken in the session,
+  each with the number of lines that preceded it and its time
 - errCount - a count of transcription errors due to missing or corrupt chunks
-- ttl - the time to live for the transcript (seconds, defaults to 1 week)
+- stats - a JSON object with statistics about the session (word and line counts,
+  typing speed, longest pause, listeners who joined, and errors)
+- listenerCount - a count of the distinct listeners who joined the session,
+  which is incremented as they join
+- ttl - the time to live for the transcript (seconds, 0 for forever, defaults to 1 year)
+- idleTimeout - how long the session can go without activity before it's ended (seconds)
+- lastActivityTime - the last time the Whisperer sent content or control chunks (epoch milliseconds)
+- endReason - why the session ended: the Whisperer dropped, the session was idle,
+  the Whisperer was no longer present, or the server forced it to end
 
-The transcription and errCount fields are not filled until the conversation is over
-and the packets are transcribed.  At that point, if there are no errors, the saved
+The transcription, lines, annotations, errCount, and stats fields are not filled until
+the conversation is over and the packets are transcribed.  At that point, if there are no errors, the saved
 content chunks are deleted.
 
 The keys for the non-empty transcripts of a given conversation are kept in a list
 keyed by the conversation ID.  There is no guarantee about their order in that list,
 but the public function that returns them sorts them newest start-date first.
 
+The client and profile IDs of the listeners who joined a session are kept in a set
+keyed by the transcript ID, which lives as long as the transcript does.  This set
+is used to enforce the "present" level of transcript access, which only allows
+those listeners (and the conversation owner) to read the transcript.
+
 Transcript lifetime design note:
 
 Transcripts are only kept for a limited period, called their time-to-live.
 Database expirations are used to enforce the TTL, which saves the server
-from having to periodically delete old transcripts.
+from having to periodically delete old transcripts.  The TTL is measured
+from the start of the session.  Conversation owners can choose a TTL for
+their conversation's transcripts (including keeping them forever), and
+changing that choice applies it to the conversation's existing transcripts.
+Transcripts with the default TTL are only listed for a limited look-back
+period; transcripts with a chosen TTL are listed for as long as they live.
 
 Transcripts are started by server processes, but server processes are ephemeral,
 and the lifetime of a conversation may be longer than any given server process.
@@ -47,35 +71,172 @@ chunk but the ID of the packet carrying the chunk.  This way, the transcription
 process can eliminate the duplicate chunks (if there were any during the
 transition).
 
+Servers don't always shut down in an orderly fashion, so every server also holds
+a lease (a key that expires unless the server keeps renewing it on a heartbeat),
+and the ID of every transcript being taken is kept in a global hash along with the
+ID of the server that's taking it.  On each heartbeat, servers look for transcripts
+whose server's lease has expired, and one of them (whichever first claims the
+transcript) adopts each of them.  Since the crashed server can't overlap with the
+adopting server, the adopting server rewinds the content channel and skips the
+chunks up to and including the last one saved, whose ID is recorded in the
+transcript (as the lastChunkId field) every time a chunk is saved.  Chunks are
+skipped by ID, not time, because their times come from different clocks.  So the
+adopting server holds the rewound chunks until it finds the last one saved, and
+drops the ones held.  If the rewind ends without it, the last chunk saved is
+from before the window, so none of the rewound chunks were saved, and all of
+them are kept (with their ID markers).  Any chunks sent before the rewind window
+are lost, and show up as transcription errors.  A server
+that's shutting down keeps renewing its lease until its transcripts are handed
+off, so no other server adopts them in the meantime.
+
+Abandoned session design note:
+
+A Whisperer's app can die without telling its listeners it's leaving, in which case
+the transcript would never end.  So every server runs a watchdog over each of its
+transcripts, which ends the session if the Whisperer has been idle for longer than
+the transcript's idle timeout, or if the Whisperer had been present on the control
+channel and no longer is.  The idle timeout is set by the conversation's owner
+(in the transcript settings), and is copied into each transcript as it starts.
+Because the idle timeout and the time of last activity are kept in the transcript,
+the watchdog picks up where it left off when the transcript is handed off to (or
+adopted by) another server.  Whichever of the watchdog, the Whisperer's drop, or
+a forced end first removes the transcript from the server's local transcripts
+is the one that ends it.
+
+Live transcript design note:
+
+While a session is in progress, its transcript page shows the text transcribed
+so far by reconstructing it from the saved content chunks (without removing
+them).  The page then follows the session by way of a server-sent event stream,
+which polls the content chunks and sends each newly committed line.  Because
+the chunks are in the database, any server can stream any live transcript.
+
+Line timing design note:
+
+Each newline, sound, and speech chunk in the content list is preceded by a `ts:`
+marker that records when the chunk was sent.  When the packets are transcribed,
+these markers become the commit times of the transcribed lines (and the times
+of the sound and speech annotations), which is what allows transcripts to be
+exported in timed formats.  Content lists saved before these markers were
+introduced produce lines without times.
+
+Content protocol design note:
+
+Transcription follows the same content protocol as listeners do. Besides the
+diffs and newlines that make up the text, Whisperers send chunks that don't
+change the text: sounds and spoken phrases, which are kept as annotations;
+clear-history chunks, which only affect what listeners see; and re-read
+sequences (a start-reread chunk, the past lines, then the live text), which
+resend text the transcript already has.  Only chunks that can't be parsed and
+diffs that reveal missing chunks are counted as transcription errors.
+
  */
 
-import * as Ably from 'ably/promises.js'
 import { randomUUID } from 'crypto'
 import express from 'express'
 
-import { getSettings } from '../settings.js'
-import { dbKeyPrefix, getDbClient, unblockDbClient } from '../db.js'
+import {
+    getTransport,
+    TransportChannel,
+    TransportConnection,
+    TransportMessage,
+} from '../transport.js'
+import { getStorage } from '../storage.js'
 import { parseContentChunk, parsePresenceChunk } from '../protocol.js'
-import { transcriptResponse } from './templates.js'
-import { getConversationInfo } from '../profile.js'
-import { validateClientAuth } from '../auth.js'
+import {
+    combinedTranscriptPage,
+    conversationHistoryPage,
+    isExportFormat,
+    transcriptExport,
+    transcriptResponse,
+} from './templates.js'
+import {
+    addProfileConversation,
+    getConversationInfo,
+    getProfileConversations,
+    isTranscriptAccess,
+    setConversationInfo,
+} from '../profile.js'
+import {
+    findIndexedTranscripts,
+    indexTranscript,
+    reindexTranscripts,
+    SearchResult,
+    searchSnippets,
+    searchWords,
+    unindexTranscript,
+} from './search.js'
+import { findAuthenticatedClient, validateClientAuth } from '../auth.js'
 import { getClientData } from '../client.js'
+import { addToIndex, findInIndex, removeFromIndex } from '../indexes.js'
+import { logger } from '../logger.js'
+import { activeTranscripts, transcriptHandoffs, transcriptionErrors } from '../metrics.js'
 
 export const SERVER_ID = randomUUID()
 
 const defaultTranscriptTtlSec = 365 * 24 * 60 * 60
 const defaultTranscriptLookBackMs = 30 * 24 * 60 * 60 * 1000
-const globalTranscriptQueueKey = 'suspended-transcript-ids'
-const globalServerQueueKey = 'servers-doing-transcription'
-const localTranscripts: Map<string, Ably.Realtime> = new Map()
+const indexFetchBatchSize = 1000
+const localTranscripts: Map<string, TransportConnection> = new Map()
+const localWatchdogs: Map<string, { timer: NodeJS.Timeout; check: () => Promise<void> }> =
+    new Map()
+
+// content chunks whose arrival time is saved with them
+const timedChunkOffsets: (string | number | undefined)[] = ['newline', 'playSound', 'playSpeech']
+
+// live transcript streaming parameters
+const liveTranscriptPollMs = 2000
+const liveTranscriptKeepAliveMs = 20000
 
 // global transcription suspend/resume overlap parameters
 let suspendInProgress = false
 const transcriptOverlapMs = 5000
 
+// crash recovery parameters
+const serverLeaseSec = 30
+const serverHeartbeatMs = 10000
+const adoptionRewind = '2m'
+const adoptionReplayMs = 2000
+
+// abandoned session parameters
+const defaultIdleTimeoutSec = 30 * 60
+const watchdogIntervalMs = 60 * 1000
+
+export interface TranscriptLine {
+    text: string
+    time?: number
+    elapsed?: number
+}
+
+export interface TranscriptAnnotation {
+    kind: 'sound' | 'speech'
+    text: string
+    line: number // the number of transcript lines that precede this annotation
+    time?: number
+    elapsed?: number
+}
+
+export type TranscriptEndReason = 'dropped' | 'idle' | 'absent' | 'forced'
+
+export interface TranscriptStats {
+    wordCount: number
+    lineCount: number
+    wordsPerMinute: number
+    longestPause: number // seconds
+    listenerCount: number
+    errCount: number
+}
+
+export interface LiveTranscript {
+    lines: TranscriptLine[]
+    liveText: string
+}
+
 export interface TranscriptData {
     id: string
     clientId: string
+    speakerId?: string
+    speakerName?: string
     conversationId: string
     contentId: string
     tzId: string
@@ -83,284 +244,1003 @@ export interface TranscriptData {
     duration?: number
     contentKey: string
     transcription?: string
+    lines?: TranscriptLine[]
+    annotations?: TranscriptAnnotation[]
     errCount?: number
+    stats?: TranscriptStats
     ttl?: number
+    idleTimeout?: number
+    endReason?: TranscriptEndReason
 }
 
 export async function getTranscriptsForConversation(conversationId: string) {
     const now = Date.now()
-    const rc = await getDbClient()
-    const key = dbKeyPrefix + 'cts:' + conversationId
-    const ids = await rc.lRange(key, 0, -1)
+    const store = getStorage().transcripts
+    const ids = await store.getConversationTranscripts(conversationId)
     const liveKeys: string[] = []
     const transcripts: TranscriptData[] = []
     for (const id of ids) {
         const tr = await getTranscript(id)
         if (tr) {
-            if (now - tr.startTime > defaultTranscriptLookBackMs) {
-                break
+            // transcripts past the look-back are not listed, but stay in the conversation
+            // so that a later change in retention still applies to them
+            liveKeys.push(id)
+            if (tr.ttl === undefined && now - tr.startTime > defaultTranscriptLookBackMs) {
+                continue
             }
             transcripts.push(tr)
-            liveKeys.push(id)
         }
     }
-    if (liveKeys.length == 0) {
-        await rc.del(key)
-    } else {
-        await rc.multi().del(key).rPush(key, liveKeys).exec()
-    }
+    await store.setConversationTranscripts(conversationId, liveKeys)
     return transcripts.sort((a, b) => b.startTime - a.startTime)
 }
 
-export async function getTranscriptPage(req: express.Request, resp: express.Response) {
+async function findRequestedTranscript(req: express.Request, resp: express.Response) {
     const tr = await getTranscript(req.params.transcriptId)
     if (!tr) {
-        console.error(`Request for unknown transcript ${req.params.transcriptId}`)
+        logger.error('Request for unknown transcript', { transcriptId: req.params.transcriptId })
         resp.sendStatus(404)
-        return
+        return undefined
     }
     if (req.params.conversationId !== tr.conversationId) {
-        console.error(`Request for transcript against non-matching conversation id`)
+        logger.error('Request for transcript against non-matching conversation id', {
+            conversationId: req.params.conversationId,
+            transcriptId: tr.id,
+        })
         resp.sendStatus(404)
+        return undefined
+    }
+    if (!(await canReadTranscript(req, tr))) {
+        logger.error('Unauthorized request for transcript', { transcriptId: tr.id })
+        resp.sendStatus(403)
+        return undefined
+    }
+    return tr
+}
+
+async function canReadTranscript(req: express.Request, tr: TranscriptData) {
+    const con = await getConversationInfo(tr.conversationId)
+    const access = con?.transcriptAccess || 'public'
+    if (access === 'public') {
+        return true
+    }
+    // app clients authenticate with their JWT, web listeners with their session
+    const cli = await findAuthenticatedClient(req)
+    if (cli?.profileId && cli.profileId === con?.ownerId) {
+        return true
+    }
+    if (access === 'owner') {
+        return false
+    }
+    const candidates = cli ? [cli.id, cli.profileId] : [req.session?.clientId]
+    for (const id of candidates) {
+        if (id && (await getStorage().transcripts.isParticipant(tr.id, id))) {
+            return true
+        }
+    }
+    return false
+}
+
+export async function getTranscriptPage(req: express.Request, resp: express.Response) {
+    const tr = await findRequestedTranscript(req, resp)
+    if (!tr) {
         return
     }
-    console.log(`Sending transcript ${tr.id} for conversation ${tr.conversationId}`)
-    const page = await transcriptResponse(tr)
+    logger.info('Sending transcript', { conversationId: tr.conversationId, transcriptId: tr.id })
+    const inProgress = !tr.transcription && !tr.errCount
+    const live = inProgress ? await reconstructLiveTranscript(tr) : undefined
+    const page = await transcriptResponse(tr, live)
     resp.status(200).send(page)
 }
 
-export async function listTranscripts(req: express.Request, resp: express.Response) {
-    const { clientId, conversationId } = req.params
+export async function streamTranscript(req: express.Request, resp: express.Response) {
+    const tr = await findRequestedTranscript(req, resp)
+    if (!tr) {
+        return
+    }
+    // resume after the last line the browser has seen, whether from the page or this stream
+    const from = req.header('Last-Event-ID') || req.query?.from
+    let sentLines = typeof from === 'string' ? parseInt(from) || 0 : 0
+    let sentLiveText: string | undefined = undefined
+    let live: Reconstruction | undefined = undefined
+    let lastSendTime = Date.now()
+    let closed = false
+    req.on('close', () => (closed = true))
+    const send = (event: string, data: object, id?: number) => {
+        resp.write(`event: ${event}\n${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`)
+        lastSendTime = Date.now()
+    }
+    logger.info('Streaming live transcript', {
+        conversationId: tr.conversationId,
+        transcriptId: tr.id,
+    })
+    resp.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+    })
+    while (!closed) {
+        if (suspendInProgress) {
+            // end the stream without an end event, so the browser reconnects to another server
+            logger.info('Ending live transcript stream for shutdown', { transcriptId: tr.id })
+            break
+        }
+        const current = await getTranscript(tr.id)
+        if (!current || current.transcription || current.errCount) {
+            send('end', {})
+            break
+        }
+        live = await reconstructLiveTranscript(current, live)
+        const { lines, liveText } = live
+        for (; sentLines < lines.length; sentLines++) {
+            send('line', lines[sentLines], sentLines + 1)
+        }
+        if (liveText !== sentLiveText) {
+            send('live', { text: liveText })
+            sentLiveText = liveText
+        }
+        if (Date.now() - lastSendTime > liveTranscriptKeepAliveMs) {
+            // keep proxies from timing out an idle connection
+            resp.write(`: keep-alive\n\n`)
+            lastSendTime = Date.now()
+        }
+        await new Promise((resolve) => setTimeout(resolve, liveTranscriptPollMs))
+    }
+    resp.end()
+}
+
+export async function getTranscriptExport(req: express.Request, resp: express.Response) {
+    const format = req.params.format?.toLowerCase()
+    if (!isExportFormat(format)) {
+        logger.error('Request for transcript in unknown format', { format: req.params.format })
+        resp.sendStatus(404)
+        return
+    }
+    const tr = await findRequestedTranscript(req, resp)
+    if (!tr) {
+        return
+    }
+    if (!tr.transcription && !tr.errCount) {
+        logger.error('Request for export of in-progress transcript', {
+            transcriptId: tr.id,
+            format,
+        })
+        resp.status(409).send({ status: 'error', reason: 'Transcript is still in progress' })
+        return
+    }
+    logger.info('Sending transcript export', {
+        conversationId: tr.conversationId,
+        transcriptId: tr.id,
+        format,
+    })
+    const { contentType, body } = await transcriptExport(tr, format)
+    resp.setHeader('Content-Type', contentType)
+    resp.setHeader('Content-Disposition', `inline; filename="transcript-${tr.id}.${format}"`)
+    resp.status(200).send(body)
+}
+
+export async function getConversationHistory(req: express.Request, resp: express.Response) {
+    const con = await getConversationInfo(req.params.conversationId)
+    if (!con) {
+        logger.error('Request for history of unknown conversation', {
+            conversationId: req.params.conversationId,
+        })
+        resp.sendStatus(404)
+        return
+    }
+    // only the owner can list the conversation, whatever the access to its transcripts
+    const cli = await findAuthenticatedClient(req)
+    if (!cli?.profileId || cli.profileId !== con.ownerId) {
+        logger.error('Unauthorized request for history of conversation', {
+            conversationId: con.id,
+            clientId: cli?.id,
+        })
+        resp.sendStatus(403)
+        return
+    }
+    const trs = await getTranscriptsForConversation(con.id)
+    const requested = req.query?.session
+    const ids = Array.isArray(requested) ? requested : requested ? [requested] : []
+    const selected = ids.includes('all') ? trs : trs.filter((tr) => ids.includes(tr.id))
+    if (selected.length > 0) {
+        logger.info('Sending combined transcripts', {
+            conversationId: con.id,
+            count: selected.length,
+        })
+        resp.status(200).send(combinedTranscriptPage(con, selected))
+    } else {
+        logger.info('Sending conversation history', {
+            conversationId: con.id,
+            count: trs.length,
+        })
+        resp.status(200).send(conversationHistoryPage(con, trs))
+    }
+}
+
+async function findOwnedConversation(
+    req: express.Request,
+    resp: express.Response,
+    clientId: string,
+    conversationId: string,
+) {
     const con = await getConversationInfo(conversationId)
     if (!con) {
-        console.error(`Request for transcripts for unknown conversation`)
+        logger.error('Request for transcripts for unknown conversation', {
+            clientId,
+            conversationId,
+        })
         resp.status(404).send({ status: 'error', reason: 'Not Found' })
-        return
+        return undefined
     }
-    const cli = await getClientData(clientId)
+    const cli = clientId ? await getClientData(clientId) : undefined
     if (!clientId || cli?.profileId !== con.ownerId) {
-        console.error(`Request for transcripts for non-matching client and conversation`)
+        logger.error('Request for transcripts for non-matching client and conversation', {
+            clientId,
+            conversationId,
+        })
         resp.status(404).send({ status: 'error', reason: 'Not Found' })
-        return
+        return undefined
     }
     if (!(await validateClientAuth(req, resp, clientId))) {
+        return undefined
+    }
+    return con
+}
+
+export async function listTranscripts(req: express.Request, resp: express.Response) {
+    const { clientId, conversationId } = req.params
+    if (!(await findOwnedConversation(req, resp, clientId, conversationId))) {
         return
     }
     const trs = await getTranscriptsForConversation(req.params.conversationId)
-    console.log(`Returning info on ${trs.length} transcripts`)
+    logger.info('Returning info on transcripts', { clientId, conversationId, count: trs.length })
     const data = trs.map((tr) => {
         return {
             id: tr.id,
             startTime: tr.startTime,
             duration: tr.duration,
             length: tr.transcription!.length,
+            stats: tr.stats,
         }
     })
     resp.status(200).send(data)
 }
 
+export async function transcriptDelete(req: express.Request, resp: express.Response) {
+    const clientId = req.header('X-Client-Id') || ''
+    const { conversationId, transcriptId } = req.params
+    if (!(await findOwnedConversation(req, resp, clientId, conversationId))) {
+        return
+    }
+    const tr = await getTranscript(transcriptId)
+    if (!tr || tr.conversationId !== conversationId) {
+        logger.error('Request to delete unknown transcript', { clientId, transcriptId })
+        resp.status(404).send({ status: 'error', reason: 'Not Found' })
+        return
+    }
+    if (!tr.transcription && !tr.errCount) {
+        logger.error('Request to delete in-progress transcript', { clientId, transcriptId: tr.id })
+        resp.status(409).send({ status: 'error', reason: 'Transcript is still in progress' })
+        return
+    }
+    await deleteTranscript(tr)
+    logger.info('Deleted transcript', { clientId, conversationId, transcriptId: tr.id })
+    resp.status(204).send()
+}
+
+export async function transcriptSettingsGet(req: express.Request, resp: express.Response) {
+    const clientId = req.header('X-Client-Id') || ''
+    const con = await findOwnedConversation(req, resp, clientId, req.params.conversationId)
+    if (!con) {
+        return
+    }
+    logger.info('Returning transcript settings', { clientId, conversationId: con.id })
+    resp.status(200).send({
+        ttl: con.transcriptTtl ?? defaultTranscriptTtlSec,
+        access: con.transcriptAccess || 'public',
+        idleTimeout: con.transcriptIdleTimeout ?? defaultIdleTimeoutSec,
+    })
+}
+
+export async function transcriptSettingsPut(req: express.Request, resp: express.Response) {
+    const clientId = req.header('X-Client-Id') || ''
+    const con = await findOwnedConversation(req, resp, clientId, req.params.conversationId)
+    if (!con) {
+        return
+    }
+    const { ttl, access, idleTimeout } = req.body || {}
+    const validTtl = typeof ttl === 'number' && Number.isInteger(ttl) && ttl >= 0
+    const validIdleTimeout =
+        typeof idleTimeout === 'number' && Number.isInteger(idleTimeout) && idleTimeout > 0
+    if (
+        (ttl === undefined && access === undefined && idleTimeout === undefined) ||
+        (ttl !== undefined && !validTtl) ||
+        (access !== undefined && !isTranscriptAccess(access)) ||
+        (idleTimeout !== undefined && !validIdleTimeout)
+    ) {
+        logger.error('Invalid transcript settings', {
+            clientId,
+            conversationId: con.id,
+            ttl,
+            access,
+            idleTimeout,
+        })
+        resp.status(400).send({ status: 'error', reason: 'Invalid transcript settings' })
+        return
+    }
+    if (access !== undefined) {
+        con.transcriptAccess = access
+        logger.info('Transcript access set', { clientId, conversationId: con.id, access })
+    }
+    if (idleTimeout !== undefined) {
+        // sessions already in progress keep the idle timeout they started with
+        con.transcriptIdleTimeout = idleTimeout
+        logger.info('Transcript idle timeout set', {
+            clientId,
+            conversationId: con.id,
+            idleTimeout,
+        })
+    }
+    if (ttl !== undefined) {
+        con.transcriptTtl = ttl
+        // apply the new retention to all existing transcripts as well as future ones,
+        // including those too old to be listed, and to their words in the search index
+        const store = getStorage().transcripts
+        const ids = await store.getConversationTranscripts(con.id)
+        const retained: { tr: TranscriptData; expiresAt: number | undefined }[] = []
+        for (const tr of await store.getMany(ids)) {
+            if (!tr) {
+                continue
+            }
+            tr.ttl = ttl
+            await saveTranscript(tr)
+            retained.push({ tr, expiresAt: transcriptExpiresAt(tr) })
+        }
+        await reindexTranscripts(con.id, retained)
+        const count = retained.length
+        logger.info('Transcript retention set', { clientId, conversationId: con.id, ttl, count })
+    }
+    await setConversationInfo(con)
+    resp.status(204).send()
+}
+
+export async function transcriptErrorsGet(req: express.Request, resp: express.Response) {
+    const clientId = req.header('X-Client-Id') || ''
+    const { conversationId, transcriptId } = req.params
+    if (!(await findOwnedConversation(req, resp, clientId, conversationId))) {
+        return
+    }
+    if (!transcriptId) {
+        const trs = await getTranscriptsForConversation(conversationId)
+        const errored: { id: string; startTime: number; errCount: number }[] = []
+        for (const tr of trs) {
+            if (tr.errCount && (await hasTranscriptPackets(tr))) {
+                errored.push({ id: tr.id, startTime: tr.startTime, errCount: tr.errCount })
+            }
+        }
+        logger.info('Returning errored transcripts', {
+            clientId,
+            conversationId,
+            count: errored.length,
+        })
+        resp.status(200).send(errored)
+        return
+    }
+    const tr = await getTranscript(transcriptId)
+    if (!tr || tr.conversationId !== conversationId) {
+        logger.error('Request for errors in unknown transcript', { clientId, transcriptId })
+        resp.status(404).send({ status: 'error', reason: 'Not Found' })
+        return
+    }
+    const errors = await findTranscriptionErrors(tr)
+    if (!errors) {
+        logger.error('Request for errors in unrepairable transcript', {
+            clientId,
+            transcriptId: tr.id,
+        })
+        resp.status(409).send({ status: 'error', reason: 'Transcript is not repairable' })
+        return
+    }
+    logger.info('Returning transcript errors', {
+        clientId,
+        transcriptId: tr.id,
+        count: errors.length,
+    })
+    resp.status(200).send({ id: tr.id, errCount: tr.errCount || 0, errors })
+}
+
+export async function retranscribePost(req: express.Request, resp: express.Response) {
+    const clientId = req.header('X-Client-Id') || ''
+    const { conversationId, transcriptId } = req.params
+    if (!(await findOwnedConversation(req, resp, clientId, conversationId))) {
+        return
+    }
+    const tr = await getTranscript(transcriptId)
+    if (!tr || tr.conversationId !== conversationId) {
+        logger.error('Request to retranscribe unknown transcript', { clientId, transcriptId })
+        resp.status(404).send({ status: 'error', reason: 'Not Found' })
+        return
+    }
+    const accept = req.body?.accept === true
+    if (!(await retranscribe(tr, accept))) {
+        logger.error('Request to retranscribe unrepairable transcript', {
+            clientId,
+            transcriptId: tr.id,
+        })
+        resp.status(409).send({ status: 'error', reason: 'Transcript is not repairable' })
+        return
+    }
+    logger.info('Retranscribed transcript', {
+        clientId,
+        transcriptId: tr.id,
+        errCount: tr.errCount,
+    })
+    resp.status(200).send({ id: tr.id, errCount: tr.errCount, length: tr.transcription!.length })
+}
+
+export async function searchTranscripts(req: express.Request, resp: express.Response) {
+    const { clientId } = req.params
+    const query = typeof req.query?.q === 'string' ? req.query.q : ''
+    const cli = await getClientData(clientId)
+    if (!cli?.profileId) {
+        logger.error('Request for transcript search from unknown client', { clientId })
+        resp.status(404).send({ status: 'error', reason: 'Not Found' })
+        return
+    }
+    if (!(await validateClientAuth(req, resp, clientId))) {
+        return
+    }
+    const words = searchWords(query)
+    if (words.length === 0) {
+        logger.error('Transcript search has no search words', { clientId })
+        resp.status(400).send({ status: 'error', reason: 'Missing search query' })
+        return
+    }
+    const results: SearchResult[] = []
+    for (const conversationId of await getProfileConversations(cli.profileId)) {
+        const con = await getConversationInfo(conversationId)
+        if (con?.ownerId !== cli.profileId) {
+            continue
+        }
+        const matches = await findIndexedTranscripts(conversationId, words)
+        if (matches.size === 0) {
+            continue
+        }
+        // the index outlives the conversation's look-back, so fetch the matches directly
+        for (const tr of await getStorage().transcripts.getMany([...matches])) {
+            if (!tr) {
+                continue
+            }
+            results.push({
+                id: tr.id,
+                conversationId,
+                conversationName: con.name,
+                startTime: tr.startTime,
+                snippets: searchSnippets(tr.transcription || '', words),
+            })
+        }
+    }
+    results.sort((a, b) => b.startTime - a.startTime)
+    logger.info('Returning transcripts matching search', { clientId, count: results.length })
+    resp.status(200).send(results)
+}
+
+export function isSuspendingTranscriptions() {
+    return suspendInProgress
+}
+
 export async function suspendTranscriptions() {
     // stop accepting new transcripts
-    console.log(`Server ${SERVER_ID} is no longer available to transcribe`)
+    logger.info('Server is no longer available to transcribe', { serverId: SERVER_ID })
     suspendInProgress = true
-    const rc = await getDbClient()
-    const sKey = dbKeyPrefix + globalServerQueueKey
-    await rc.lRem(sKey, 0, SERVER_ID)
-    await unblockDbClient('blocking')
+    const queues = getStorage().queues
+    await queues.removeServer(SERVER_ID)
+    await queues.interruptWait()
     // if we have no transcripts in progress, we're done
     if (localTranscripts.size == 0) {
-        console.log(`Server ${SERVER_ID}: No local transcripts to suspend`)
+        logger.info('No local transcripts to suspend', { serverId: SERVER_ID })
         return
     }
-    console.log(`Server ${SERVER_ID}: Looking for another server to resume our transcripts...`)
-    const result = await rc.blMove(sKey, sKey, 'RIGHT', 'LEFT', 20)
-    if (result !== null) {
-        console.log(`Server ${SERVER_ID}: Found Server ${result} to resume our transcripts`)
+    // the heartbeat has stopped, but we keep our lease until our transcripts are handed off
+    await renewServerLease()
+    const renewal = setInterval(() => {
+        renewServerLease().catch((err) => {
+            logger.error('Failed to renew server lease', { serverId: SERVER_ID, error: err })
+        })
+    }, serverHeartbeatMs)
+    try {
+        await handOffTranscriptions()
+    } finally {
+        clearInterval(renewal)
+    }
+    // our transcripts have all been handed off, so no one need adopt them
+    await queues.removeLease(SERVER_ID)
+    logger.info('Local transcription stopped cleanly', { serverId: SERVER_ID })
+}
+
+async function handOffTranscriptions() {
+    logger.info('Looking for another server to resume our transcripts', { serverId: SERVER_ID })
+    const result = await getStorage().queues.waitForServer(20)
+    if (result !== undefined) {
+        logger.info('Found a server to resume our transcripts', {
+            serverId: SERVER_ID,
+            resumingServerId: result,
+        })
     } else {
-        console.warn(`Server ${SERVER_ID}: No server available to resume our transcripts`)
+        logger.warn('No server available to resume our transcripts', { serverId: SERVER_ID })
     }
-    console.log(`Server ${SERVER_ID}: Suspending ${localTranscripts.size} local transcripts...`)
+    logger.info('Suspending local transcripts', {
+        serverId: SERVER_ID,
+        count: localTranscripts.size,
+    })
     const promises: Promise<void>[] = []
-    for (const [trId, ably] of localTranscripts) {
+    for (const trId of [...localTranscripts.keys()]) {
+        const connection = claimLocalTranscript(trId)
+        if (!connection) {
+            // it ended while we were suspending the others
+            continue
+        }
         const tr = await getTranscript(trId)
         if (tr && !tr.transcription && !tr.errCount) {
-            promises.push(suspendTranscription(tr, ably))
+            promises.push(suspendTranscription(tr, connection))
         } else {
-            console.warn(`Server ${SERVER_ID}: Ignoring inactive transcript ${trId} during suspend`)
+            logger.warn('Ignoring inactive transcript during suspend', {
+                serverId: SERVER_ID,
+                transcriptId: trId,
+            })
         }
     }
-    localTranscripts.clear()
     await Promise.all(promises)
-    console.log(`Local transcription stopped cleanly`)
 }
 
 export async function resumeTranscriptions() {
-    const rc = await getDbClient('blocking')
-    const sKey = dbKeyPrefix + globalServerQueueKey
+    const queues = getStorage().queues
     // signal that we are receiving transcripts
-    console.log(`Server ${SERVER_ID} is available to transcribe`)
-    rc.lPush(sKey, SERVER_ID)
+    logger.info('Server is available to transcribe', { serverId: SERVER_ID })
+    await queues.addServer(SERVER_ID)
     // pick up any waiting transcripts
-    const tKey = dbKeyPrefix + globalTranscriptQueueKey
     while (!suspendInProgress) {
-        const result = await rc.brPop(tKey, 10)
-        if (result === null) {
+        const trId = await queues.waitForSuspendedTranscript(10)
+        if (trId === undefined) {
             continue
         }
         if (suspendInProgress) {
             // we got a transcript request just as we were exiting
-            await rc.lPush(tKey, result.element)
+            await queues.suspendTranscript(trId)
             continue
         }
-        const tr = await getTranscript(result.element)
+        const tr = await getTranscript(trId)
         if (!tr) {
-            console.warn(
-                `Server ${SERVER_ID}: Transcript ${result.element} no longer exists, can't resume it`,
-            )
+            logger.warn("Transcript no longer exists, can't resume it", {
+                serverId: SERVER_ID,
+                transcriptId: trId,
+            })
             continue
         } else if (tr.transcription || tr.errCount) {
-            console.warn(
-                `Server ${SERVER_ID}: Transcript ${tr.id} has been transcribed, not resuming it`,
-            )
+            logger.warn('Transcript has been transcribed, not resuming it', {
+                serverId: SERVER_ID,
+                transcriptId: tr.id,
+            })
             continue
         }
-        console.log(
-            `Server ${SERVER_ID}: Resuming transcription ${tr.id} for conversation ${tr.conversationId}`,
-        )
+        logger.info('Resuming transcription', {
+            serverId: SERVER_ID,
+            conversationId: tr.conversationId,
+            transcriptId: tr.id,
+        })
+        transcriptHandoffs.inc({ event: 'resumed' })
         await startLocalTranscript(tr)
     }
 }
 
+export async function heartbeatTranscriptions() {
+    logger.info('Server is watching for orphaned transcripts', { serverId: SERVER_ID })
+    while (!suspendInProgress) {
+        await renewServerLease()
+        await adoptOrphanedTranscripts()
+        await new Promise((resolve) => setTimeout(resolve, serverHeartbeatMs))
+    }
+}
+
+export async function adoptOrphanedTranscripts() {
+    const adopted = await claimOrphanedTranscripts()
+    for (const tr of adopted) {
+        logger.info('Adopting transcription', {
+            serverId: SERVER_ID,
+            conversationId: tr.conversationId,
+            transcriptId: tr.id,
+        })
+        transcriptHandoffs.inc({ event: 'adopted' })
+        await startLocalTranscript(tr, true)
+    }
+    return adopted
+}
+
+async function renewServerLease() {
+    await getStorage().queues.renewLease(SERVER_ID, serverLeaseSec)
+}
+
+// claim the transcripts of servers whose lease has expired, returning the ones to resume
+async function claimOrphanedTranscripts() {
+    const queues = getStorage().queues
+    const owners = await queues.getOwners()
+    const claimed: TranscriptData[] = []
+    for (const [trId, serverId] of Object.entries(owners)) {
+        if (serverId === SERVER_ID || (await queues.getLease(serverId)) !== undefined) {
+            continue
+        }
+        // only one of the servers that notice the expired lease gets to adopt the transcript
+        if (!(await queues.claim(trId, SERVER_ID, serverLeaseSec))) {
+            continue
+        }
+        logger.warn('Lease of owning server has expired', {
+            serverId: SERVER_ID,
+            ownerServerId: serverId,
+            transcriptId: trId,
+        })
+        const tr = await getTranscript(trId)
+        if (!tr || tr.transcription || tr.errCount) {
+            logger.warn('Transcript is no longer active, not adopting it', {
+                serverId: SERVER_ID,
+                transcriptId: trId,
+            })
+            await queues.removeOwner(trId)
+            continue
+        }
+        await queues.setOwner(trId, SERVER_ID)
+        claimed.push(tr)
+    }
+    return claimed
+}
+
+export interface TranscriptionServer {
+    serverId: string
+    isAvailable: boolean
+    leaseTime?: number
+    transcriptIds: string[]
+}
+
+// a snapshot of which servers are transcribing what, for the admin dashboard
+export async function getTranscriptionStatus() {
+    const queues = getStorage().queues
+    const available = await queues.getServers()
+    const suspendedIds = await queues.getSuspendedTranscripts()
+    const owners = await queues.getOwners()
+    const servers: Map<string, TranscriptionServer> = new Map()
+    for (const serverId of available) {
+        servers.set(serverId, { serverId, isAvailable: true, transcriptIds: [] })
+    }
+    for (const [trId, serverId] of Object.entries(owners)) {
+        let server = servers.get(serverId)
+        if (!server) {
+            // a server that's suspending (or has crashed) still owns its transcripts
+            server = { serverId, isAvailable: false, transcriptIds: [] }
+            servers.set(serverId, server)
+        }
+        server.transcriptIds.push(trId)
+    }
+    for (const server of servers.values()) {
+        server.leaseTime = await queues.getLease(server.serverId)
+    }
+    return { servers: [...servers.values()], suspendedIds }
+}
+
 export async function startTranscription(
     clientId: string,
     conversationId: string,
     contentId: string,
     tzId: string,
+    speakerId: string,
+    speakerName: string,
 ) {
-    const tr = await createTranscript(clientId, conversationId, contentId, tzId)
-    console.log(`Start transcription for conversation ${conversationId}, timezone ${tzId}, in transcription ${tr.id}`)
+    const con = await getConversationInfo(conversationId)
+    const tr = await createTranscript(
+        clientId,
+        conversationId,
+        contentId,
+        tzId,
+        speakerId,
+        speakerName,
+        con?.transcriptTtl,
+        con?.transcriptIdleTimeout,
+    )
+    logger.info('Start transcription', { conversationId, transcriptId: tr.id, tzId })
     await startLocalTranscript(tr)
     return tr.id
 }
 
 export async function ensureTranscriptionEnded(id: string) {
     const tr = await getTranscript(id)
-    const ably = localTranscripts.get(id)
-    if (tr && ably) {
-        console.warn(
-            `Force terminating transcription ${tr.id} for conversation ${tr.conversationId}`,
-        )
-        await terminateTranscribing(tr, ably, 0)
-        await endTranscription(tr)
-    } else if (ably && ably.connection.state !== 'disconnected') {
-        console.error(`Found ably client for transcript ${id} but transcription is missing`)
-        ably.close()
+    const connection = claimLocalTranscript(id)
+    if (tr && connection) {
+        logger.warn('Force terminating transcription', {
+            conversationId: tr.conversationId,
+            transcriptId: tr.id,
+        })
+        await terminateTranscribing(tr, connection, 0)
+        await endTranscription(tr, 'forced')
+    } else if (connection && !connection.isClosed()) {
+        logger.error('Found connection for transcript but transcription is missing', {
+            transcriptId: id,
+        })
+        connection.close()
     } else if (tr && !tr.transcription && !tr.errCount) {
-        console.error(`Found an open transcript ${tr.id} for conversation ${tr.conversationId}`)
-        await endTranscription(tr)
+        logger.error('Found an open transcript', {
+            conversationId: tr.conversationId,
+            transcriptId: tr.id,
+        })
+        await endTranscription(tr, 'forced')
     }
 }
 
-async function startLocalTranscript(tr: TranscriptData) {
-    console.log(
-        `Locally listening for transcript ${tr.id}, clientId: ${tr.clientId}, contentId: ${tr.contentId}, chunks: ${tr.contentKey}`,
-    )
-    const config = getSettings()
-    const ably = new Ably.Realtime({
-        clientId: 'whisper-server:' + tr.id,
-        key: config.ablyPublishKey,
+// adopted transcripts are those whose prior server crashed
+async function startLocalTranscript(tr: TranscriptData, adopted: boolean = false) {
+    logger.info('Locally listening for transcript', {
+        clientId: tr.clientId,
+        conversationId: tr.conversationId,
+        transcriptId: tr.id,
+        contentId: tr.contentId,
+        contentKey: tr.contentKey,
     })
-    await subscribeTranscriptContent(tr, ably)
-    await subscribeTranscriptControl(tr, ably)
-    localTranscripts.set(tr.id, ably)
+    const connection = getTransport().connect('whisper-server:' + tr.id)
+    await getStorage().queues.setOwner(tr.id, SERVER_ID)
+    await subscribeTranscriptContent(tr, connection, adopted)
+    await subscribeTranscriptControl(tr, connection)
+    localTranscripts.set(tr.id, connection)
+    activeTranscripts.set(localTranscripts.size)
+    watchTranscript(tr, connection)
 }
 
-async function subscribeTranscriptContent(tr: TranscriptData, ably: Ably.Realtime) {
-    const rc = await getDbClient()
-    const content = ably.channels.get(`${tr.conversationId}:${tr.contentId}`)
-    const cKey = tr.contentKey
+async function subscribeTranscriptContent(
+    tr: TranscriptData,
+    connection: TransportConnection,
+    adopted: boolean,
+) {
+    const store = getStorage().transcripts
     let saveIds = true
-    await content.subscribe('all', (message) => {
-        if (saveIds || suspendInProgress) {
-            rc.multi().lPush(cKey, `id:${message.id}`).lPush(cKey, message.data).exec().then()
+    let content: TransportChannel
+    let lastChunkId: string | undefined = undefined
+    if (adopted) {
+        // replay the chunks the crashed server may have missed
+        const progress = await store.getProgress(tr.id)
+        lastChunkId = progress.lastChunkId
+        const options = { rewind: adoptionRewind }
+        content = connection.channel(`${tr.conversationId}:${tr.contentId}`, options)
+    } else {
+        content = connection.channel(`${tr.conversationId}:${tr.contentId}`)
+    }
+    const saveChunk = (message: TransportMessage, saveId: boolean) => {
+        // the entries are pushed left in order, so the chunk ends up after its markers
+        const entries: string[] = []
+        if (timedChunkOffsets.includes(parseContentChunk(message.data)?.offset)) {
+            entries.push(`ts:${message.timestamp || Date.now()}`)
+        }
+        if (saveId) {
+            entries.push(`id:${message.id}`)
+        }
+        entries.push(message.data)
+        const chunk = { id: message.id, time: message.timestamp || Date.now() }
+        store.appendContent(tr, entries, chunk).then()
+    }
+    // the rewound chunks are held until we know which of them the crashed server saved
+    let held: TransportMessage[] | undefined = lastChunkId !== undefined ? [] : undefined
+    await content.subscribe((message) => {
+        if (held && message.id === lastChunkId) {
+            // the crashed server saved this chunk and all the ones held
+            held = undefined
+        } else if (held) {
+            held.push(message)
         } else {
-            rc.lPush(tr.contentKey, message.data).then()
+            saveChunk(message, saveIds || suspendInProgress)
         }
-    })
+    }, 'all')
+    setTimeout(() => {
+        // the last chunk saved wasn't rewound, so none of the held chunks were saved
+        const unsaved = held || []
+        held = undefined
+        unsaved.forEach((message) => saveChunk(message, true))
+    }, adoptionReplayMs)
     // only save IDs for the first few seconds of transcription (overlap with prior server)
     setTimeout(() => (saveIds = false), transcriptOverlapMs)
-    console.log(`Subscribed to ${tr.conversationId}:${tr.contentId}`)
+    logger.info('Subscribed to content channel', {
+        conversationId: tr.conversationId,
+        transcriptId: tr.id,
+        contentId: tr.contentId,
+    })
 }
 
-async function subscribeTranscriptControl(tr: TranscriptData, ably: Ably.Realtime) {
-    const control = ably.channels.get(`${tr.conversationId}:control`)
-    let subscribed = true
+async function subscribeTranscriptControl(tr: TranscriptData, connection: TransportConnection) {
+    const control = connection.channel(`${tr.conversationId}:control`)
     await control.subscribe((message) => {
+        if (message.clientId != tr.clientId) {
+            const info = parsePresenceChunk(message.data)
+            if (info && info.clientId == message.clientId && info.offset === 'joining') {
+                recordListenerPresence(tr, info.clientId, info.profileId).then()
+            }
+        }
         if (message.clientId == tr.clientId) {
+            recordWhispererActivity(tr).then()
             const info = parsePresenceChunk(message.data)
             if (info && info.clientId == tr.clientId && info.offset === 'dropping') {
-                console.log(
-                    `Whisperer has dropped from ${tr.conversationId} with transcription ${tr.id}`,
-                )
-                if (!subscribed) {
+                logger.info('Whisperer has dropped', {
+                    conversationId: tr.conversationId,
+                    transcriptId: tr.id,
+                })
+                if (!claimLocalTranscript(tr.id)) {
                     // already stopped transcribing
-                    console.warn(`Received duplicate drop message from Whisperer: ${message}`)
+                    logger.warn('Received duplicate drop message from Whisperer', {
+                        transcriptId: tr.id,
+                        chunk: message,
+                    })
                     return
                 }
-                subscribed = false
-                terminateTranscribing(tr, ably, 0).then(() => endTranscription(tr).then())
+                terminateTranscribing(tr, connection, 0).then(() =>
+                    endTranscription(tr, 'dropped').then(),
+                )
             }
         }
     })
-    console.log(`Subscribed to control channel on ${tr.conversationId}`)
+    logger.info('Subscribed to control channel', {
+        conversationId: tr.conversationId,
+        transcriptId: tr.id,
+    })
+}
+
+async function recordWhispererActivity(tr: TranscriptData) {
+    await getStorage().transcripts.recordActivity(tr.id, Date.now())
+}
+
+function watchTranscript(tr: TranscriptData, connection: TransportConnection) {
+    // the Whisperer's absence only counts if we've seen them present
+    let seenPresent = false
+    const check = async () => {
+        if (!localTranscripts.has(tr.id)) {
+            return
+        }
+        const progress = await getStorage().transcripts.getProgress(tr.id)
+        const lastActivity = progress.lastActivityTime || tr.startTime
+        const idleTimeout = tr.idleTimeout ?? defaultIdleTimeoutSec
+        let reason: TranscriptEndReason | undefined = undefined
+        if (Date.now() - lastActivity > idleTimeout * 1000) {
+            reason = 'idle'
+        } else {
+            const control = connection.channel(`${tr.conversationId}:control`)
+            const present = await control.presentClients(tr.clientId)
+            if (present.length > 0) {
+                seenPresent = true
+            } else if (seenPresent) {
+                reason = 'absent'
+            }
+        }
+        if (reason && claimLocalTranscript(tr.id)) {
+            logger.warn('Watchdog ending transcription', {
+                conversationId: tr.conversationId,
+                transcriptId: tr.id,
+                reason,
+            })
+            await terminateTranscribing(tr, connection, 0)
+            // an idle session ended when its last activity happened
+            await endTranscription(tr, reason, reason === 'idle' ? lastActivity : undefined)
+        }
+    }
+    const timer = setInterval(async () => {
+        try {
+            await check()
+        } catch (err) {
+            logger.error('Watchdog failed to check transcription', {
+                transcriptId: tr.id,
+                error: err,
+            })
+        }
+    }, watchdogIntervalMs)
+    localWatchdogs.set(tr.id, { timer, check })
+}
+
+// run the watchdogs of the local transcripts now, rather than at their next interval
+export async function checkLocalTranscripts() {
+    for (const { check } of [...localWatchdogs.values()]) {
+        await check()
+    }
+}
+
+// whoever removes a transcript from the local transcripts is the one to end it
+function claimLocalTranscript(id: string) {
+    const connection = localTranscripts.get(id)
+    localTranscripts.delete(id)
+    activeTranscripts.set(localTranscripts.size)
+    return connection
+}
+
+async function recordListenerPresence(tr: TranscriptData, clientId: string, profileId: string) {
+    const store = getStorage().transcripts
+    const expiresAt = transcriptExpiresAt(tr)
+    // a listener is known by their profile, if any, so rejoins and other devices don't count
+    if (await store.addParticipant(tr.id, profileId || clientId, expiresAt)) {
+        await store.incrementListenerCount(tr.id)
+    }
+    if (profileId && profileId !== clientId) {
+        await store.addParticipant(tr.id, clientId, expiresAt)
+    }
 }
 
-async function terminateTranscribing(tr: TranscriptData, ably: Ably.Realtime, delayMs: number) {
-    if (ably.connection.state === 'disconnected') {
-        console.warn(`Local transcription ${tr.id} has already terminated`)
+async function terminateTranscribing(
+    tr: TranscriptData,
+    connection: TransportConnection,
+    delayMs: number,
+) {
+    clearInterval(localWatchdogs.get(tr.id)?.timer)
+    localWatchdogs.delete(tr.id)
+    if (connection.isClosed()) {
+        logger.warn('Local transcription has already terminated', { transcriptId: tr.id })
     } else {
-        console.log(`Terminating local transcription ${tr.id}`)
-        const content = ably.channels.get(`${tr.conversationId}:${tr.contentId}`)
-        const control = ably.channels.get(`${tr.conversationId}:control`)
+        logger.info('Terminating local transcription', { transcriptId: tr.id })
+        const content = connection.channel(`${tr.conversationId}:${tr.contentId}`)
+        const control = connection.channel(`${tr.conversationId}:control`)
         if (delayMs > 0) {
             await new Promise((resolve) => setTimeout(resolve, delayMs))
         }
         await content.detach()
         control.unsubscribe()
         await control.detach()
-        ably.close()
+        connection.close()
     }
-    localTranscripts.delete(tr.id)
+    await releaseTranscriptOwnership(tr)
 }
 
-async function suspendTranscription(tr: TranscriptData, ably: Ably.Realtime) {
-    console.log(
-        `Server ${SERVER_ID}: Suspending transcription ${tr.id} for conversation ${tr.conversationId}`,
-    )
+async function releaseTranscriptOwnership(tr: TranscriptData) {
+    // a transcript that's been handed off may already be owned by another server
+    const queues = getStorage().queues
+    if ((await queues.getOwner(tr.id)) === SERVER_ID) {
+        await queues.removeOwner(tr.id)
+    }
+}
+
+async function suspendTranscription(tr: TranscriptData, connection: TransportConnection) {
+    logger.info('Suspending transcription', {
+        serverId: SERVER_ID,
+        conversationId: tr.conversationId,
+        transcriptId: tr.id,
+    })
     // first put the transcript where it can be picked up by another server
-    const rc = await getDbClient()
-    const key = dbKeyPrefix + globalTranscriptQueueKey
-    await rc.lPush(key, tr.id)
+    await getStorage().queues.suspendTranscript(tr.id)
+    transcriptHandoffs.inc({ event: 'suspended' })
     // give the other server some time to get connected, then stop listening
-    await terminateTranscribing(tr, ably, transcriptOverlapMs)
+    await terminateTranscribing(tr, connection, transcriptOverlapMs)
 }
 
-async function endTranscription(tr: TranscriptData) {
-    console.log(
-        `Transcription ${tr.id} (conversation ${tr.conversationId}, chunks ${tr.contentKey}) has ended.`,
-    )
-    tr.duration = Date.now() - tr.startTime
-    const { text, errCount } = await transcribePackets(tr.id, tr.contentKey)
+async function endTranscription(
+    tr: TranscriptData,
+    reason: TranscriptEndReason,
+    endTime: number = Date.now(),
+) {
+    logger.info('Transcription has ended', {
+        conversationId: tr.conversationId,
+        transcriptId: tr.id,
+        contentKey: tr.contentKey,
+        reason,
+    })
+    tr.duration = endTime - tr.startTime
+    tr.endReason = reason
+    const { text, lines, annotations, errCount } = await transcribePackets(tr)
     tr.transcription = text
+    tr.lines = lines
+    tr.annotations = annotations
     tr.errCount = errCount
+    tr.stats = computeTranscriptStats(tr, await getListenerCount(tr))
     await saveTranscript(tr)
     if (text || errCount) {
-        console.log(
-            `Adding transcript of length ${text.length} to conversation ${tr.conversationId}`,
-        )
+        logger.info('Adding transcript to conversation', {
+            conversationId: tr.conversationId,
+            transcriptId: tr.id,
+            length: text.length,
+        })
         await addTranscriptToConversation(tr)
+        await indexTranscript(tr, transcriptExpiresAt(tr))
     } else {
-        console.warn(`Discarding empty transcript for conversation ${tr.conversationId}`)
+        logger.warn('Discarding empty transcript', {
+            conversationId: tr.conversationId,
+            transcriptId: tr.id,
+        })
         await deleteTranscript(tr)
     }
 }
@@ -370,110 +1250,144 @@ async function createTranscript(
     conversationId: string,
     contentId: string,
     tzId: string,
+    speakerId: string,
+    speakerName: string,
     ttl: number | undefined = undefined,
+    idleTimeout: number = defaultIdleTimeoutSec,
 ) {
-    await getDbClient() // required to get the correct dbKeyPrefix
     const id: string = randomUUID()
-    const contentKey = dbKeyPrefix + 'tcp:' + randomUUID()
+    const contentKey = getStorage().transcripts.newContentKey()
     const tr: TranscriptData = {
         id,
         clientId,
+        speakerId,
+        speakerName,
         conversationId,
         contentId,
         tzId,
         startTime: Date.now(),
         contentKey: contentKey,
+        idleTimeout,
     }
-    if (typeof ttl === 'number' && ttl > 0) {
+    if (typeof ttl === 'number' && ttl >= 0) {
         tr.ttl = ttl
     }
     await saveTranscript(tr)
     return tr
 }
 
-async function getTranscript(transcriptId: string) {
-    const rc = await getDbClient()
-    const tKey = dbKeyPrefix + 'tra:' + transcriptId
-    const data: { [k: string]: string | number } = await rc.hGetAll(tKey)
-    if (!data?.id) {
-        return undefined
-    }
-    if (!data?.tzId) {
-        data.tzId = 'America/Los_Angeles'
-    }
-    if (typeof data?.startTime === 'string') {
-        data.startTime = parseInt(data.startTime)
-    }
-    if (typeof data?.duration === 'string') {
-        data.duration = parseInt(data.duration)
-    }
-    if (typeof data?.errCount === 'string') {
-        data.errCount = parseInt(data.errCount)
-    }
-    if (typeof data?.ttl === 'string') {
-        data.ttl = parseInt(data.ttl)
-    }
-    return data as unknown as TranscriptData
+export async function getTranscript(transcriptId: string) {
+    return await getStorage().transcripts.get(transcriptId)
 }
 
 async function saveTranscript(tr: TranscriptData) {
-    const rc = await getDbClient()
-    const tKey = dbKeyPrefix + 'tra:' + tr.id
-    const ttl = tr?.ttl || defaultTranscriptTtlSec
-    const newData: { [k: string]: string } = {
-        id: tr.id,
-        clientId: tr.clientId,
-        conversationId: tr.conversationId,
-        contentId: tr.contentId,
-        tzId: tr.tzId,
-        startTime: tr.startTime.toString(),
-        contentKey: tr.contentKey,
-    }
-    if (tr?.ttl) {
-        newData.ttl = ttl.toString()
+    await getStorage().transcripts.save(tr, transcriptExpiresAt(tr))
+    await addToIndex('tra-startTime', tr.id, tr.startTime)
+}
+
+// the time (epoch seconds) at which the transcript expires, undefined if never
+function transcriptExpiresAt(tr: TranscriptData) {
+    const ttl = tr?.ttl ?? defaultTranscriptTtlSec
+    return ttl === 0 ? undefined : Math.floor(tr.startTime / 1000) + ttl
+}
+
+async function deleteTranscript(tr: TranscriptData) {
+    await getStorage().transcripts.delete(tr)
+    await removeFromIndex('tra-startTime', [tr.id])
+    await unindexTranscript(tr)
+}
+
+async function addTranscriptToConversation(data: TranscriptData) {
+    await getStorage().transcripts.addConversationTranscript(data.conversationId, data.id)
+}
+
+// accepting a transcript removes its packets even if there are transcription errors
+async function transcribePackets(tr: TranscriptData, accept: boolean = false) {
+    const store = getStorage().transcripts
+    const chunks = await store.getContent(tr.contentKey)
+    if (chunks.length == 0) {
+        logger.warn('No packets in transcript to transcribe', { transcriptId: tr.id })
     }
-    if (typeof tr?.duration === 'number') {
-        newData.duration = tr.duration.toString()
+    const { lines, liveText, annotations, errors } = reconstructTranscript(tr, chunks)
+    if (liveText) {
+        // the Whisperer left without committing the last line, so commit it at the end
+        const endTime = tr.startTime + (tr.duration ?? Date.now() - tr.startTime)
+        lines.push({ text: liveText, ...chunkTiming(tr.startTime, endTime) })
     }
-    if (tr?.transcription) {
-        newData.transcription = tr.transcription
+    for (const error of errors) {
+        logger.warn('Transcription error', {
+            transcriptId: tr.id,
+            reason: error.reason,
+            chunk: error.chunk,
+        })
     }
-    if (typeof tr?.errCount === 'number') {
-        newData.errCount = tr?.errCount.toString()
+    const errCount = errors.length
+    transcriptionErrors.inc(errCount)
+    if (errCount == 0) {
+        await store.deleteContent(tr.contentKey)
+    } else if (accept) {
+        logger.warn('Accepting transcription errors, removing packets', {
+            transcriptId: tr.id,
+            contentKey: tr.contentKey,
+        })
+        await store.deleteContent(tr.contentKey)
+    } else {
+        logger.warn('Transcription errors, not removing packets', {
+            transcriptId: tr.id,
+            contentKey: tr.contentKey,
+        })
     }
-    await rc.hSet(tKey, newData)
-    await rc.expire(tr.contentKey, ttl)
-    await rc.expire(tKey, ttl)
+    const text = lines.map((line) => line.text).join('\n')
+    return { text, lines, annotations, errCount }
 }
 
-async function deleteTranscript(tr: TranscriptData) {
-    const rc = await getDbClient()
-    const cKey = tr.contentKey
-    const tKey = dbKeyPrefix + 'tra:' + tr.id
-    await rc.del([tKey, cKey])
+export interface TranscriptionError {
+    index: number // position of the chunk in the content list, oldest first
+    chunk: string
+    reason: string
 }
 
-async function addTranscriptToConversation(data: TranscriptData) {
-    const rc = await getDbClient()
-    const cKey = dbKeyPrefix + 'cts:' + data.conversationId
-    await rc.lPush(cKey, data.id)
-}
-
-async function transcribePackets(transcriptId: string, contentKey: string) {
-    const rc = await getDbClient()
-    let liveText = ''
-    let transcription = ''
-    let errCount = 0
-    const chunks = await rc.lRange(contentKey, 0, -1)
-    let ids: string[] = []
-    if (chunks.length == 0) {
-        console.warn(`No packets in transcript ${transcriptId} to transcribe`)
+// the progress of a reconstruction, which can be continued with the chunks added since
+export interface Reconstruction {
+    count: number // chunks reconstructed so far
+    lines: TranscriptLine[]
+    liveText: string
+    annotations: TranscriptAnnotation[]
+    errors: TranscriptionError[]
+    ids: string[]
+    chunkTime?: number
+}
+
+// rebuild the transcript from its content chunks (oldest last) without changing them;
+// the entries for a chunk are always saved together, so continuing a reconstruction
+// never separates a chunk from its markers
+export function reconstructTranscript(
+    tr: TranscriptData,
+    chunks: string[],
+    prior?: Reconstruction,
+): Reconstruction {
+    const state: Reconstruction = prior || {
+        count: 0,
+        lines: [],
+        liveText: '',
+        annotations: [],
+        errors: [],
+        ids: [],
     }
+    const { lines, annotations, errors } = state
+    let { liveText, ids, chunkTime } = state
     for (let i = chunks.length - 1; i >= 0; i--) {
+        const index = state.count + chunks.length - 1 - i
+        if (chunks[i].startsWith('ts:')) {
+            // this is the time at which the next chunk was sent
+            chunkTime = parseInt(chunks[i].substring(3)) || undefined
+            continue
+        }
         if (chunks[i].startsWith('id:')) {
             // this is an ID marker for the next chunk
             if (ids.includes(chunks[i])) {
-                // we have already seen this chunk, discard it
+                // we have already seen this chunk, discard it (and its time)
+                chunkTime = undefined
                 i--
                 continue
             } else {
@@ -485,20 +1399,23 @@ async function transcribePackets(transcriptId: string, contentKey: string) {
             // no ID for this chunk, so no future chunks can be duplicates
             ids = []
         }
+        const time = chunkTime
+        chunkTime = undefined
         const chunk = parseContentChunk(chunks[i])
         if (!chunk) {
-            console.warn(`Transcription: Skipping illegal content chunk: ${chunks[i]}`)
-            errCount++
+            errors.push({ index, chunk: chunks[i], reason: 'Skipping illegal content chunk' })
             continue
         }
-        if (chunk.offset === 'playSound') {
-            // don't put sounds in the transcription
+        if (chunk.offset === 'playSound' || chunk.offset === 'playSpeech') {
+            const kind = chunk.offset === 'playSound' ? 'sound' : 'speech'
+            annotations.push({
+                kind,
+                text: chunk.text,
+                line: lines.length,
+                ...chunkTiming(tr.startTime, time),
+            })
         } else if (chunk.offset === 'newline') {
-            if (transcription) {
-                transcription = transcription + '\n' + liveText
-            } else {
-                transcription = liveText
-            }
+            lines.push({ text: liveText, ...chunkTiming(tr.startTime, time) })
             liveText = ''
         } else if (chunk.offset === 0) {
             liveText = chunk.text
@@ -510,26 +1427,101 @@ async function transcribePackets(transcriptId: string, contentKey: string) {
                 liveText = liveText.substring(0, offset) + chunk.text
             } else {
                 const diff = offset - liveText.length
-                console.warn(
-                    `Transcription: Chunk offset indicates ${diff} missing characters, using ?`,
-                )
-                errCount++
+                errors.push({
+                    index,
+                    chunk: chunks[i],
+                    reason: `Chunk offset indicates ${diff} missing characters, using ?`,
+                })
                 liveText = liveText + '?'.repeat(diff) + chunk.text
             }
+        } else if (chunk.offset === 'clearHistory') {
+            // this only clears the listeners' past text, the transcript keeps it
+        } else if (chunk.offset === 'startReread' || chunk.offset === 'pastText') {
+            // the past text being re-read is already in the transcript
+        } else if (chunk.offset === 'liveText') {
+            // the re-read live text is authoritative, and ends the re-read
+            liveText = chunk.text
         } else {
-            console.warn(`Transcription: Skipping unexpected content chunk: ${chunks[i]}`)
-            errCount++
+            errors.push({ index, chunk: chunks[i], reason: 'Skipping unexpected content chunk' })
         }
     }
-    if (liveText) {
-        transcription = transcription + '\n' + liveText
+    state.count += chunks.length
+    Object.assign(state, { liveText, ids, chunkTime })
+    return state
+}
+
+function chunkTiming(startTime: number, time: number | undefined) {
+    if (!time) {
+        return {}
     }
-    if (errCount == 0) {
-        await rc?.del(contentKey)
-    } else {
-        console.warn(`Transcription errors in content ${contentKey}, not removing packets.`)
+    return { time, elapsed: Math.max(0, Math.round((time - startTime) / 1000)) }
+}
+
+async function getListenerCount(tr: TranscriptData) {
+    return (await getStorage().transcripts.getProgress(tr.id)).listenerCount
+}
+
+// the statistics for a completed transcript, given the number of listeners who joined
+export function computeTranscriptStats(tr: TranscriptData, listenerCount: number) {
+    const lines = tr.lines || []
+    const wordCount = lines.reduce((sum, line) => sum + (line.text.match(/\S+/g)?.length || 0), 0)
+    const minutes = (tr.duration || 0) / 60000
+    let longestPause = 0
+    let lastElapsed = 0
+    for (const line of lines) {
+        if (line.elapsed === undefined) {
+            continue
+        }
+        longestPause = Math.max(longestPause, line.elapsed - lastElapsed)
+        lastElapsed = line.elapsed
+    }
+    const stats: TranscriptStats = {
+        wordCount,
+        lineCount: lines.length,
+        wordsPerMinute: minutes > 0 ? Math.round(wordCount / minutes) : 0,
+        longestPause,
+        listenerCount,
+        errCount: tr.errCount || 0,
+    }
+    return stats
+}
+
+// continuing a prior reconstruction only reads the chunks saved since
+async function reconstructLiveTranscript(tr: TranscriptData, prior?: Reconstruction) {
+    const count = prior?.count || 0
+    const chunks = await getStorage().transcripts.getContentAfter(tr.contentKey, count)
+    return reconstructTranscript(tr, chunks, prior)
+}
+
+async function hasTranscriptPackets(tr: TranscriptData) {
+    return await getStorage().transcripts.hasContent(tr.contentKey)
+}
+
+// the errors in a completed transcript's packets, undefined if it can't be repaired
+export async function findTranscriptionErrors(tr: TranscriptData) {
+    if (!tr.errCount || !(await hasTranscriptPackets(tr))) {
+        return undefined
     }
-    return { text: transcription, errCount }
+    const chunks = await getStorage().transcripts.getContent(tr.contentKey)
+    return reconstructTranscript(tr, chunks).errors
+}
+
+// transcribe a completed transcript's packets again, returning false if it can't be
+export async function retranscribe(tr: TranscriptData, accept: boolean = false) {
+    if (!tr.errCount || !(await hasTranscriptPackets(tr))) {
+        return false
+    }
+    logger.info('Retranscribing transcript', { transcriptId: tr.id, errCount: tr.errCount })
+    await unindexTranscript(tr)
+    const { text, lines, annotations, errCount } = await transcribePackets(tr, accept)
+    tr.transcription = text
+    tr.lines = lines
+    tr.annotations = annotations
+    tr.errCount = errCount
+    tr.stats = computeTranscriptStats(tr, await getListenerCount(tr))
+    await saveTranscript(tr)
+    await indexTranscript(tr, transcriptExpiresAt(tr))
+    return true
 }
 
 // testing - not exposed in production
@@ -559,7 +1551,7 @@ export async function postTranscript(req: express.Request, resp: express.Respons
         tr.transcription = text
         tr.errCount = 0
     }
-    const page = await transcriptResponse(tr)
+    const page = await transcriptResponse(tr, { lines: [], liveText: '' })
     resp.status(200).send(page)
 }
 
@@ -567,24 +1559,41 @@ export async function postTranscript(req: express.Request, resp: express.Respons
 /// for maintenance purposes
 ///
 
+/// find the transcripts started in a time range (inclusive), oldest first
+export async function findTranscriptsStarted(
+    from: number,
+    to: number,
+    onProgress?: (found: number) => void,
+) {
+    const ids = await findInIndex('tra-startTime', from, to)
+    const found: TranscriptData[] = []
+    const expired: string[] = []
+    for (let i = 0; i < ids.length; i += indexFetchBatchSize) {
+        const batch = ids.slice(i, i + indexFetchBatchSize)
+        const transcripts = await getStorage().transcripts.getMany(batch)
+        transcripts.forEach((tr, j) => {
+            if (tr) {
+                found.push(tr)
+            } else {
+                expired.push(batch[j])
+            }
+        })
+        onProgress?.(i + batch.length)
+    }
+    // the index outlives expired transcripts, so we drop them as we find them
+    await removeFromIndex('tra-startTime', expired)
+    return found
+}
+
 /// find all the transcripts and assign them to their conversations
+// with dryRun, this only reports the assignments it would make
 export async function assignTranscriptsToConversations(
     inPastMs: number = defaultTranscriptLookBackMs,
+    dryRun: boolean = false,
+    onProgress?: (scanned: number) => void,
 ) {
-    const now = Date.now()
-    const rc = await getDbClient()
-    const prefix = dbKeyPrefix + `tra:`
-    const keys = await rc.keys(`${prefix}*`)
     const map: Map<string, TranscriptData[]> = new Map()
-    for (const key of keys) {
-        const tr = await getTranscript(key.substring(prefix.length))
-        if (!tr) {
-            console.error(`Found a transcript key without data: ${key}`)
-            continue
-        }
-        if (now - tr.startTime > inPastMs) {
-            continue
-        }
+    for (const tr of await findTranscriptsStarted(Date.now() - inPastMs, Infinity, onProgress)) {
         const existing = map.get(tr.conversationId)
         if (existing) {
             existing.push(tr)
@@ -592,11 +1601,53 @@ export async function assignTranscriptsToConversations(
             map.set(tr.conversationId, [tr])
         }
     }
+    const assignments: { conversationId: string; count: number }[] = []
     for (const [id, transcripts] of map) {
-        console.log(`Assigning ${transcripts.length} transcripts to conversation ${id}`)
+        assignments.push({ conversationId: id, count: transcripts.length })
+        if (dryRun) {
+            continue
+        }
+        logger.info('Assigning transcripts to conversation', {
+            conversationId: id,
+            count: transcripts.length,
+        })
         transcripts.sort((a, b) => b.startTime - a.startTime)
         const trIds = transcripts.map((transcript) => transcript.id)
-        const key = dbKeyPrefix + `cts:` + id
-        await rc.multi().del(key).rPush(key, trIds).exec()
+        await getStorage().transcripts.setConversationTranscripts(id, trIds)
+    }
+    return assignments
+}
+
+/// index the transcripts of all conversations for search by their owners
+export async function indexTranscriptsForSearch(onProgress?: (scanned: number) => void) {
+    for await (const batch of getStorage().conversations.scan({ onProgress })) {
+        for (const con of batch) {
+            await addProfileConversation(con.ownerId, con.id)
+            // search has no look-back, so transcripts too old to be listed are indexed too
+            const store = getStorage().transcripts
+            const ids = await store.getConversationTranscripts(con.id)
+            const transcripts = (await store.getMany(ids)).filter((tr) => tr !== undefined)
+            logger.info('Indexing transcripts for conversation', {
+                conversationId: con.id,
+                count: transcripts.length,
+            })
+            for (const tr of transcripts) {
+                await indexTranscript(tr, transcriptExpiresAt(tr))
+            }
+        }
+    }
+}
+
+/// find all the completed transcripts whose packets were kept due to errors
+export async function findErroredTranscripts(onProgress?: (scanned: number) => void) {
+    // keyed by ID, since the scan can return a transcript more than once
+    const errored: Map<string, TranscriptData> = new Map()
+    for await (const batch of getStorage().transcripts.scan({ onProgress })) {
+        for (const tr of batch) {
+            if (tr.errCount && (await hasTranscriptPackets(tr))) {
+                errored.set(tr.id, tr)
+            }
+        }
     }
+    return [...errored.values()].sort((a, b) => b.startTime - a.startTime)
 }
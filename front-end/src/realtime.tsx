@@ -0,0 +1,250 @@
+// Copyright 2024 Daniel C. Brotsky. All rights reserved.
+// Licensed under the GNU Affero General Public License v3.
+// See the LICENSE file for details.
+
+// The listener can receive a conversation either through Ably or through the
+// server's own WebSocket transport, depending on which one the server uses.
+// This module gives both of them the same (Ably-like) interface.
+
+import React, { useEffect, useRef } from 'react'
+import Cookies from 'js-cookie'
+import { AblyProvider, useChannel as useAblyChannel, usePresence as useAblyPresence } from 'ably/react'
+import * as Ably from 'ably'
+
+export interface RealtimeMessage {
+    id: string,
+    name: string,
+    clientId?: string,
+    data: string,
+    timestamp: number,
+}
+
+export interface RealtimeChannel {
+    attach: () => Promise<unknown>,
+    publish: (name: string, data: string) => Promise<void>,
+}
+
+export interface RealtimeClient {
+    connect: () => void,
+    close: () => void,
+}
+
+type MessageListener = (message: RealtimeMessage) => void
+
+interface ServerFrame {
+    action: string,
+    channel?: string,
+    message?: RealtimeMessage,
+    reason?: string,
+}
+
+const authUrl = '/api/v2/listenTokenRequest'
+const useWebSocket = Cookies.get('realtimeTransport') === 'websocket'
+
+export function createRealtimeClient(clientId: string): RealtimeClient {
+    if (useWebSocket) {
+        socketClient = new SocketClient(clientId)
+        return socketClient
+    }
+    ablyClient = new Ably.Realtime.Promise({
+        clientId: clientId,
+        authUrl,
+        echoMessages: false,
+        autoConnect: false, // don't connect until we have a client name in cookie for use in auth
+        // log: { level: 4 },
+    })
+    return ablyClient
+}
+
+export function RealtimeProvider(props: { children: React.ReactNode }) {
+    if (useWebSocket) {
+        return <>{props.children}</>
+    }
+    return <AblyProvider client={ablyClient!}>{props.children}</AblyProvider>
+}
+
+// the choice of transport never changes, so the same hooks are always called
+export const useChannel = useWebSocket ? useSocketChannel : useAblyChannelAdapter
+export const usePresence = useWebSocket ? useSocketPresence : useAblyPresenceAdapter
+
+let ablyClient: Ably.Types.RealtimePromise | undefined
+let socketClient: SocketClient | undefined
+
+function useAblyChannelAdapter(name: string, listener: MessageListener) {
+    // @ts-ignore
+    const { channel } = useAblyChannel(name, (m: Ably.Types.Message) => listener(m as RealtimeMessage))
+    return { channel: channel as RealtimeChannel }
+}
+
+function useAblyPresenceAdapter(name: string, status: string) {
+    const { updateStatus } = useAblyPresence(name, status)
+    return { updateStatus: (status: string) => updateStatus(status) }
+}
+
+function useSocketChannel(name: string, listener: MessageListener) {
+    const channel = socketClient!.channel(name)
+    const current = useRef(listener)
+    current.current = listener
+    useEffect(() => {
+        const received = (m: RealtimeMessage) => current.current(m)
+        channel.subscribe(received)
+        return () => channel.unsubscribe(received)
+    }, [channel])
+    return { channel: channel as RealtimeChannel }
+}
+
+function useSocketPresence(name: string, status: string) {
+    const channel = socketClient!.channel(name)
+    useEffect(() => {
+        channel.enter(status)
+        return () => channel.leave()
+    }, [channel])
+    return { updateStatus: (status: string) => channel.enter(status) }
+}
+
+class SocketChannel {
+    name: string
+    client: SocketClient
+    listeners: Set<MessageListener> = new Set()
+    attached: Promise<void> | undefined
+    onAttached: (() => void) | undefined
+    presence: string | undefined
+
+    constructor(name: string, client: SocketClient) {
+        this.name = name
+        this.client = client
+    }
+
+    attach() {
+        if (!this.attached) {
+            this.attached = new Promise((resolve) => this.onAttached = resolve)
+            this.client.send({ action: 'attach', channel: this.name })
+        }
+        return this.attached
+    }
+
+    subscribe(listener: MessageListener) {
+        this.listeners.add(listener)
+        this.attach().then()
+    }
+
+    unsubscribe(listener: MessageListener) {
+        this.listeners.delete(listener)
+    }
+
+    async publish(name: string, data: string) {
+        this.client.send({ action: 'publish', channel: this.name, name, data })
+    }
+
+    enter(status: string) {
+        this.presence = status
+        this.client.send({ action: 'enter', channel: this.name, status })
+    }
+
+    leave() {
+        this.presence = undefined
+        this.client.send({ action: 'leave', channel: this.name })
+    }
+
+    // after a reconnect, the server has forgotten our attachment and presence
+    restore() {
+        if (this.attached) {
+            this.client.send({ action: 'attach', channel: this.name })
+        }
+        if (this.presence !== undefined) {
+            this.client.send({ action: 'enter', channel: this.name, status: this.presence })
+        }
+    }
+}
+
+class SocketClient {
+    clientId: string
+    socket: WebSocket | undefined
+    connected = false
+    closing = false
+    pending: { action: string }[] = []
+    channels: Map<string, SocketChannel> = new Map()
+
+    constructor(clientId: string) {
+        this.clientId = clientId
+    }
+
+    channel(name: string) {
+        let channel = this.channels.get(name)
+        if (!channel) {
+            channel = new SocketChannel(name, this)
+            this.channels.set(name, channel)
+        }
+        return channel
+    }
+
+    connect() {
+        this.closing = false
+        fetch(authUrl)
+            .then((response) => response.json())
+            .then((tokenRequest) => this.open(tokenRequest))
+            .catch((err) => {
+                console.error(`Couldn't get a token request: ${err}`)
+                this.reconnect()
+            })
+    }
+
+    open(tokenRequest: object) {
+        const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+        const socket = new WebSocket(`${protocol}//${window.location.host}/realtime`)
+        this.socket = socket
+        socket.onopen = () => socket.send(JSON.stringify({ action: 'auth', tokenRequest }))
+        socket.onmessage = (event) => this.receive(JSON.parse(event.data))
+        socket.onclose = () => {
+            this.connected = false
+            this.reconnect()
+        }
+    }
+
+    reconnect() {
+        if (!this.closing) {
+            console.log('Realtime connection lost, reconnecting...')
+            setTimeout(() => this.connect(), 2000)
+        }
+    }
+
+    receive(frame: ServerFrame) {
+        switch (frame.action) {
+            case 'connected':
+                this.connected = true
+                for (const channel of this.channels.values()) {
+                    channel.restore()
+                }
+                // attachments and presence were restored above, so only publish what's pending
+                for (const pending of this.pending.filter((f) => f.action === 'publish')) {
+                    this.socket!.send(JSON.stringify(pending))
+                }
+                this.pending = []
+                break
+            case 'attached':
+                this.channels.get(frame.channel!)?.onAttached?.()
+                break
+            case 'message':
+                for (const listener of this.channels.get(frame.channel!)?.listeners || []) {
+                    listener(frame.message!)
+                }
+                break
+            case 'error':
+                console.error(`Realtime error: ${frame.reason}`)
+                break
+        }
+    }
+
+    send(frame: { action: string }) {
+        if (this.connected) {
+            this.socket!.send(JSON.stringify(frame))
+        } else {
+            this.pending.push(frame)
+        }
+    }
+
+    close() {
+        this.closing = true
+        this.socket?.close()
+    }
+}
@@ -4,8 +4,14 @@
 
 import React, { useEffect, useLayoutEffect, useRef, useState } from 'react'
 import Cookies from 'js-cookie'
-import { AblyProvider, ChannelResult, useChannel, usePresence } from 'ably/react'
-import * as Ably from 'ably'
+import {
+    createRealtimeClient,
+    RealtimeChannel,
+    RealtimeMessage,
+    RealtimeProvider,
+    useChannel,
+    usePresence,
+} from './realtime'
 
 import Typography from '@mui/material/Typography'
 import Button from '@mui/material/Button'
@@ -42,13 +48,8 @@ if (!conversationId || !whispererName || !clientId || !conversationName) {
 const player = new Audio()
 const typer = new Audio()
 
-const client = new Ably.Realtime.Promise({
-    clientId: clientId,
-    authUrl: '/api/v2/listenTokenRequest',
-    echoMessages: false,
-    autoConnect: false, // don't connect until we have a client name in cookie for use in auth
-    // log: { level: 4 },
-})
+// don't connect until we have a client name in cookie for use in auth
+const client = createRealtimeClient(clientId)
 
 interface Text {
     live: string,
@@ -69,9 +70,9 @@ export default function ListenerView() {
         return <DisconnectedView message={exitMsg} />
     } else {
         return (
-            <AblyProvider client={client}>
+            <RealtimeProvider>
                 <ConnectView exit={(msg) => setExitMsg(msg)} />
-            </AblyProvider>
+            </RealtimeProvider>
         )
     }
 }
@@ -158,8 +159,7 @@ function ConnectView(props: { exit: (msg: string) => void }) {
     const [status, setStatus] = useState('waiting')
     const [typing, setTyping] = useState(playTyping === 'YES')
     const [transcript, setTranscript] = useState(false)
-    // @ts-ignore
-    const { channel }: ChannelResult = useChannel(
+    const { channel } = useChannel(
         `${conversationId}:control`,
         m => receiveControlChunk(m, channel, setStatus, setTranscript, props.exit))
     const { updateStatus } = usePresence(`${conversationId}:control`, 'connect')
@@ -334,13 +334,13 @@ function WhisperedLinks(props: { links: Link[] }) {
     )
 }
 
-function sendControlChunk(channel: Ably.Types.RealtimeChannelPromise, id: string, chunk: string) {
+function sendControlChunk(channel: RealtimeChannel, id: string, chunk: string) {
     console.debug(`Sending control chunk: ${chunk}`)
     channel.publish(id, chunk).then()
 }
 
-function receiveControlChunk(message: Ably.Types.Message,
-                             channel: Ably.Types.RealtimeChannelPromise,
+function receiveControlChunk(message: RealtimeMessage,
+                             channel: RealtimeChannel,
                              setStatus: React.Dispatch<React.SetStateAction<string>>,
                              setTranscript: React.Dispatch<React.SetStateAction<boolean>>,
                              exit: (msg: string) => void) {
@@ -409,7 +409,7 @@ function receiveControlChunk(message: Ably.Types.Message,
 
 let resetInProgress = false
 
-function receiveContentChunk(message: Ably.Types.Message,
+function receiveContentChunk(message: RealtimeMessage,
                              updateText: React.Dispatch<React.SetStateAction<Text>>,
                              updateLinks: React.Dispatch<React.SetStateAction<Link[]>>,
                              reread: () => void) {
@@ -493,13 +493,13 @@ function receiveContentChunk(message: Ably.Types.Message,
     }
 }
 
-function sendDrop(channel: Ably.Types.RealtimeChannelPromise) {
+function sendDrop(channel: RealtimeChannel) {
     console.log(`Sending drop message`)
     let chunk = `${controlOffsetValue('dropping')}|||${clientId}|||`
     channel.publish('whisperer', chunk).then()
 }
 
-function sendListenOffer(channel: Ably.Types.RealtimeChannelPromise) {
+function sendListenOffer(channel: RealtimeChannel) {
     console.log(`Sending listen offer`)
     // turns out we can send before we're fully connected.  But if we do that, we don't
     // hear the reply from the listener.  So make sure we're connected before we send.
@@ -512,7 +512,7 @@ function sendListenOffer(channel: Ably.Types.RealtimeChannelPromise) {
     channel.attach().then(sendPacket)
 }
 
-function sendRereadText(channel: Ably.Types.RealtimeChannelPromise) {
+function sendRereadText(channel: RealtimeChannel) {
     if (resetInProgress) {
         // already re-reading all the text
         return